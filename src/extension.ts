@@ -7,13 +7,20 @@ import { BackendTreeProvider } from './providers/backendTreeProvider';
 import { ModelTreeProvider } from './providers/modelTreeProvider';
 import { ConnectionTreeProvider } from './providers/connectionTreeProvider';
 import { HelpTreeProvider } from './providers/helpTreeProvider';
+import { PromptTreeProvider, PromptTreeItem } from './providers/promptTreeProvider';
+import { PromptLibrary } from './services/promptLibrary';
+import { PriceLibrary } from './services/priceLibrary';
+import { MockGatewayServer } from './services/mockGateway';
+import { MockDataSource } from './services/mockDataSource';
 
 export async function activate(context: vscode.ExtensionContext) {
     console.log('[AI Gateway Toolkit] Extension activated');
 
     // Initialize services
     const azureService = new AzureService();
-    const webviewService = new WebviewService(context.extensionUri, azureService);
+    const promptLibrary = new PromptLibrary();
+    const priceLibrary = new PriceLibrary();
+    const webviewService = new WebviewService(context.extensionUri, azureService, promptLibrary, priceLibrary);
 
     // Initialize tree providers
     const apiTreeProvider = new ApiTreeProvider(azureService);
@@ -22,6 +29,7 @@ export async function activate(context: vscode.ExtensionContext) {
     const modelTreeProvider = new ModelTreeProvider(azureService);
     const connectionTreeProvider = new ConnectionTreeProvider(azureService);
     const helpTreeProvider = new HelpTreeProvider();
+    const promptTreeProvider = new PromptTreeProvider(promptLibrary);
 
     // Listen for tree data changes and notify analytics dashboard
     apiTreeProvider.onDidChangeTreeData(() => {
@@ -52,6 +60,18 @@ export async function activate(context: vscode.ExtensionContext) {
         });
     });
 
+    // Price changes re-price the open Playground and dashboard
+    priceLibrary.onDidChange(async () => {
+        webviewService.sendMessageToPanel('playground', {
+            type: 'priceCatalogData',
+            data: await priceLibrary.getCatalog()
+        });
+        webviewService.sendMessageToPanel('analytics', {
+            type: 'dataChanged',
+            data: { source: 'prices' }
+        });
+    });
+
     // Register tree views
     const apiTreeView = vscode.window.createTreeView('aiGatewayToolkit.apiExplorer', {
         treeDataProvider: apiTreeProvider,
@@ -77,6 +97,10 @@ export async function activate(context: vscode.ExtensionContext) {
         treeDataProvider: connectionTreeProvider
     });
 
+    const promptTreeView = vscode.window.createTreeView('aiGatewayToolkit.promptsExplorer', {
+        treeDataProvider: promptTreeProvider
+    });
+
     const helpTreeView = vscode.window.createTreeView('aiGatewayToolkit.helpAndFeedback', {
         treeDataProvider: helpTreeProvider,
         showCollapseAll: false
@@ -129,6 +153,13 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Restore Playground panels that were open when the window reloaded
+    const playgroundSerializer = vscode.window.registerWebviewPanelSerializer('aiGatewayPlayground', {
+        async deserializeWebviewPanel(panel: vscode.WebviewPanel) {
+            webviewService.restorePlaygroundPanel(panel);
+        }
+    });
+
     // Set initial context
     vscode.commands.executeCommand('setContext', 'aiGatewayToolkit.connected', false);
 
@@ -230,6 +261,64 @@ export async function activate(context: vscode.ExtensionContext) {
         vscode.window.showInformationMessage('Disconnected from Azure API Management');
     });
 
+    // Local mock gateway, for demos and development without an Azure subscription
+    let mockGateway: MockGatewayServer | null = null;
+
+    const refreshConnectionViews = () => {
+        apiTreeProvider.refresh();
+        subscriptionTreeProvider.refresh();
+        backendTreeProvider.refresh();
+        modelTreeProvider.refresh();
+        connectionTreeProvider.refresh();
+        webviewService.sendMessageToPanel('analytics', {
+            type: 'dataChanged',
+            data: { source: 'connection' }
+        });
+    };
+
+    const startMockGatewayCommand = vscode.commands.registerCommand('aiGatewayToolkit.startMockGateway', async () => {
+        if (mockGateway) {
+            vscode.window.showInformationMessage(`Mock gateway is already running at ${mockGateway.url}`);
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('aiGatewayToolkit.mockGateway');
+        const server = new MockGatewayServer({
+            latencyMs: Math.max(0, config.get<number>('latencyMs', 300)),
+            errorRate: Math.min(1, Math.max(0, config.get<number>('errorRate', 0))),
+            tokensPerMinute: config.get<number>('tokensPerMinute', 10000) || undefined,
+            requestsPerMinute: config.get<number>('requestsPerMinute', 0) || undefined,
+            cacheScoreThreshold: config.get<number | null>('semanticCacheScoreThreshold', null) ?? undefined
+        });
+
+        try {
+            const url = await server.start(config.get<number>('port', 8089));
+            mockGateway = server;
+            azureService.useMockDataSource(new MockDataSource(server));
+            vscode.commands.executeCommand('setContext', 'aiGatewayToolkit.connected', true);
+            refreshConnectionViews();
+            vscode.window.showInformationMessage(`Mock gateway running at ${url}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start the mock gateway: ${error}`);
+        }
+    });
+
+    const stopMockGatewayCommand = vscode.commands.registerCommand('aiGatewayToolkit.stopMockGateway', async () => {
+        if (!mockGateway) {
+            vscode.window.showInformationMessage('Mock gateway is not running');
+            return;
+        }
+
+        await mockGateway.stop();
+        mockGateway = null;
+        if (azureService.isUsingMockDataSource()) {
+            azureService.disconnect();
+            vscode.commands.executeCommand('setContext', 'aiGatewayToolkit.connected', false);
+            refreshConnectionViews();
+        }
+        vscode.window.showInformationMessage('Mock gateway stopped');
+    });
+
     const openAnalyticsCommand = vscode.commands.registerCommand('aiGatewayToolkit.openAnalytics', (item?: any) => {
         if (!azureService.isConnected()) {
             vscode.window.showWarningMessage('Please connect to Azure API Management first');
@@ -283,6 +372,26 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Opens the Playground's load test mode. Works without a connection too, for runs against a local stub gateway
+    const runLoadTestCommand = vscode.commands.registerCommand('aiGatewayToolkit.runLoadTest', (item?: any) => {
+        let panel = webviewService.getPanel('playground');
+        if (!panel) {
+            panel = webviewService.createPlaygroundPanel();
+        }
+        panel.reveal();
+
+        // Slight delay so a newly created panel is ready, as for openPlaygroundWithSelection
+        setTimeout(() => {
+            webviewService.sendMessageToPanel('playground', { type: 'setMode', data: { mode: 'load' } });
+            if (item?.api || item?.subscription) {
+                webviewService.sendMessageToPanel('playground', {
+                    type: 'setSelection',
+                    data: item.api ? { apiId: item.api.id } : { subscriptionId: item.subscription.id }
+                });
+            }
+        }, 100);
+    });
+
     const refreshApisCommand = vscode.commands.registerCommand('aiGatewayToolkit.refreshApis', () => {
         apiTreeProvider.refresh();
         // Notify analytics dashboard to refresh
@@ -384,6 +493,86 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    const openPromptTemplateCommand = vscode.commands.registerCommand('aiGatewayToolkit.openPromptTemplate', async (item?: PromptTreeItem) => {
+        let file = item?.file;
+
+        // From the command palette, pick one of the workspace templates
+        if (!file) {
+            const files = (await promptLibrary.listTemplates()).filter(f => f.template);
+            if (files.length === 0) {
+                vscode.window.showInformationMessage('No prompt templates found. Save one from the Playground to get started.');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                files.map(f => ({
+                    label: f.template!.name,
+                    description: vscode.workspace.asRelativePath(f.uri),
+                    detail: f.template!.description,
+                    file: f
+                })),
+                { placeHolder: 'Select a prompt template' }
+            );
+            file = picked?.file;
+        }
+
+        if (!file?.template) {
+            return;
+        }
+
+        if (!azureService.isConnected()) {
+            vscode.window.showWarningMessage('Please connect to Azure API Management first');
+            return;
+        }
+
+        let panel = webviewService.getPanel('playground');
+        if (!panel) {
+            panel = webviewService.createPlaygroundPanel();
+        }
+        panel.reveal();
+
+        // Same delay as selections, so a freshly created panel is listening
+        const template = file.template;
+        setTimeout(() => {
+            webviewService.sendMessageToPanel('playground', {
+                type: 'loadPromptTemplate',
+                data: template
+            });
+        }, 100);
+    });
+
+    const editPromptTemplateCommand = vscode.commands.registerCommand('aiGatewayToolkit.editPromptTemplate', (item?: PromptTreeItem) => {
+        if (item) {
+            vscode.window.showTextDocument(item.file.uri);
+        }
+    });
+
+    const refreshPromptsCommand = vscode.commands.registerCommand('aiGatewayToolkit.refreshPrompts', () => {
+        promptTreeProvider.refresh();
+    });
+
+    const saveSessionCommand = vscode.commands.registerCommand('aiGatewayToolkit.saveSession', () => {
+        if (!webviewService.getPanel('playground')) {
+            vscode.window.showWarningMessage('Open the Playground to save a session');
+            return;
+        }
+
+        // The webview replies with its session, which is then written to disk
+        webviewService.sendMessageToPanel('playground', { type: 'requestSession' });
+    });
+
+    const openSessionCommand = vscode.commands.registerCommand('aiGatewayToolkit.openSession', (uri?: vscode.Uri) => {
+        webviewService.openSessionFile(uri);
+    });
+
+    const editPricesCommand = vscode.commands.registerCommand('aiGatewayToolkit.editPrices', async () => {
+        try {
+            await priceLibrary.openPriceFile();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open the price file: ${error}`);
+        }
+    });
+
     const openUrlCommand = vscode.commands.registerCommand('aiGatewayToolkit.openUrl', (url: string) => {
         vscode.env.openExternal(vscode.Uri.parse(url));
     });
@@ -400,8 +589,11 @@ export async function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         connectCommand,
         disconnectCommand,
+        startMockGatewayCommand,
+        stopMockGatewayCommand,
         openAnalyticsCommand,
         openPlaygroundCommand,
+        runLoadTestCommand,
         refreshApisCommand,
         refreshSubscriptionsCommand,
         refreshBackendsCommand,
@@ -409,6 +601,12 @@ export async function activate(context: vscode.ExtensionContext) {
         copySubscriptionKeyCommand,
         copySecondaryKeyCommand,
         createSubscriptionCommand,
+        openPromptTemplateCommand,
+        editPromptTemplateCommand,
+        refreshPromptsCommand,
+        saveSessionCommand,
+        openSessionCommand,
+        editPricesCommand,
         openUrlCommand,
         debugTokenStatusCommand
     );
@@ -424,7 +622,7 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     });
 
-    context.subscriptions.push(authChangeListener);
+    context.subscriptions.push(authChangeListener, promptLibrary, priceLibrary, playgroundSerializer, { dispose: () => mockGateway?.stop() });
 }
 
 export function deactivate() {
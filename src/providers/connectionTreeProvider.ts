@@ -31,6 +31,22 @@ export class ConnectionTreeProvider implements vscode.TreeDataProvider<Connectio
 
     getChildren(element?: ConnectionTreeItem): ConnectionTreeItem[] {
         if (!element) {
+            if (this.azureService.isUsingMockDataSource()) {
+                return [
+                    new ConnectionTreeItem(
+                        'Connected to mock gateway',
+                        vscode.TreeItemCollapsibleState.None,
+                        'connected',
+                        new vscode.ThemeIcon('plug', new vscode.ThemeColor('charts.green'))
+                    ),
+                    new ConnectionTreeItem(
+                        `Gateway: ${this.azureService.getConnection()?.gatewayUrl}`,
+                        vscode.TreeItemCollapsibleState.None,
+                        'service-info',
+                        new vscode.ThemeIcon('server-environment')
+                    )
+                ];
+            }
             if (this.azureService.isConnected()) {
                 // Connected state
                 const connection = this.azureService.getConnection();
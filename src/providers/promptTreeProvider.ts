@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { PromptLibrary, PromptTemplateFile } from '../services/promptLibrary';
+import { extractTemplateVariables } from '../services/promptTemplates';
+
+export class PromptTreeItem extends vscode.TreeItem {
+    constructor(public readonly file: PromptTemplateFile) {
+        super(file.template?.name || vscode.workspace.asRelativePath(file.uri), vscode.TreeItemCollapsibleState.None);
+        this.resourceUri = file.uri;
+
+        if (file.template) {
+            const variables = extractTemplateVariables(file.template);
+            const target = [file.template.target?.apiId, file.template.target?.modelName].filter(Boolean).join(' · ');
+            this.description = target || undefined;
+            this.tooltip = `${file.template.description || file.template.name}${variables.length > 0 ? `\nVariables: ${variables.join(', ')}` : ''}`;
+            this.contextValue = 'prompt';
+            this.iconPath = new vscode.ThemeIcon('note');
+            this.command = {
+                command: 'aiGatewayToolkit.openPromptTemplate',
+                title: 'Open in Playground',
+                arguments: [this]
+            };
+        } else {
+            this.description = 'Invalid template';
+            this.tooltip = file.error;
+            this.contextValue = 'invalidPrompt';
+            this.iconPath = new vscode.ThemeIcon('warning');
+            this.command = {
+                command: 'vscode.open',
+                title: 'Open Template File',
+                arguments: [file.uri]
+            };
+        }
+    }
+}
+
+export class PromptTreeProvider implements vscode.TreeDataProvider<PromptTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<PromptTreeItem | undefined | null | void> = new vscode.EventEmitter<PromptTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<PromptTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(private promptLibrary: PromptLibrary) {
+        promptLibrary.onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: PromptTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: PromptTreeItem): Promise<PromptTreeItem[]> {
+        if (element) {
+            return [];
+        }
+
+        const files = await this.promptLibrary.listTemplates();
+        return files.map(file => new PromptTreeItem(file));
+    }
+}
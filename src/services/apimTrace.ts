@@ -0,0 +1,70 @@
+import { ApimTrace, ApimTraceEntry, ApimTraceSectionName, TraceInfo } from '../types';
+
+export const APIM_DEBUG_AUTHORIZATION_HEADER = 'Apim-Debug-Authorization';
+export const APIM_TRACE_ID_HEADER = 'Apim-Trace-Id';
+
+const TRACE_SECTIONS: ApimTraceSectionName[] = ['inbound', 'backend', 'outbound', 'on-error'];
+
+// Builds the trace info from response headers; works with both node and fetch header shapes
+export function toTraceInfo(getHeader: (name: string) => string | string[] | null | undefined): TraceInfo {
+    const first = (value: string | string[] | null | undefined) => (Array.isArray(value) ? value[0] : value) || undefined;
+    return {
+        requestId: first(getHeader('x-request-id')) || first(getHeader('request-id')),
+        traceId: first(getHeader(APIM_TRACE_ID_HEADER.toLowerCase())),
+        timestamp: new Date().toISOString()
+    };
+}
+
+// Trace entries report elapsed time as a .NET TimeSpan, e.g. "00:00:00.0123456"
+export function parseElapsed(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+        return value;
+    }
+    const match = typeof value === 'string' ? /^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(value) : null;
+    if (!match) {
+        return undefined;
+    }
+    const [, days, hours, minutes, seconds] = match;
+    const totalSeconds = Number(days || 0) * 86400 + Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+    return Math.round(totalSeconds * 1000 * 100) / 100;
+}
+
+// Accepts the listTrace payload, with or without its wrapping object, as an object or a JSON string
+export function parseApimTrace(trace: any): ApimTrace {
+    const payload = typeof trace === 'string' ? JSON.parse(trace) : trace;
+    const traceEntries = payload?.traceEntries ?? payload?.trace?.traceEntries ?? payload?.value?.traceEntries;
+    if (!traceEntries || typeof traceEntries !== 'object') {
+        throw new Error('Trace does not contain any trace entries');
+    }
+
+    const result: ApimTrace = { sections: [] };
+
+    for (const name of TRACE_SECTIONS) {
+        const entries: ApimTraceEntry[] = (Array.isArray(traceEntries[name]) ? traceEntries[name] : []).map((entry: any) => ({
+            source: String(entry?.source ?? 'unknown'),
+            elapsedMs: parseElapsed(entry?.elapsed),
+            message: typeof entry?.data === 'string' ? entry.data : entry?.data?.message,
+            data: entry?.data
+        }));
+
+        for (const entry of entries) {
+            const data = entry.data || {};
+            if (entry.source === 'set-backend-service') {
+                result.selectedBackend = data.backendId || data.newBackendServiceUrl || result.selectedBackend;
+            } else if (entry.source === 'rewrite-uri') {
+                result.rewrittenUrl = data.request?.url || data.newUrl || result.rewrittenUrl;
+            } else if (entry.source === 'forward-request' && data.request?.url) {
+                result.backendUrl = data.request.url;
+            }
+        }
+
+        if (entries.length > 0) {
+            result.sections.push({ name, entries });
+        }
+    }
+
+    const elapsed = result.sections.flatMap(section => section.entries.map(entry => entry.elapsedMs ?? 0));
+    result.totalMs = elapsed.length > 0 ? Math.max(...elapsed) : undefined;
+
+    return result;
+}
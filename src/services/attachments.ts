@@ -0,0 +1,66 @@
+import { ChatMessage, MessageAttachment, PlaygroundRequest } from '../types';
+
+// Image formats accepted as image_url / input_image parts
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export function getAttachmentKind(mimeType: string): MessageAttachment['kind'] {
+    return IMAGE_MIME_TYPES.includes(mimeType) ? 'image' : 'file';
+}
+
+// Only the Responses API takes input_file parts
+export function supportsFileAttachments(request: Pick<PlaygroundRequest, 'sdk' | 'inferenceApiType'>): boolean {
+    return request.sdk === 'azure-openai' && request.inferenceApiType === 'Responses API';
+}
+
+export function validateAttachments(request: Pick<PlaygroundRequest, 'sdk' | 'inferenceApiType' | 'messages'>): string[] {
+    const errors: string[] = [];
+
+    for (const message of request.messages || []) {
+        for (const attachment of message.attachments || []) {
+            if (message.role !== 'user') {
+                errors.push(`'${attachment.name}' is attached to a ${message.role} message; only user messages can have attachments`);
+            } else if (attachment.kind === 'file' && !supportsFileAttachments(request)) {
+                errors.push(`'${attachment.name}' is a file attachment, which requires the Azure OpenAI SDK with the Responses API`);
+            } else if (!attachment.dataUrl.startsWith('data:')) {
+                errors.push(`'${attachment.name}' is not encoded as a data URL`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+// Plain string content is kept when there is nothing attached, so text-only requests are unchanged
+export function toChatCompletionContent(message: Pick<ChatMessage, 'content' | 'attachments'>): string | any[] {
+    if (!message.attachments || message.attachments.length === 0) {
+        return message.content;
+    }
+
+    return [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...message.attachments.map(attachment => ({ type: 'image_url', image_url: { url: attachment.dataUrl } }))
+    ];
+}
+
+export function toResponsesContent(message: Pick<ChatMessage, 'content' | 'attachments'>): string | any[] {
+    if (!message.attachments || message.attachments.length === 0) {
+        return message.content;
+    }
+
+    return [
+        ...(message.content ? [{ type: 'input_text', text: message.content }] : []),
+        ...message.attachments.map(attachment => attachment.kind === 'image'
+            ? { type: 'input_image', image_url: attachment.dataUrl }
+            : { type: 'input_file', filename: attachment.name, file_data: attachment.dataUrl })
+    ];
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+        return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -11,8 +11,11 @@ import {
     BackendUsage,
     LogAnalyticsResult,
     AnalyticsFilters,
-    AnalyticsSummary
+    AnalyticsSummary,
+    CacheLogRecord,
+    TokenUsageBreakdown
 } from '../types';
+import { MockDataSource } from './mockDataSource';
 
 export class AzureService {
     private connection: AzureConnection | null = null;
@@ -29,6 +32,7 @@ export class AzureService {
     private isRefreshing = false;
     private managementSession: vscode.AuthenticationSession | null = null;
     private logsSession: vscode.AuthenticationSession | null = null;
+    private mockDataSource: MockDataSource | null = null; // Answers every call while the mock gateway is connected
 
     private readonly requiredScopes = [
         'https://management.azure.com/.default'
@@ -675,7 +679,8 @@ export class AzureService {
             // Fetch actual gateway URL from APIM service properties
             const actualGatewayUrl = await this.fetchApimGatewayUrl(selectedSub.subscriptionId, selectedApim.resourceGroupName, selectedApim.serviceName);
 
-            // Store connection details
+            // Store connection details; a real connection replaces the mock gateway's data
+            this.mockDataSource = null;
             this.connection = {
                 tenantId: selectedSub.tenantId,
                 subscriptionId: selectedSub.subscriptionId,
@@ -756,7 +761,19 @@ export class AzureService {
         }
     }
 
+    // Points the service at the mock gateway's management and logs data instead of Azure
+    useMockDataSource(source: MockDataSource): void {
+        this.disconnect();
+        this.mockDataSource = source;
+        this.connection = source.getConnection();
+    }
+
+    isUsingMockDataSource(): boolean {
+        return this.mockDataSource !== null;
+    }
+
     disconnect(): void {
+        this.mockDataSource = null;
         this.connection = null;
         this.apiManagementClient = null;
         this.subscriptionClient = null;
@@ -765,7 +782,7 @@ export class AzureService {
     }
 
     isConnected(): boolean {
-        return this.connection !== null && this.apiManagementClient !== null;
+        return this.connection !== null && (this.apiManagementClient !== null || this.mockDataSource !== null);
     }
 
     getConnection(): AzureConnection | null {
@@ -773,6 +790,10 @@ export class AzureService {
     }
 
     async getApis(): Promise<ApiManagementApi[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getApis();
+        }
+
         if (!this.apiManagementClient || !this.connection) {
             throw new Error('Not connected to Azure API Management');
         }
@@ -813,6 +834,10 @@ export class AzureService {
     }
 
     async getSubscriptions(): Promise<ApiManagementSubscription[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getSubscriptions();
+        }
+
         if (!this.apiManagementClient || !this.connection) {
             throw new Error('Not connected to Azure API Management');
         }
@@ -850,6 +875,10 @@ export class AzureService {
     }
 
     async getModelsFromLogs(filters?: AnalyticsFilters): Promise<ModelUsage[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getModelsFromLogs(filters);
+        }
+
         if (!this.logsClient || !this.connection) {
             console.log('Not connected to Azure API Management - returning empty models');
             return [];
@@ -885,6 +914,10 @@ export class AzureService {
     }
 
     async getBackendsFromLogs(filters?: AnalyticsFilters): Promise<BackendUsage[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getBackendsFromLogs(filters);
+        }
+
         if (!this.logsClient || !this.connection) {
             console.log('Not connected to Azure API Management - returning empty backends');
             return [];
@@ -920,6 +953,10 @@ export class AzureService {
     }
 
     async getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getAnalyticsSummary(filters);
+        }
+
         if (!this.logsClient || !this.connection) {
             console.log('Not connected to Azure API Management - returning empty summary');
             return this.parseAnalyticsSummary([]);
@@ -948,7 +985,43 @@ export class AzureService {
         }
     }
 
+    // Prices differ by model and region, so costs are computed from these rows rather than from the totals above
+    async getTokenUsageBreakdown(filters: AnalyticsFilters): Promise<TokenUsageBreakdown[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getTokenUsageBreakdown(filters);
+        }
+
+        if (!this.logsClient || !this.connection) {
+            console.log('Not connected to Azure API Management - returning empty token usage breakdown');
+            return [];
+        }
+
+        try {
+            const query = this.buildTokenUsageBreakdownQuery(filters);
+            const resourceId = `/subscriptions/${this.connection.subscriptionId}/resourceGroups/${this.connection.resourceGroupName}/providers/Microsoft.ApiManagement/service/${this.connection.serviceName}`;
+
+            const result = await this.logsClient.queryResource(
+                resourceId,
+                query,
+                {
+                    startTime: filters.timeRange.start,
+                    endTime: filters.timeRange.end
+                }
+            );
+
+            const table = 'tables' in result ? result.tables[0] : null;
+            return this.parseTokenUsageBreakdown(table?.rows || []);
+        } catch (error) {
+            console.log(`Failed to fetch token usage breakdown from Azure Monitor: ${error}`);
+            return [];
+        }
+    }
+
     async getLogs(filters: AnalyticsFilters, limit: number = 100): Promise<LogAnalyticsResult[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getLogs(filters, limit);
+        }
+
         if (!this.logsClient || !this.connection) {
             console.log('Not connected to Azure API Management - returning empty logs');
             return [];
@@ -976,7 +1049,55 @@ export class AzureService {
         }
     }
 
+    // Gateway log entries for the semantic cache harness. Unlike the dashboard queries this throws, since the
+    // harness reports why a lookup failed; entries usually take a few minutes to be ingested
+    async getCacheLogRecords(correlationIds: string[], timeRange: { start: Date; end: Date }): Promise<CacheLogRecord[]> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getCacheLogRecords(correlationIds, timeRange);
+        }
+
+        if (!this.logsClient || !this.connection) {
+            throw new Error('Not connected to Azure API Management');
+        }
+
+        // Correlation IDs come from response headers, so only plain IDs reach the query
+        const ids = correlationIds.filter(id => /^[\w-]+$/.test(id));
+        if (ids.length === 0) {
+            return [];
+        }
+
+        const query = `
+            ApiManagementGatewayLogs
+            | where CorrelationId in (${ids.map(id => `"${id}"`).join(', ')})
+            | join kind=leftouter (
+                ApiManagementGatewayLlmLog
+                | summarize PromptTokens = max(PromptTokens), CompletionTokens = max(CompletionTokens) by CorrelationId
+            ) on CorrelationId
+            | project CorrelationId, Cache, BackendTime, TotalTime, PromptTokens, CompletionTokens
+        `;
+
+        const result = await this.logsClient.queryResource(this.getServiceResourceId(), query, {
+            startTime: timeRange.start,
+            endTime: timeRange.end
+        });
+
+        const table = 'tables' in result ? result.tables[0] : null;
+        const optionalNumber = (value: unknown) => value === null || value === undefined || value === '' ? undefined : Number(value);
+        return (table?.rows || []).map(row => ({
+            correlationId: String(row[0]),
+            cache: row[1] ? String(row[1]) : undefined,
+            backendTime: optionalNumber(row[2]),
+            totalTime: optionalNumber(row[3]),
+            promptTokens: optionalNumber(row[4]),
+            completionTokens: optionalNumber(row[5])
+        }));
+    }
+
     async createSubscription(name: string, displayName: string, scope: string): Promise<void> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.createSubscription(name, displayName, scope);
+        }
+
         if (!this.apiManagementClient || !this.connection) {
             throw new Error('Not connected to Azure API Management');
         }
@@ -997,6 +1118,85 @@ export class AzureService {
         }
     }
 
+    // Token for APIs protected with validate-azure-ad-token, issued in the connected tenant
+    async getEntraAccessToken(audience: string): Promise<string> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getEntraAccessToken(audience);
+        }
+
+        const scopes = [`${audience.replace(/\/+$/, '')}/.default`];
+        const tenantId = this.connection?.tenantId || this.currentTenantId;
+        if (tenantId) {
+            scopes.push(`VSCODE_TENANT:${tenantId}`);
+        }
+
+        const session = await vscode.authentication.getSession('microsoft', scopes, { createIfNone: true });
+        if (!session) {
+            throw new Error(`Failed to get a Microsoft Entra ID token for ${audience}`);
+        }
+        return session.accessToken;
+    }
+
+    // Short-lived token for the Apim-Debug-Authorization header, scoped to a single API
+    async getDebugTraceToken(apiName: string): Promise<string> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getDebugTraceToken(apiName);
+        }
+
+        const result = await this.postToManagedGateway('listDebugCredentials', {
+            credentialsExpireAfter: 'PT1H',
+            apiId: `${this.getServiceResourceId()}/apis/${apiName}`,
+            purposes: ['tracing']
+        });
+
+        if (!result?.token) {
+            throw new Error('No debug credentials returned for the API');
+        }
+        return result.token;
+    }
+
+    async getTrace(traceId: string): Promise<any> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getTrace(traceId);
+        }
+
+        return await this.postToManagedGateway('listTrace', { traceId });
+    }
+
+    private getServiceResourceId(): string {
+        const { subscriptionId, resourceGroupName, serviceName } = this.connection!;
+        return `/subscriptions/${subscriptionId}/resourceGroups/${resourceGroupName}/providers/Microsoft.ApiManagement/service/${serviceName}`;
+    }
+
+    private async postToManagedGateway(action: string, body: any): Promise<any> {
+        if (!this.credential || !this.connection) {
+            throw new Error('Not connected to Azure API Management');
+        }
+
+        return await this.executeWithTokenRefresh(async () => {
+            const tokenResponse = await this.credential!.getToken(this.requiredScopes);
+            if (!tokenResponse) {
+                throw new Error('Failed to get access token');
+            }
+
+            const apiUrl = `https://management.azure.com${this.getServiceResourceId()}/gateways/managed/${action}?api-version=2023-05-01-preview`;
+            const response = await fetch(apiUrl, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${tokenResponse.token}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(body)
+            });
+
+            if (!response.ok) {
+                throw new Error(`${action} failed: ${response.status} ${await response.text()}`);
+            }
+
+            return await response.json();
+        }, 'management');
+    }
+
     private isInferenceApi(api: any): boolean {
         // You can customize this logic based on your API naming convention
         // For example, check if the API name contains 'inference', 'ai', 'ml', etc.
@@ -1140,6 +1340,39 @@ export class AzureService {
         return query;
     }
 
+    private buildTokenUsageBreakdownQuery(filters: AnalyticsFilters): string {
+        let query = `
+                let llmHeaderLogs = ApiManagementGatewayLlmLog 
+                | where DeploymentName != ''; 
+                let llmLogsWithSubscriptionId = llmHeaderLogs 
+                | join kind=leftouter ApiManagementGatewayLogs on CorrelationId 
+                | project 
+                    TimeGenerated, 
+                    SubscriptionId = ApimSubscriptionId, 
+                    DeploymentName, 
+                    PromptTokens, 
+                    CompletionTokens, 
+                    ApiId,
+                    Region,
+                    Backend = parse_url(BackendUrl).Host,
+                    CorrelationId;
+                llmLogsWithSubscriptionId
+                | where 1 == 1
+                | summarize 
+                    PromptTokens = sum(PromptTokens),
+                    CompletionTokens = sum(CompletionTokens),
+                    RequestCount = count()
+                by DeploymentName, Region, tostring(Backend), SubscriptionId
+        `;
+
+        const whereConditions = this.buildWhereConditions(filters);
+        if (whereConditions.length > 0) {
+            query = query.replace('| where 1 == 1', `| where ${whereConditions.join(' and ')}`);
+        }
+
+        return query;
+    }
+
     private buildLogsQuery(filters: AnalyticsFilters, limit: number): string {
         let query = `
             ApiManagementGatewayLlmLog
@@ -1235,6 +1468,18 @@ export class AzureService {
         };
     }
 
+    private parseTokenUsageBreakdown(rows: any[]): TokenUsageBreakdown[] {
+        return rows.map(row => ({
+            modelName: row[0] || 'Unknown',
+            region: row[1] || '',
+            backendName: row[2] || 'Unknown',
+            subscriptionName: row[3] || 'Unknown',
+            promptTokens: Number(row[4]) || 0,
+            completionTokens: Number(row[5]) || 0,
+            requestCount: Number(row[6]) || 0
+        }));
+    }
+
     private parseLogResults(rows: any[]): LogAnalyticsResult[] {
         return rows.map(row => ({
             timestamp: new Date(row[0]),
@@ -1254,6 +1499,10 @@ export class AzureService {
     }
 
     async getUsageTrend(filters?: AnalyticsFilters): Promise<Array<{time: string, prompts: number, completions: number, totalTokens: number}>> {
+        if (this.mockDataSource) {
+            return this.mockDataSource.getUsageTrend(filters);
+        }
+
         if (!this.logsClient || !this.connection) {
             console.log('Not connected to Azure API Management - returning empty trend data');
             return this.generateEmptyTrendData(filters);
@@ -0,0 +1,208 @@
+import { BatchItem, BatchResult, BatchScore, BatchScorerConfig, BatchScorerType } from '../types';
+
+const PROMPT_FIELDS = ['prompt', 'input', 'question'];
+const EXPECTED_FIELDS = ['expected', 'answer', 'output', 'ideal'];
+
+type Scorer = (output: string, expected: string | undefined, config: BatchScorerConfig) => BatchScore | undefined;
+
+// Scorers return undefined when they cannot apply to a row (e.g. no expected answer)
+const SCORERS: Record<BatchScorerType, Scorer> = {
+    exact: (output, expected, config) => {
+        if (expected === undefined) {
+            return undefined;
+        }
+        const normalize = (value: string) => config.ignoreCase ? value.trim().toLowerCase() : value.trim();
+        return { scorer: 'exact', passed: normalize(output) === normalize(expected) };
+    },
+    contains: (output, expected, config) => {
+        if (expected === undefined) {
+            return undefined;
+        }
+        const passed = config.ignoreCase
+            ? output.toLowerCase().includes(expected.toLowerCase())
+            : output.includes(expected);
+        return { scorer: 'contains', passed };
+    },
+    regex: (output, expected, config) => {
+        const pattern = config.pattern || expected;
+        if (!pattern) {
+            return undefined;
+        }
+        try {
+            return { scorer: 'regex', passed: new RegExp(pattern, config.ignoreCase ? 'i' : '').test(output) };
+        } catch (error) {
+            return { scorer: 'regex', passed: false, detail: `Invalid pattern: ${error instanceof Error ? error.message : error}` };
+        }
+    },
+    json: (output) => {
+        try {
+            JSON.parse(output);
+            return { scorer: 'json', passed: true };
+        } catch (error) {
+            return { scorer: 'json', passed: false, detail: error instanceof Error ? error.message : String(error) };
+        }
+    }
+};
+
+export function scoreOutput(output: string, expected: string | undefined, scorers: BatchScorerConfig[]): BatchScore[] {
+    return scorers
+        .map(config => SCORERS[config.type]?.(output, expected, config))
+        .filter((score): score is BatchScore => score !== undefined);
+}
+
+// Accepts JSONL (one object or string per line) or CSV with a header row
+export function parseDataset(text: string, fileName: string): { items: BatchItem[]; errors: string[] } {
+    const dataset = fileName.toLowerCase().endsWith('.csv') ? parseCsvDataset(text) : parseJsonlDataset(text);
+
+    // Results are keyed by id, so repeated ids get a suffix
+    const seen = new Map<string, number>();
+    dataset.items = dataset.items.map(item => {
+        const count = seen.get(item.id) || 0;
+        seen.set(item.id, count + 1);
+        return count === 0 ? item : { ...item, id: `${item.id}-${count + 1}` };
+    });
+
+    return dataset;
+}
+
+function toBatchItem(record: Record<string, any>, index: number): BatchItem | string {
+    const promptField = PROMPT_FIELDS.find(field => typeof record[field] === 'string' && record[field].trim() !== '');
+    if (!promptField) {
+        return `Row ${index + 1}: missing a '${PROMPT_FIELDS.join("', '")}' field`;
+    }
+
+    const expectedField = EXPECTED_FIELDS.find(field => record[field] !== undefined && record[field] !== '');
+    const expected = expectedField === undefined
+        ? undefined
+        : typeof record[expectedField] === 'string' ? record[expectedField] : JSON.stringify(record[expectedField]);
+
+    return {
+        id: record.id !== undefined && record.id !== '' ? String(record.id) : String(index + 1),
+        prompt: record[promptField],
+        expected
+    };
+}
+
+function parseJsonlDataset(text: string): { items: BatchItem[]; errors: string[] } {
+    const items: BatchItem[] = [];
+    const errors: string[] = [];
+
+    text.split(/\r?\n/).forEach((line, lineIndex) => {
+        if (!line.trim()) {
+            return;
+        }
+
+        let record: any;
+        try {
+            record = JSON.parse(line);
+        } catch (error) {
+            errors.push(`Line ${lineIndex + 1}: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        const item = toBatchItem(typeof record === 'string' ? { prompt: record } : record, items.length + errors.length);
+        if (typeof item === 'string') {
+            errors.push(item);
+        } else {
+            items.push(item);
+        }
+    });
+
+    return { items, errors };
+}
+
+function parseCsvDataset(text: string): { items: BatchItem[]; errors: string[] } {
+    const rows = parseCsv(text).filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) {
+        return { items: [], errors: ['CSV file is empty'] };
+    }
+
+    const header = rows[0].map(cell => cell.trim().toLowerCase());
+    const items: BatchItem[] = [];
+    const errors: string[] = [];
+
+    rows.slice(1).forEach((row, rowIndex) => {
+        const record: Record<string, string> = {};
+        header.forEach((column, columnIndex) => {
+            record[column] = row[columnIndex] ?? '';
+        });
+
+        const item = toBatchItem(record, rowIndex);
+        if (typeof item === 'string') {
+            errors.push(item);
+        } else {
+            items.push(item);
+        }
+    });
+
+    return { items, errors };
+}
+
+// RFC 4180 style: quoted cells may contain commas, newlines and doubled quotes
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+// Runs the worker over every item with at most `limit` calls in flight
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    });
+    await Promise.all(runners);
+}
+
+// OpenAI SDK errors carry a status, the raw HTTP path reports "HTTP <status>: ..."
+export function getErrorStatusCode(error: any): number | undefined {
+    if (typeof error?.status === 'number') {
+        return error.status;
+    }
+    const match = /HTTP (\d{3})/.exec(error instanceof Error ? error.message : String(error));
+    return match ? Number(match[1]) : undefined;
+}
+
+export function toJsonl(results: BatchResult[], metadata: Record<string, any>): string {
+    return results.map(result => JSON.stringify({ ...metadata, ...result })).join('\n') + '\n';
+}
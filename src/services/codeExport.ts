@@ -0,0 +1,311 @@
+import { PlaygroundAuthMode, PlaygroundRequest } from '../types';
+import { DEFAULT_ENTRA_AUDIENCE, usesEntraToken, usesSubscriptionKey } from './gatewayAuth';
+import { buildChatCompletionsPayload, buildResponsesPayload, getInferenceEndpointUrl, toAzureOpenAIEndpoint } from './requestPayloads';
+
+// Generated code never contains the real key or token, only these environment variables
+export const SUBSCRIPTION_KEY_ENV_VAR = 'AIGW_SUBSCRIPTION_KEY';
+export const ACCESS_TOKEN_ENV_VAR = 'AIGW_ACCESS_TOKEN';
+
+// The OpenAI and Azure clients refuse to start without a credential, even when the API needs none
+const NO_CREDENTIAL = '"unused"';
+
+export type CodeExportFormat = 'curl' | 'python-openai' | 'python-inference' | 'typescript-openai' | 'csharp' | 'http';
+
+export const CODE_EXPORT_FORMATS: Array<{ format: CodeExportFormat; label: string; language: string }> = [
+    { format: 'curl', label: 'curl', language: 'shellscript' },
+    { format: 'python-openai', label: 'Python (openai)', language: 'python' },
+    { format: 'python-inference', label: 'Python (azure-ai-inference)', language: 'python' },
+    { format: 'typescript-openai', label: 'TypeScript (openai)', language: 'typescript' },
+    { format: 'csharp', label: 'C# (HttpClient)', language: 'csharp' },
+    { format: 'http', label: 'REST Client (.http)', language: 'http' }
+];
+
+export interface CodeExportSpec {
+    sdk: string;
+    isResponsesApi: boolean;
+    stream: boolean;
+    gatewayUrl: string;
+    url: string;
+    apiVersion: string;
+    authMode: PlaygroundAuthMode;
+    entraAudience: string;
+    keyHeaders: string[]; // Headers that carry the subscription key, as sent by the selected SDK; empty without a key
+    headers: Record<string, string>; // Custom headers from the Playground settings
+    queryParams: Record<string, string>; // Custom query parameters, already part of url
+    body: Record<string, any>;
+}
+
+export function buildCodeExportSpec(request: PlaygroundRequest, gatewayUrl: string): CodeExportSpec {
+    const isResponsesApi = request.sdk === 'azure-openai' && request.inferenceApiType === 'Responses API';
+    const authMode = request.authMode || 'subscription-key';
+    const sdkKeyHeaders = request.sdk === 'azure-openai'
+        ? ['api-key']
+        : request.sdk === 'openai-compatible' ? ['Authorization', 'Ocp-Apim-Subscription-Key'] : ['Ocp-Apim-Subscription-Key'];
+    // As in the Playground, the Entra token takes the Authorization header over a key sent there
+    const keyHeaders = usesSubscriptionKey(authMode)
+        ? sdkKeyHeaders.filter(header => !(header === 'Authorization' && usesEntraToken(authMode)))
+        : [];
+
+    return {
+        sdk: request.sdk,
+        isResponsesApi,
+        stream: !!request.stream,
+        gatewayUrl,
+        url: getInferenceEndpointUrl(gatewayUrl, request),
+        apiVersion: request.apiVersion,
+        authMode,
+        entraAudience: request.entraAudience || DEFAULT_ENTRA_AUDIENCE,
+        keyHeaders,
+        headers: request.customHeaders || {},
+        queryParams: request.queryParams || {},
+        body: isResponsesApi ? buildResponsesPayload(request) : buildChatCompletionsPayload(request)
+    };
+}
+
+export function generateCode(format: CodeExportFormat, spec: CodeExportSpec): string {
+    switch (format) {
+        case 'curl':
+            return generateCurl(spec);
+        case 'python-openai':
+            return generatePythonOpenAI(spec);
+        case 'python-inference':
+            return generatePythonInference(spec);
+        case 'typescript-openai':
+            return generateTypeScriptOpenAI(spec);
+        case 'csharp':
+            return generateCSharp(spec);
+        case 'http':
+            return generateHttpFile(spec);
+    }
+}
+
+const toJson = (value: any, indent = 2) => JSON.stringify(value, null, indent);
+
+const keyHeaderValue = (header: string, key: string) => header === 'Authorization' ? `Bearer ${key}` : key;
+
+// Headers for the formats that write every header out; the Entra token always travels as a bearer token
+function authHeaderLines(spec: CodeExportSpec, key: string, token: string): string[] {
+    const lines = spec.keyHeaders.map(header => `${header}: ${keyHeaderValue(header, key)}`);
+    return usesEntraToken(spec.authMode) ? [...lines, `Authorization: Bearer ${token}`] : lines;
+}
+
+function credentialComments(spec: CodeExportSpec): string[] {
+    return [
+        ...(usesSubscriptionKey(spec.authMode) ? [`# export ${SUBSCRIPTION_KEY_ENV_VAR}=<your subscription key>`] : []),
+        ...(usesEntraToken(spec.authMode)
+            ? [`# export ${ACCESS_TOKEN_ENV_VAR}=$(az account get-access-token --resource ${spec.entraAudience} --query accessToken -o tsv)`]
+            : [])
+    ];
+}
+
+// Credential the OpenAI-style clients send as their bearer token, or as api-key for a keyed Azure OpenAI client
+function clientCredential(spec: CodeExportSpec, key: string, token: string): string {
+    if (usesEntraToken(spec.authMode)) {
+        return token;
+    }
+    return usesSubscriptionKey(spec.authMode) ? key : NO_CREDENTIAL;
+}
+
+// Base URL for the OpenAI-style clients, which append /chat/completions themselves
+const toClientBaseUrl = (url: string) => url.replace(/\?.*$/, '').replace(/\/chat\/completions$/, '');
+
+function generateCurl(spec: CodeExportSpec): string {
+    const lines = [
+        `curl ${spec.stream ? '-N ' : ''}-X POST "${spec.url}" \\`,
+        '  -H "Content-Type: application/json" \\',
+        ...authHeaderLines(spec, `$${SUBSCRIPTION_KEY_ENV_VAR}`, `$${ACCESS_TOKEN_ENV_VAR}`).map(line => `  -H "${line}" \\`),
+        ...Object.entries(spec.headers).map(([name, value]) => `  -H ${JSON.stringify(`${name}: ${value}`)} \\`),
+        `  -d '${toJson(spec.body).replace(/'/g, `'\\''`)}'`
+    ];
+    return [...credentialComments(spec), ...lines].join('\n') + '\n';
+}
+
+function toPythonLiteral(value: any, indent = 0): string {
+    const pad = ' '.repeat(indent + 4);
+    const closingPad = ' '.repeat(indent);
+    if (value === null || value === undefined) {
+        return 'None';
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'True' : 'False';
+    }
+    if (typeof value === 'number' || typeof value === 'string') {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return value.length === 0
+            ? '[]'
+            : `[\n${value.map(item => pad + toPythonLiteral(item, indent + 4)).join(',\n')}\n${closingPad}]`;
+    }
+    const entries = Object.entries(value);
+    return entries.length === 0
+        ? '{}'
+        : `{\n${entries.map(([key, item]) => `${pad}${JSON.stringify(key)}: ${toPythonLiteral(item, indent + 4)}`).join(',\n')}\n${closingPad}}`;
+}
+
+function pythonOutput(spec: CodeExportSpec, variable: string): string {
+    if (spec.isResponsesApi) {
+        return spec.stream
+            ? `for event in ${variable}:\n    if event.type == "response.output_text.delta":\n        print(event.delta, end="", flush=True)\n`
+            : `print(${variable}.output_text)\n`;
+    }
+    return spec.stream
+        ? `for chunk in ${variable}:\n    if chunk.choices and chunk.choices[0].delta.content:\n        print(chunk.choices[0].delta.content, end="", flush=True)\n`
+        : `print(${variable}.choices[0].message.content)\n`;
+}
+
+// Python dict / JS object entries; values are emitted as-is so they can reference variables
+const objectEntries = (entries: Record<string, string>) => Object.entries(entries).map(([name, value]) => `${JSON.stringify(name)}: ${value}`).join(', ');
+
+const quoteValues = (entries: Record<string, string>) => Object.fromEntries(Object.entries(entries).map(([name, value]) => [name, JSON.stringify(value)]));
+
+// A keyed Azure OpenAI client sends api-key itself; anything else takes its credential as a bearer token
+const azureUsesKey = (spec: CodeExportSpec) => !usesEntraToken(spec.authMode) && usesSubscriptionKey(spec.authMode);
+
+// Key headers the client does not send on its own, as default headers
+function clientKeyHeaders(spec: CodeExportSpec, key: string): Record<string, string> {
+    if (!usesSubscriptionKey(spec.authMode)) {
+        return {};
+    }
+    if (spec.sdk === 'azure-openai') {
+        return azureUsesKey(spec) ? {} : { 'api-key': key };
+    }
+    return { 'Ocp-Apim-Subscription-Key': key };
+}
+
+function generatePythonOpenAI(spec: CodeExportSpec): string {
+    const key = `os.environ["${SUBSCRIPTION_KEY_ENV_VAR}"]`;
+    const credential = clientCredential(spec, key, `os.environ["${ACCESS_TOKEN_ENV_VAR}"]`);
+    const headers = { ...clientKeyHeaders(spec, key), ...quoteValues(spec.headers) };
+    const options = [
+        Object.keys(headers).length > 0 ? `    default_headers={${objectEntries(headers)}},\n` : '',
+        Object.keys(spec.queryParams).length > 0 ? `    default_query={${objectEntries(quoteValues(spec.queryParams))}},\n` : ''
+    ].join('');
+    const client = spec.sdk === 'azure-openai'
+        ? `from openai import AzureOpenAI\n\nclient = AzureOpenAI(\n    azure_endpoint="${toAzureOpenAIEndpoint(spec.gatewayUrl)}",\n    ${azureUsesKey(spec) ? 'api_key' : 'azure_ad_token'}=${credential},\n    api_version="${spec.apiVersion}",\n${options})\n`
+        : `from openai import OpenAI\n\nclient = OpenAI(\n    base_url="${toClientBaseUrl(spec.url)}",\n    api_key=${credential},\n${options})\n`;
+    const method = spec.isResponsesApi ? 'client.responses.create' : 'client.chat.completions.create';
+    const args = Object.entries(spec.body).map(([name, value]) => `    ${name}=${toPythonLiteral(value, 4)},`).join('\n');
+
+    return `import os\n${client}\nresponse = ${method}(\n${args}\n)\n\n${pythonOutput(spec, 'response')}`;
+}
+
+function generatePythonInference(spec: CodeExportSpec): string {
+    const key = `os.environ["${SUBSCRIPTION_KEY_ENV_VAR}"]`;
+    // The credential goes out as a bearer token, which carries the Entra token when there is one
+    const credential = clientCredential(spec, key, `os.environ["${ACCESS_TOKEN_ENV_VAR}"]`);
+    const headers = { ...(usesSubscriptionKey(spec.authMode) ? { 'Ocp-Apim-Subscription-Key': key } : {}), ...quoteValues(spec.headers) };
+    const apiVersion = spec.sdk === 'azure-openai' ? `\n    api_version="${spec.apiVersion}",` : '';
+
+    return [
+        'import os',
+        'from azure.ai.inference import ChatCompletionsClient',
+        'from azure.core.credentials import AzureKeyCredential',
+        '',
+        'client = ChatCompletionsClient(',
+        `    endpoint="${toClientBaseUrl(spec.url)}",`,
+        `    credential=AzureKeyCredential(${credential}),`,
+        `    headers={${objectEntries(headers)}},${apiVersion}`,
+        ')',
+        '',
+        `response = client.complete(body=${toPythonLiteral(spec.body)})`,
+        '',
+        pythonOutput({ ...spec, isResponsesApi: false }, 'response')
+    ].join('\n');
+}
+
+function generateTypeScriptOpenAI(spec: CodeExportSpec): string {
+    const key = `process.env.${SUBSCRIPTION_KEY_ENV_VAR}`;
+    const credential = clientCredential(spec, key, `process.env.${ACCESS_TOKEN_ENV_VAR}`);
+    const headers = { ...clientKeyHeaders(spec, `${key} ?? ""`), ...quoteValues(spec.headers) };
+    // The Azure client only takes a token through a provider
+    const azureCredential = azureUsesKey(spec) ? `apiKey: ${credential}` : `azureADTokenProvider: async () => ${credential}${credential === NO_CREDENTIAL ? '' : ' ?? ""'}`;
+    const options = [
+        Object.keys(headers).length > 0 ? `    defaultHeaders: { ${objectEntries(headers)} },\n` : '',
+        Object.keys(spec.queryParams).length > 0 ? `    defaultQuery: { ${objectEntries(quoteValues(spec.queryParams))} },\n` : ''
+    ].join('');
+    const client = spec.sdk === 'azure-openai'
+        ? `import { AzureOpenAI } from "openai";\n\nconst client = new AzureOpenAI({\n    endpoint: "${toAzureOpenAIEndpoint(spec.gatewayUrl)}",\n    ${azureCredential},\n    apiVersion: "${spec.apiVersion}",\n${options}});\n`
+        : `import OpenAI from "openai";\n\nconst client = new OpenAI({\n    baseURL: "${toClientBaseUrl(spec.url)}",\n    apiKey: ${credential},\n${options}});\n`;
+    const method = spec.isResponsesApi ? 'client.responses.create' : 'client.chat.completions.create';
+
+    let output: string;
+    if (spec.isResponsesApi) {
+        output = spec.stream
+            ? 'for await (const event of response) {\n    if (event.type === "response.output_text.delta") {\n        process.stdout.write(event.delta);\n    }\n}\n'
+            : 'console.log(response.output_text);\n';
+    } else {
+        output = spec.stream
+            ? 'for await (const chunk of response) {\n    process.stdout.write(chunk.choices[0]?.delta?.content ?? "");\n}\n'
+            : 'console.log(response.choices[0].message.content);\n';
+    }
+
+    return `${client}\nconst response = await ${method}(${toJson(spec.body, 4)});\n\n${output}`;
+}
+
+function generateCSharp(spec: CodeExportSpec): string {
+    // Raw string literals need more quotes than the longest quote run in the body
+    const json = toJson(spec.body);
+    const longestQuoteRun = Math.max(0, ...(json.match(/"+/g) || []).map(run => run.length));
+    const quotes = '"'.repeat(Math.max(3, longestQuoteRun + 1));
+    const indentedJson = json.split('\n').map(line => `    ${line}`).join('\n');
+
+    const headers = spec.keyHeaders.map(header => header === 'Authorization'
+        ? 'request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", subscriptionKey);'
+        : `request.Headers.Add("${header}", subscriptionKey);`)
+        .concat(usesEntraToken(spec.authMode) ? ['request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", accessToken);'] : [])
+        .concat(Object.entries(spec.headers).map(([name, value]) => `request.Headers.Add(${JSON.stringify(name)}, ${JSON.stringify(value)});`));
+    const credentials = [
+        ...(usesSubscriptionKey(spec.authMode) ? [`var subscriptionKey = Environment.GetEnvironmentVariable("${SUBSCRIPTION_KEY_ENV_VAR}");`] : []),
+        ...(usesEntraToken(spec.authMode) ? [`var accessToken = Environment.GetEnvironmentVariable("${ACCESS_TOKEN_ENV_VAR}");`] : [])
+    ];
+
+    const output = spec.stream
+        ? [
+            'using var reader = new StreamReader(await response.Content.ReadAsStreamAsync());',
+            'while (await reader.ReadLineAsync() is { } line)',
+            '{',
+            '    if (line.StartsWith("data: ") && line != "data: [DONE]")',
+            '    {',
+            '        Console.WriteLine(line["data: ".Length..]);',
+            '    }',
+            '}'
+        ]
+        : ['Console.WriteLine(await response.Content.ReadAsStringAsync());'];
+
+    return [
+        'using System.Net.Http.Headers;',
+        'using System.Text;',
+        '',
+        ...(credentials.length > 0 ? [...credentials, ''] : []),
+        'using var client = new HttpClient();',
+        `using var request = new HttpRequestMessage(HttpMethod.Post, "${spec.url}");`,
+        ...headers,
+        `request.Content = new StringContent(${quotes}`,
+        indentedJson,
+        `    ${quotes}, Encoding.UTF8, "application/json");`,
+        '',
+        'using var response = await client.SendAsync(request, HttpCompletionOption.ResponseHeadersRead);',
+        'response.EnsureSuccessStatusCode();',
+        ...output,
+        ''
+    ].join('\n');
+}
+
+function generateHttpFile(spec: CodeExportSpec): string {
+    const variables = [
+        ...(usesSubscriptionKey(spec.authMode) ? [`@subscriptionKey = {{$processEnv ${SUBSCRIPTION_KEY_ENV_VAR}}}`] : []),
+        ...(usesEntraToken(spec.authMode) ? [`@accessToken = {{$processEnv ${ACCESS_TOKEN_ENV_VAR}}}`] : [])
+    ];
+    return [
+        ...(variables.length > 0 ? [...variables, ''] : []),
+        '###',
+        `POST ${spec.url}`,
+        'Content-Type: application/json',
+        ...authHeaderLines(spec, '{{subscriptionKey}}', '{{accessToken}}'),
+        ...Object.entries(spec.headers).map(([name, value]) => `${name}: ${value}`),
+        '',
+        toJson(spec.body),
+        ''
+    ].join('\n');
+}
@@ -0,0 +1,57 @@
+import { CompareResult, CompareTarget } from '../types';
+
+export const COMPARE_REQUEST_PREFIX = 'cmp-';
+
+// Results are routed by request id: cmp-<run>-<column>
+export function getCompareColumn(requestId: string | undefined): number {
+    if (!requestId || !requestId.startsWith(COMPARE_REQUEST_PREFIX)) {
+        return -1;
+    }
+    return Number(requestId.split('-').pop());
+}
+
+// One sendMessage request per column, sharing the Playground settings and the prompt
+export function buildCompareRequests(baseRequest: Record<string, any>, targets: CompareTarget[], prompt: string, runId: string): Array<Record<string, any>> {
+    return targets.map((target, index) => ({
+        ...baseRequest,
+        sdk: target.sdk,
+        apiId: target.apiId,
+        modelName: target.modelName,
+        subscriptionId: target.subscriptionId,
+        requestId: `${COMPARE_REQUEST_PREFIX}${runId}-${index}`,
+        messages: [{ role: 'user', content: prompt }]
+    }));
+}
+
+// Each column only takes the chunks, reply or error of its own request, so one failing deployment leaves
+// the other columns running; messages of earlier runs and other views return the results unchanged
+export function applyCompareMessage(results: Record<number, CompareResult>, message: { type: string; data?: any }): Record<number, CompareResult> {
+    const requestId = message.data?.requestId;
+    const column = getCompareColumn(requestId);
+    const result = results[column];
+    if (!result || result.requestId !== requestId) {
+        return results;
+    }
+
+    switch (message.type) {
+        case 'messageChunk':
+            return { ...results, [column]: { ...result, content: result.content + message.data.delta } };
+        case 'messageResponse':
+            return {
+                ...results,
+                [column]: {
+                    ...result,
+                    status: 'done',
+                    content: message.data.content,
+                    latency: message.data.latency,
+                    timeToFirstToken: message.data.timeToFirstToken,
+                    attempts: message.data.attempts?.length,
+                    tokens: message.data.tokens
+                }
+            };
+        case 'error':
+            return { ...results, [column]: { ...result, status: 'error', error: message.data.message, attempts: message.data.attempts?.length } };
+        default:
+            return results;
+    }
+}
@@ -0,0 +1,77 @@
+import { EmbeddingsRequest } from '../types';
+import { omitUndefined } from './modelParameters';
+import { toAzureOpenAIEndpoint } from './requestPayloads';
+import { appendQueryParams } from './requestOptions';
+
+// Vectors are requested as floats so every SDK path returns the same shape
+export function buildEmbeddingsPayload(request: Pick<EmbeddingsRequest, 'modelName' | 'inputs' | 'dimensions'>): Record<string, any> {
+    return {
+        model: request.modelName,
+        input: request.inputs,
+        encoding_format: 'float',
+        ...omitUndefined({ dimensions: request.dimensions })
+    };
+}
+
+// REST endpoint each SDK ends up calling, with any custom query parameters; mirrors the chat completions endpoints
+export function getEmbeddingsEndpointUrl(gatewayUrl: string, request: Pick<EmbeddingsRequest, 'sdk' | 'modelName' | 'apiVersion' | 'queryParams'>): string {
+    const base = gatewayUrl.replace(/\/+$/, '');
+    let url: string;
+
+    switch (request.sdk) {
+        case 'azure-openai':
+            url = `${toAzureOpenAIEndpoint(base).replace(/\/+$/, '')}/openai/deployments/${encodeURIComponent(request.modelName)}/embeddings?api-version=${encodeURIComponent(request.apiVersion)}`;
+            break;
+        case 'openai-compatible':
+            url = `${base}/${base.includes('/v1') ? 'embeddings' : 'v1/embeddings'}`;
+            break;
+        default:
+            url = `${base}/embeddings`;
+    }
+
+    return appendQueryParams(url, request.queryParams);
+}
+
+export function validateEmbeddingsRequest(request: Pick<EmbeddingsRequest, 'inputs' | 'dimensions'>): string[] {
+    const errors: string[] = [];
+    if (!request.inputs || request.inputs.length === 0) {
+        errors.push('Enter at least one input');
+    } else if (request.inputs.some(input => input.trim() === '')) {
+        errors.push('Inputs cannot be empty');
+    }
+    if (request.dimensions !== undefined && (!Number.isInteger(request.dimensions) || request.dimensions < 1)) {
+        errors.push('Dimensions must be a positive whole number');
+    }
+    return errors;
+}
+
+// The API may return items out of order, so they are placed by index
+export function extractEmbeddings(response: any): { vectors: number[][]; tokens?: { prompt_tokens: number; total_tokens: number } } {
+    const data: any[] = Array.isArray(response?.data) ? response.data : [];
+    const vectors: number[][] = [];
+    data.forEach((item, position) => {
+        vectors[typeof item.index === 'number' ? item.index : position] = item.embedding;
+    });
+
+    const usage = response?.usage;
+    return {
+        vectors,
+        tokens: usage ? { prompt_tokens: usage.prompt_tokens ?? 0, total_tokens: usage.total_tokens ?? usage.prompt_tokens ?? 0 } : undefined
+    };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export function similarityMatrix(vectors: number[][]): number[][] {
+    return vectors.map((a, i) => vectors.map((b, j) => i === j ? 1 : cosineSimilarity(a, b)));
+}
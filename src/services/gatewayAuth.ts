@@ -0,0 +1,31 @@
+import { PlaygroundAuthMode } from '../types';
+
+export const DEFAULT_ENTRA_AUDIENCE = 'https://cognitiveservices.azure.com';
+
+export const AUTH_MODES: Array<{ mode: PlaygroundAuthMode; label: string }> = [
+    { mode: 'subscription-key', label: 'Subscription key' },
+    { mode: 'entra', label: 'Microsoft Entra ID token' },
+    { mode: 'both', label: 'Subscription key + Entra ID token' },
+    { mode: 'none', label: 'None' }
+];
+
+export const usesSubscriptionKey = (mode: PlaygroundAuthMode = 'subscription-key') => mode === 'subscription-key' || mode === 'both';
+
+export const usesEntraToken = (mode: PlaygroundAuthMode = 'subscription-key') => mode === 'entra' || mode === 'both';
+
+// The subscription key goes in the headers the SDK normally uses for it; the Entra token always
+// travels as a bearer token, so it wins over a key sent as 'Authorization'
+export function buildAuthHeaders(credentials: { subscriptionKey?: string; accessToken?: string }, keyHeaders: string[]): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const { subscriptionKey, accessToken } = credentials;
+
+    if (subscriptionKey) {
+        for (const header of keyHeaders) {
+            headers[header] = header === 'Authorization' ? `Bearer ${subscriptionKey}` : subscriptionKey;
+        }
+    }
+    if (accessToken) {
+        headers['Authorization'] = `Bearer ${accessToken}`;
+    }
+    return headers;
+}
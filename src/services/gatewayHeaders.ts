@@ -0,0 +1,132 @@
+import { GatewayHeader, GatewayHeaderCategory } from '../types';
+
+// Display order in the header inspector; plain HTTP headers go last
+const CATEGORY_ORDER: GatewayHeaderCategory[] = ['rate-limit', 'retry', 'usage', 'cache', 'routing', 'tracing', 'policy', 'http'];
+
+const KNOWN_HEADERS: Record<string, { category: GatewayHeaderCategory; label: string }> = {
+    'x-ratelimit-remaining-tokens': { category: 'rate-limit', label: 'Remaining tokens' },
+    'x-ratelimit-remaining-requests': { category: 'rate-limit', label: 'Remaining requests' },
+    'x-ratelimit-limit-tokens': { category: 'rate-limit', label: 'Token limit' },
+    'x-ratelimit-limit-requests': { category: 'rate-limit', label: 'Request limit' },
+    'x-ratelimit-reset-tokens': { category: 'rate-limit', label: 'Token limit reset' },
+    'x-ratelimit-reset-requests': { category: 'rate-limit', label: 'Request limit reset' },
+    'retry-after': { category: 'retry', label: 'Retry after' },
+    'retry-after-ms': { category: 'retry', label: 'Retry after' },
+    'x-ms-retry-after-ms': { category: 'retry', label: 'Retry after' },
+    'openai-processing-ms': { category: 'usage', label: 'Backend processing time' },
+    'x-ms-region': { category: 'routing', label: 'Region' },
+    'x-ms-deployment-name': { category: 'routing', label: 'Deployment' },
+    'openai-model': { category: 'routing', label: 'Model' },
+    'azureml-model-session': { category: 'routing', label: 'Model session' },
+    'x-request-id': { category: 'tracing', label: 'Request ID' },
+    'apim-request-id': { category: 'tracing', label: 'APIM request ID' },
+    'apim-trace-id': { category: 'tracing', label: 'APIM trace ID' },
+    'x-ms-client-request-id': { category: 'tracing', label: 'Client request ID' },
+    'request-id': { category: 'tracing', label: 'Request ID' }
+};
+
+const HTTP_HEADERS = new Set([
+    'access-control-allow-origin', 'access-control-expose-headers', 'cache-control', 'connection', 'content-encoding',
+    'content-length', 'content-type', 'date', 'etag', 'expires', 'keep-alive', 'pragma', 'server', 'set-cookie',
+    'strict-transport-security', 'transfer-encoding', 'vary', 'x-content-type-options', 'x-powered-by'
+]);
+
+// Accepts fetch Headers and node's IncomingHttpHeaders
+export function toHeaderRecord(headers: any): Record<string, string> {
+    const record: Record<string, string> = {};
+    if (!headers) {
+        return record;
+    }
+
+    const entries: Iterable<[string, any]> = typeof headers.entries === 'function' ? headers.entries() : Object.entries(headers);
+    for (const [name, value] of entries) {
+        if (value !== undefined && value !== null) {
+            record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+        }
+    }
+    return record;
+}
+
+// Policies name these headers freely, so they are recognized by name fragments
+function categorize(name: string): { category: GatewayHeaderCategory; label?: string } {
+    if (KNOWN_HEADERS[name]) {
+        return KNOWN_HEADERS[name];
+    }
+    if (HTTP_HEADERS.has(name)) {
+        return { category: 'http' };
+    }
+    if (name.includes('ratelimit') || name.includes('rate-limit') || name.includes('quota')) {
+        return { category: 'rate-limit' };
+    }
+    if (name.includes('cache')) {
+        return { category: 'cache' };
+    }
+    if (name.includes('tokens')) {
+        return { category: 'usage' };
+    }
+    if (name.includes('backend') || name.includes('region') || name.includes('deployment')) {
+        return { category: 'routing' };
+    }
+    return { category: 'policy' };
+}
+
+// Rate limit resets come as seconds ("12") or durations ("1m30s", "250ms")
+function formatDuration(value: string): string | undefined {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return `${Number(value)}s`;
+    }
+    return /^(\d+(\.\d+)?(ms|h|m|s))+$/.test(value) ? value : undefined;
+}
+
+// Policies report HIT or MISS in their cache headers, sometimes followed by more detail
+export function decodeCacheHeader(value: string): 'hit' | 'miss' | undefined {
+    if (/^hit/i.test(value)) {
+        return 'hit';
+    }
+    return /^miss/i.test(value) ? 'miss' : undefined;
+}
+
+function decode(name: string, value: string, category: GatewayHeaderCategory): string | undefined {
+    const count = /^\d+$/.test(value) ? Number(value).toLocaleString('en-US') : undefined;
+
+    if (name.endsWith('-ms') && /^\d+(\.\d+)?$/.test(value)) {
+        return name.startsWith('openai-processing') ? `Processed by the backend in ${value}ms` : `Retry in ${value}ms`;
+    }
+    if (name === 'retry-after') {
+        if (/^\d+$/.test(value)) {
+            return `Retry in ${value}s`;
+        }
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : `Retry at ${date.toLocaleTimeString()}`;
+    }
+    if (category === 'rate-limit') {
+        if (name.includes('reset')) {
+            const duration = formatDuration(value);
+            return duration ? `Resets in ${duration}` : undefined;
+        }
+        const unit = name.includes('request') ? 'requests' : 'tokens';
+        if (count !== undefined) {
+            return name.includes('-limit-') ? `${count} ${unit} per window` : `${count} ${unit} left in the current window`;
+        }
+    }
+    if (category === 'cache') {
+        const status = decodeCacheHeader(value);
+        if (status) {
+            return status === 'hit' ? 'Served from cache' : 'Not in cache';
+        }
+    }
+    if (category === 'usage' && count !== undefined) {
+        return `${count} tokens`;
+    }
+    return undefined;
+}
+
+export function describeGatewayHeaders(headers: Record<string, string>): GatewayHeader[] {
+    return Object.entries(headers)
+        .map(([rawName, value]) => {
+            const name = rawName.toLowerCase();
+            const { category, label } = categorize(name);
+            return { name, value, category, label, decoded: decode(name, value, category) };
+        })
+        .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,180 @@
+import { LoadTestConfig, LoadTestSample } from '../types';
+import { getRetryAfterMs } from './retryPolicy';
+
+export const DEFAULT_LOAD_TEST_CONFIG: LoadTestConfig = {
+    requestsPerSecond: 2,
+    concurrency: 10,
+    durationSeconds: 30,
+    promptTokens: 200,
+    maxTokens: 50
+};
+
+// Guards against bursts that would hurt the machine running the extension rather than the gateway
+export const MAX_REQUESTS_PER_SECOND = 50;
+export const MAX_DURATION_SECONDS = 600;
+
+// Common words tokenize to roughly one token each, so the prompt size is close to what the gateway counts
+const FILLER_WORDS = ['the', 'gateway', 'checks', 'every', 'request', 'against', 'its', 'token', 'budget', 'before', 'it', 'reaches', 'a', 'model'];
+
+export function validateLoadTestConfig(config: LoadTestConfig): string[] {
+    const errors: string[] = [];
+    if (!(config.requestsPerSecond > 0) || config.requestsPerSecond > MAX_REQUESTS_PER_SECOND) {
+        errors.push(`Requests per second must be between 0 and ${MAX_REQUESTS_PER_SECOND}`);
+    }
+    if (!Number.isInteger(config.concurrency) || config.concurrency < 1) {
+        errors.push('Concurrency must be a whole number of at least 1');
+    }
+    if (!(config.durationSeconds > 0) || config.durationSeconds > MAX_DURATION_SECONDS) {
+        errors.push(`Duration must be between 0 and ${MAX_DURATION_SECONDS} seconds`);
+    }
+    if (!Number.isInteger(config.promptTokens) || config.promptTokens < 1) {
+        errors.push('Prompt size must be a whole number of tokens');
+    }
+    if (config.maxTokens !== undefined && (!Number.isInteger(config.maxTokens) || config.maxTokens < 1)) {
+        errors.push('Max tokens must be a whole number of at least 1');
+    }
+    return errors;
+}
+
+// Numbered so that no two prompts are identical and a semantic cache in front of the model does not absorb the burst
+export function buildLoadTestPrompt(approximateTokens: number, index: number): string {
+    const words = [`Request ${index}:`];
+    for (let i = 0; words.length < approximateTokens; i++) {
+        words.push(FILLER_WORDS[i % FILLER_WORDS.length]);
+    }
+    return `${words.join(' ')}. Reply with one word.`;
+}
+
+// Rate limit headers as llm-token-limit and Azure OpenAI send them; absent headers stay undefined
+export function readRateLimitHeaders(headers: Record<string, string> | undefined): Pick<LoadTestSample, 'remainingTokens' | 'remainingRequests' | 'retryAfterMs'> {
+    const toNumber = (value: string | undefined) => value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : undefined;
+    return {
+        remainingTokens: toNumber(headers?.['x-ratelimit-remaining-tokens']),
+        remainingRequests: toNumber(headers?.['x-ratelimit-remaining-requests']),
+        retryAfterMs: getRetryAfterMs(headers)
+    };
+}
+
+export interface LoadTestBucket {
+    second: number; // Seconds since the start of the run
+    accepted: number;
+    throttled: number;
+    errors: number;
+    remainingTokens?: number; // Lowest value reported in the second
+    retryAfterSeconds?: number; // Longest wait requested in the second
+}
+
+export function bucketLoadTestSamples(samples: LoadTestSample[]): LoadTestBucket[] {
+    const buckets: LoadTestBucket[] = [];
+    for (const sample of samples) {
+        const second = Math.floor(sample.offsetMs / 1000);
+        while (buckets.length <= second) {
+            buckets.push({ second: buckets.length, accepted: 0, throttled: 0, errors: 0 });
+        }
+        const bucket = buckets[second];
+        if (sample.statusCode === 429) {
+            bucket.throttled++;
+        } else if (sample.error) {
+            bucket.errors++;
+        } else {
+            bucket.accepted++;
+        }
+        if (sample.remainingTokens !== undefined) {
+            bucket.remainingTokens = Math.min(bucket.remainingTokens ?? Infinity, sample.remainingTokens);
+        }
+        if (sample.retryAfterMs !== undefined) {
+            bucket.retryAfterSeconds = Math.max(bucket.retryAfterSeconds ?? 0, sample.retryAfterMs / 1000);
+        }
+    }
+    return buckets;
+}
+
+export interface LoadTestSummary {
+    sent: number;
+    accepted: number;
+    throttled: number;
+    errors: number;
+    skipped: number;
+    achievedRps?: number;
+    p50LatencyMs?: number;
+    p95LatencyMs?: number;
+    firstThrottleSecond?: number;
+    tokensBeforeFirstThrottle: number; // Tokens the gateway accepted before its first 429, to compare with the configured TPM
+}
+
+function percentile(sorted: number[], fraction: number): number | undefined {
+    return sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * fraction) - 1)] : undefined;
+}
+
+export function summarizeLoadTest(samples: LoadTestSample[], skipped: number): LoadTestSummary {
+    const ordered = [...samples].sort((a, b) => a.offsetMs - b.offsetMs);
+    const firstThrottle = ordered.find(sample => sample.statusCode === 429);
+    const latencies = ordered.filter(sample => !sample.error).map(sample => sample.latency).sort((a, b) => a - b);
+    const lastOffset = ordered.length > 0 ? ordered[ordered.length - 1].offsetMs : 0;
+
+    return {
+        sent: ordered.length,
+        accepted: ordered.filter(sample => !sample.error).length,
+        throttled: ordered.filter(sample => sample.statusCode === 429).length,
+        errors: ordered.filter(sample => sample.error && sample.statusCode !== 429).length,
+        skipped,
+        achievedRps: lastOffset > 0 ? Math.round((ordered.length / (lastOffset / 1000)) * 10) / 10 : undefined,
+        p50LatencyMs: percentile(latencies, 0.5),
+        p95LatencyMs: percentile(latencies, 0.95),
+        firstThrottleSecond: firstThrottle ? Math.round(firstThrottle.offsetMs / 100) / 10 : undefined,
+        tokensBeforeFirstThrottle: ordered
+            .filter(sample => !sample.error && (!firstThrottle || sample.offsetMs < firstThrottle.offsetMs))
+            .reduce((sum, sample) => sum + (sample.totalTokens ?? 0), 0)
+    };
+}
+
+// Resolves early when the run is stopped, so stopping does not wait out the gap to the next tick
+function waitForTick(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Starts a request every 1/rps seconds for the duration. A tick that finds every concurrency slot busy is
+// skipped rather than queued, so a slow gateway cannot turn the burst into a backlog.
+export async function runLoadSchedule(
+    config: LoadTestConfig,
+    signal: AbortSignal,
+    send: (index: number) => Promise<void>
+): Promise<{ started: number; skipped: number }> {
+    const intervalMs = 1000 / config.requestsPerSecond;
+    const total = Math.floor(config.durationSeconds * config.requestsPerSecond);
+    const inFlight = new Set<Promise<void>>();
+    const startTime = Date.now();
+    let started = 0;
+    let skipped = 0;
+
+    for (let index = 0; index < total && !signal.aborted; index++) {
+        const wait = startTime + index * intervalMs - Date.now();
+        if (wait > 0) {
+            await waitForTick(wait, signal);
+        }
+        if (signal.aborted) {
+            break;
+        }
+        if (inFlight.size >= config.concurrency) {
+            skipped++;
+            continue;
+        }
+
+        const request = send(index).catch(() => undefined).finally(() => inFlight.delete(request));
+        inFlight.add(request);
+        started++;
+    }
+
+    await Promise.all(inFlight);
+    return { started, skipped };
+}
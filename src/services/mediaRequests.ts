@@ -0,0 +1,112 @@
+import { ImageGenerationRequest, AudioRequest, GeneratedImage, PlaygroundRequest } from '../types';
+import { omitUndefined } from './modelParameters';
+import { toAzureOpenAIEndpoint } from './requestPayloads';
+import { appendQueryParams } from './requestOptions';
+
+export type MediaOperation = 'images/generations' | 'audio/transcriptions' | 'audio/speech';
+
+export const IMAGE_SIZES = ['1024x1024', '1024x1536', '1536x1024', '1792x1024', '1024x1792', 'auto'];
+export const IMAGE_QUALITIES = ['auto', 'low', 'medium', 'high', 'standard', 'hd'];
+export const SPEECH_VOICES = ['alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'];
+
+// Formats the speech endpoint can return, with the MIME type the webview plays them as
+export const SPEECH_FORMATS: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    opus: 'audio/ogg',
+    aac: 'audio/aac',
+    flac: 'audio/flac'
+};
+
+// Extensions accepted by the transcription endpoint
+export const AUDIO_FILE_TYPES: Record<string, string> = {
+    mp3: 'audio/mpeg',
+    mp4: 'audio/mp4',
+    mpeg: 'audio/mpeg',
+    mpga: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    wav: 'audio/wav',
+    webm: 'audio/webm',
+    ogg: 'audio/ogg',
+    flac: 'audio/flac'
+};
+
+export function supportsMediaEndpoints(sdk: string): boolean {
+    return sdk === 'azure-openai' || sdk === 'openai-compatible';
+}
+
+export function getMediaEndpointUrl(gatewayUrl: string, request: Pick<PlaygroundRequest, 'sdk' | 'modelName' | 'apiVersion' | 'queryParams'>, operation: MediaOperation): string {
+    const base = gatewayUrl.replace(/\/+$/, '');
+    let url: string;
+
+    switch (request.sdk) {
+        case 'azure-openai':
+            url = `${toAzureOpenAIEndpoint(base).replace(/\/+$/, '')}/openai/deployments/${encodeURIComponent(request.modelName)}/${operation}?api-version=${encodeURIComponent(request.apiVersion)}`;
+            break;
+        case 'openai-compatible':
+            url = `${base}/${base.includes('/v1') ? operation : `v1/${operation}`}`;
+            break;
+        default:
+            throw new Error('Image generation and audio need the Azure OpenAI SDK or the OpenAI SDK');
+    }
+
+    return appendQueryParams(url, request.queryParams);
+}
+
+// gpt-image models always return base64 and reject response_format, DALL·E returns URLs unless asked
+export function buildImageGenerationPayload(request: Pick<ImageGenerationRequest, 'modelName' | 'prompt' | 'size' | 'quality' | 'n'>): Record<string, any> {
+    const isDallE = /dall-?e/i.test(request.modelName);
+    return omitUndefined({
+        model: request.modelName,
+        prompt: request.prompt,
+        size: request.size,
+        quality: request.quality,
+        n: request.n,
+        response_format: isDallE ? 'b64_json' : undefined
+    });
+}
+
+export function extractGeneratedImages(response: any): GeneratedImage[] {
+    const data: any[] = Array.isArray(response?.data) ? response.data : [];
+    return data.map(item => omitUndefined({
+        b64Json: item.b64_json,
+        url: item.url,
+        revisedPrompt: item.revised_prompt
+    }) as GeneratedImage);
+}
+
+export function buildSpeechPayload(request: Pick<AudioRequest, 'modelName' | 'input' | 'voice' | 'format'>): Record<string, any> {
+    return {
+        model: request.modelName,
+        input: request.input,
+        voice: request.voice || SPEECH_VOICES[0],
+        response_format: request.format || 'mp3'
+    };
+}
+
+// The transcription endpoint only takes multipart/form-data
+export function buildMultipartBody(
+    fields: Record<string, string | undefined>,
+    file: { fieldName: string; fileName: string; mimeType: string; content: Uint8Array },
+    boundary: string
+): { body: Buffer; contentType: string } {
+    const parts: Buffer[] = [];
+    for (const [name, value] of Object.entries(fields)) {
+        if (value !== undefined && value !== '') {
+            parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`, 'utf8'));
+        }
+    }
+    parts.push(Buffer.from(
+        `--${boundary}\r\nContent-Disposition: form-data; name="${file.fieldName}"; filename="${file.fileName.replace(/"/g, '')}"\r\nContent-Type: ${file.mimeType}\r\n\r\n`,
+        'utf8'
+    ));
+    parts.push(Buffer.from(file.content));
+    parts.push(Buffer.from(`\r\n--${boundary}--\r\n`, 'utf8'));
+
+    return { body: Buffer.concat(parts), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+export function getFileExtension(fileName: string): string {
+    const match = /\.([^.\/\\]+)$/.exec(fileName);
+    return match ? match[1].toLowerCase() : '';
+}
@@ -0,0 +1,323 @@
+import {
+    AzureConnection,
+    ApiManagementApi,
+    ApiManagementSubscription,
+    ModelUsage,
+    BackendUsage,
+    LogAnalyticsResult,
+    AnalyticsFilters,
+    AnalyticsSummary,
+    CacheLogRecord,
+    TokenUsageBreakdown
+} from '../types';
+import { MOCK_APIS, MOCK_BACKENDS, MockGatewayRecord, MockGatewayServer, buildMockReply, estimateMockTokens } from './mockGateway';
+
+const HISTORY_DAYS = 7;
+const HISTORY_INTERVAL_MS = 15 * 60 * 1000;
+
+const HISTORY_MODELS = ['gpt-4o', 'gpt-4o-mini', 'text-embedding-3-small'];
+const HISTORY_PROMPTS = [
+    'Summarize the incident report in three bullet points',
+    'Translate the release notes to French',
+    'Which regions does the gateway route to?',
+    'Write a haiku about rate limits',
+    'Classify this support ticket by urgency'
+];
+
+type TrendPoint = { time: string; prompts: number; completions: number; totalTokens: number };
+
+// Small seeded generator so the fake history is the same on every start
+function seededRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function randomKey(random: () => number): string {
+    return Array.from({ length: 32 }, () => Math.floor(random() * 16).toString(16)).join('');
+}
+
+// Stands in for API Management and Log Analytics while the mock gateway runs: APIs point at the mock server,
+// and analytics, logs and traces come from a seeded week of history plus the requests the server handled
+export class MockDataSource {
+    private readonly subscriptions: ApiManagementSubscription[];
+    private readonly history: MockGatewayRecord[];
+
+    constructor(private readonly server: MockGatewayServer, now: Date = new Date()) {
+        const random = seededRandom(42);
+        this.subscriptions = ['team-alpha', 'team-beta'].map(name => ({
+            id: name,
+            name,
+            displayName: `Mock ${name}`,
+            state: 'active',
+            primaryKey: randomKey(random),
+            secondaryKey: randomKey(random),
+            scope: '/apis',
+            createdDate: new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000)
+        }));
+        this.history = this.buildHistory(now, random);
+        this.syncSubscriptionKeys();
+    }
+
+    getConnection(): AzureConnection {
+        return {
+            tenantId: 'mock-tenant',
+            subscriptionId: 'mock-subscription',
+            resourceGroupName: 'mock-resource-group',
+            serviceName: 'mock-gateway',
+            accessToken: '',
+            gatewayUrl: this.getGatewayUrl()
+        };
+    }
+
+    async getApis(): Promise<ApiManagementApi[]> {
+        const gatewayUrl = this.getGatewayUrl();
+        return MOCK_APIS.map(api => ({
+            id: api.id,
+            name: api.id,
+            displayName: api.displayName,
+            description: 'Served by the local mock gateway',
+            serviceUrl: `https://${MOCK_BACKENDS[0].host}`,
+            path: api.path,
+            protocols: ['http'],
+            subscriptionRequired: true,
+            gatewayUrl: `${gatewayUrl}/${api.path}`,
+            baseGatewayUrl: gatewayUrl
+        }));
+    }
+
+    async getSubscriptions(): Promise<ApiManagementSubscription[]> {
+        return [...this.subscriptions];
+    }
+
+    async createSubscription(name: string, displayName: string, scope: string): Promise<void> {
+        if (this.subscriptions.some(subscription => subscription.name === name)) {
+            throw new Error(`Failed to create subscription: ${name} already exists`);
+        }
+        this.subscriptions.push({
+            id: name,
+            name,
+            displayName,
+            state: 'active',
+            primaryKey: randomKey(Math.random),
+            secondaryKey: randomKey(Math.random),
+            scope,
+            createdDate: new Date()
+        });
+        this.syncSubscriptionKeys();
+    }
+
+    async getModelsFromLogs(filters?: AnalyticsFilters): Promise<ModelUsage[]> {
+        return this.groupUsage(this.getRecords(filters), record => record.modelName)
+            .map(({ key, ...usage }) => ({ modelName: key, ...usage }));
+    }
+
+    async getBackendsFromLogs(filters?: AnalyticsFilters): Promise<BackendUsage[]> {
+        return this.groupUsage(this.getRecords(filters), record => record.backend)
+            .map(({ key, ...usage }) => ({ backendName: key, ...usage }));
+    }
+
+    async getAnalyticsSummary(filters: AnalyticsFilters): Promise<AnalyticsSummary> {
+        const [usage] = this.groupUsage(this.getRecords(filters), () => 'all');
+        return {
+            totalRequests: usage?.requestCount ?? 0,
+            totalTokens: usage?.totalTokens ?? 0,
+            promptTokens: usage?.promptTokens ?? 0,
+            completionTokens: usage?.completionTokens ?? 0,
+            averageLatency: usage?.averageLatency ?? 0,
+            errorRate: usage?.errorRate ?? 0
+        };
+    }
+
+    async getTokenUsageBreakdown(filters: AnalyticsFilters): Promise<TokenUsageBreakdown[]> {
+        const rows = new Map<string, TokenUsageBreakdown>();
+        for (const record of this.getRecords(filters)) {
+            const key = [record.modelName, record.region, record.backend, record.subscriptionName].join('|');
+            const row = rows.get(key) || {
+                modelName: record.modelName,
+                region: record.region,
+                backendName: record.backend,
+                subscriptionName: record.subscriptionName,
+                promptTokens: 0,
+                completionTokens: 0,
+                requestCount: 0
+            };
+            row.promptTokens += record.promptTokens;
+            row.completionTokens += record.completionTokens;
+            row.requestCount++;
+            rows.set(key, row);
+        }
+        return [...rows.values()];
+    }
+
+    async getLogs(filters: AnalyticsFilters, limit: number = 100): Promise<LogAnalyticsResult[]> {
+        return this.getRecords(filters)
+            .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+            .slice(0, limit)
+            .map(record => ({
+                timestamp: record.timestamp,
+                correlationId: record.correlationId,
+                apiName: record.apiId,
+                subscriptionName: record.subscriptionName,
+                modelName: record.modelName,
+                backend: record.backend,
+                region: record.region,
+                promptRequest: record.prompt,
+                completionResponse: record.completion,
+                promptTokens: record.promptTokens,
+                completionTokens: record.completionTokens,
+                streamed: record.streamed,
+                statusCode: record.statusCode
+            }));
+    }
+
+    // Same bins as the Log Analytics query: minutes up to an hour, hours up to a day, days beyond
+    async getUsageTrend(filters?: AnalyticsFilters): Promise<TrendPoint[]> {
+        const end = filters?.timeRange?.end ?? new Date();
+        const start = filters?.timeRange?.start ?? new Date(end.getTime() - 24 * 60 * 60 * 1000);
+        const rangeMs = end.getTime() - start.getTime();
+        const binMs = rangeMs <= 60 * 60 * 1000 ? 60 * 1000 : rangeMs <= 24 * 60 * 60 * 1000 ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+
+        const points: TrendPoint[] = [];
+        for (let time = Math.floor(start.getTime() / binMs) * binMs; time <= end.getTime(); time += binMs) {
+            points.push({ time: new Date(time).toISOString(), prompts: 0, completions: 0, totalTokens: 0 });
+        }
+        for (const record of this.getRecords(filters ?? { timeRange: { start, end } })) {
+            const point = points[Math.floor((record.timestamp.getTime() - new Date(points[0].time).getTime()) / binMs)];
+            if (point) {
+                point.prompts += record.promptTokens;
+                point.completions += record.completionTokens;
+                point.totalTokens += record.promptTokens + record.completionTokens;
+            }
+        }
+        return points;
+    }
+
+    async getCacheLogRecords(correlationIds: string[], timeRange: { start: Date; end: Date }): Promise<CacheLogRecord[]> {
+        return this.getRecords({ timeRange })
+            .filter(record => correlationIds.includes(record.correlationId))
+            .map(record => ({
+                correlationId: record.correlationId,
+                cache: record.cache,
+                backendTime: record.cache === 'hit' ? undefined : record.latency,
+                totalTime: record.latency,
+                promptTokens: record.cache === 'hit' ? undefined : record.promptTokens,
+                completionTokens: record.cache === 'hit' ? undefined : record.completionTokens
+            }));
+    }
+
+    async getEntraAccessToken(audience: string): Promise<string> {
+        return `mock-entra-token-for-${audience}`;
+    }
+
+    async getDebugTraceToken(apiName: string): Promise<string> {
+        return `mock-debug-token-for-${apiName}`;
+    }
+
+    async getTrace(traceId: string): Promise<any> {
+        const trace = this.server.getTrace(traceId);
+        if (!trace) {
+            throw new Error(`Trace ${traceId} not found on the mock gateway`);
+        }
+        return trace;
+    }
+
+    private getGatewayUrl(): string {
+        const url = this.server.url;
+        if (!url) {
+            throw new Error('The mock gateway is not running');
+        }
+        return url;
+    }
+
+    // The server only accepts keys of the subscriptions listed here
+    private syncSubscriptionKeys(): void {
+        const keys: Record<string, string> = {};
+        for (const subscription of this.subscriptions) {
+            keys[subscription.primaryKey] = subscription.name;
+            keys[subscription.secondaryKey] = subscription.name;
+        }
+        this.server.options.subscriptionKeys = keys;
+    }
+
+    private getRecords(filters?: AnalyticsFilters): MockGatewayRecord[] {
+        return [...this.history, ...this.server.getRecords()].filter(record =>
+            (!filters?.timeRange || (record.timestamp >= filters.timeRange.start && record.timestamp <= filters.timeRange.end)) &&
+            (!filters?.apiIds?.length || filters.apiIds.includes(record.apiId)) &&
+            (!filters?.subscriptionNames?.length || filters.subscriptionNames.includes(record.subscriptionName)) &&
+            (!filters?.modelNames?.length || filters.modelNames.includes(record.modelName)) &&
+            (!filters?.backends?.length || filters.backends.includes(record.backend))
+        );
+    }
+
+    private groupUsage(records: MockGatewayRecord[], keyOf: (record: MockGatewayRecord) => string): Array<Omit<ModelUsage, 'modelName'> & { key: string }> {
+        const groups = new Map<string, MockGatewayRecord[]>();
+        for (const record of records) {
+            groups.set(keyOf(record), [...(groups.get(keyOf(record)) || []), record]);
+        }
+
+        return [...groups.entries()]
+            .map(([key, items]) => {
+                const promptTokens = items.reduce((sum, record) => sum + record.promptTokens, 0);
+                const completionTokens = items.reduce((sum, record) => sum + record.completionTokens, 0);
+                const errors = items.filter(record => record.statusCode >= 400).length;
+                return {
+                    key,
+                    totalTokens: promptTokens + completionTokens,
+                    promptTokens,
+                    completionTokens,
+                    requestCount: items.length,
+                    averageLatency: Math.round(items.reduce((sum, record) => sum + record.latency, 0) / items.length),
+                    errorRate: errors * 100 / items.length,
+                    successRate: (items.length - errors) * 100 / items.length
+                };
+            })
+            .sort((a, b) => b.totalTokens - a.totalTokens);
+    }
+
+    // One request every quarter hour for the past week, busier during working hours, with occasional 429s
+    private buildHistory(now: Date, random: () => number): MockGatewayRecord[] {
+        const records: MockGatewayRecord[] = [];
+        const start = now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+
+        for (let time = start, index = 0; time < now.getTime(); time += HISTORY_INTERVAL_MS, index++) {
+            const hour = new Date(time).getUTCHours();
+            if (hour < 7 || hour > 19 ? random() < 0.7 : random() < 0.1) {
+                continue;
+            }
+
+            const modelName = HISTORY_MODELS[Math.floor(random() * HISTORY_MODELS.length)];
+            const isEmbedding = modelName.startsWith('text-embedding');
+            const prompt = HISTORY_PROMPTS[Math.floor(random() * HISTORY_PROMPTS.length)];
+            const backend = MOCK_BACKENDS[index % MOCK_BACKENDS.length];
+            const statusCode = random() < 0.04 ? 429 : random() < 0.01 ? 500 : 200;
+            const completion = isEmbedding || statusCode !== 200 ? '' : buildMockReply(prompt, modelName).text;
+            const api = MOCK_APIS[Math.floor(random() * MOCK_APIS.length)];
+            // Cache hits are answered by the gateway, so they use no model tokens
+            const cacheHit = !isEmbedding && statusCode === 200 && random() < 0.15;
+
+            records.push({
+                timestamp: new Date(time + Math.floor(random() * HISTORY_INTERVAL_MS)),
+                correlationId: `mock-history-${index}`,
+                apiId: api.id,
+                subscriptionName: this.subscriptions[Math.floor(random() * this.subscriptions.length)].name,
+                modelName,
+                operation: isEmbedding ? 'embeddings' : 'chat',
+                backend: backend.host,
+                region: backend.region,
+                statusCode,
+                latency: Math.round((isEmbedding ? 80 : 400) + random() * 900),
+                promptTokens: statusCode === 200 && !cacheHit ? estimateMockTokens(prompt) * 20 : 0,
+                completionTokens: cacheHit ? 0 : estimateMockTokens(completion),
+                streamed: !isEmbedding && random() < 0.5,
+                cache: cacheHit ? 'hit' : undefined,
+                prompt,
+                completion
+            });
+        }
+        return records;
+    }
+}
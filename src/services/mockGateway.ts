@@ -0,0 +1,573 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { cosineSimilarity } from './embeddings';
+
+export interface MockGatewayOptions {
+    latencyMs: number; // Wait before the response starts, i.e. the time to first token of a stream
+    errorRate: number; // Share of requests (0-1) answered with a simulated 500
+    tokensPerMinute?: number; // Budget of the simulated llm-token-limit policy; no limit when undefined
+    requestsPerMinute?: number;
+    cacheScoreThreshold?: number; // Enables a simulated semantic cache for non-streamed chat completions
+    subscriptionKeys?: Record<string, string>; // Key -> subscription name; other keys get a 401 when set
+    historyLimit: number; // Most records, stored responses, traces and cache entries kept; the oldest go first
+}
+
+export const DEFAULT_MOCK_GATEWAY_OPTIONS: MockGatewayOptions = {
+    latencyMs: 300,
+    errorRate: 0,
+    historyLimit: 5000
+};
+
+// Forces a status for one request, e.g. to try retries from the Playground's custom headers
+export const MOCK_STATUS_HEADER = 'x-mock-status';
+
+// Path prefixes of the APIs the mock serves, one per SDK style
+export const MOCK_APIS = [
+    { id: 'mock-azure-openai', displayName: 'Mock Azure OpenAI', path: 'openai' },
+    { id: 'mock-ai-inference', displayName: 'Mock AI Inference', path: 'models' },
+    { id: 'mock-openai-compatible', displayName: 'Mock OpenAI Compatible', path: 'v1' }
+];
+
+// Requests alternate between these, the way a load-balanced backend pool spreads them
+export const MOCK_BACKENDS = [
+    { host: 'eastus.mock-openai.local', region: 'East US' },
+    { host: 'swedencentral.mock-openai.local', region: 'Sweden Central' }
+];
+
+const EMBEDDING_DIMENSIONS = 256;
+const STREAM_CHUNK_INTERVAL_MS = 15;
+const WINDOW_MS = 60 * 1000;
+
+export type MockOperation = 'chat' | 'responses' | 'embeddings';
+
+// One handled request, in the shape the mock data source turns into analytics and log rows
+export interface MockGatewayRecord {
+    timestamp: Date;
+    correlationId: string;
+    apiId: string;
+    subscriptionName: string;
+    modelName: string;
+    operation: MockOperation;
+    backend: string;
+    region: string;
+    statusCode: number;
+    latency: number;
+    promptTokens: number;
+    completionTokens: number;
+    streamed: boolean;
+    cache?: 'hit' | 'miss';
+    prompt: string;
+    completion: string;
+}
+
+// Roughly four characters per token, close enough for budgets and usage numbers
+export function estimateMockTokens(text: string): number {
+    return text ? Math.max(1, Math.ceil(text.length / 4)) : 0;
+}
+
+function hashWord(word: string): number {
+    let hash = 2166136261;
+    for (let i = 0; i < word.length; i++) {
+        hash ^= word.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return hash >>> 0;
+}
+
+// Bag-of-words vector, so prompts sharing most words come out similar the way paraphrases do with a real model
+export function mockEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+        vector[hashWord(word) % dimensions] += 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+function contentToText(content: any): string {
+    if (typeof content === 'string') {
+        return content;
+    }
+    if (Array.isArray(content)) {
+        return content.map(part => typeof part === 'string' ? part : part?.text ?? '').join('');
+    }
+    return '';
+}
+
+// Prompt text of a Chat Completions or Responses body
+export function getMockPromptText(body: any): string {
+    if (Array.isArray(body?.messages)) {
+        return body.messages.map((message: any) => contentToText(message?.content)).join('\n');
+    }
+    const input = Array.isArray(body?.input)
+        ? body.input.map((item: any) => contentToText(item?.content ?? item?.text ?? item)).join('\n')
+        : contentToText(body?.input);
+    return [body?.instructions, input].filter(Boolean).join('\n');
+}
+
+// Deterministic reply cut to max tokens, so usage and finish reasons behave like a real model
+export function buildMockReply(prompt: string, modelName: string, maxTokens?: number): { text: string; truncated: boolean } {
+    const lastLine = prompt.trim().split('\n').pop() || '';
+    const echo = lastLine.length > 80 ? `${lastLine.slice(0, 80)}…` : lastLine;
+    const text = `This is a mock reply from ${modelName || 'the mock gateway'}. You said: "${echo}"`;
+    if (maxTokens !== undefined && maxTokens > 0 && estimateMockTokens(text) > maxTokens) {
+        return { text: text.slice(0, maxTokens * 4), truncated: true };
+    }
+    return { text, truncated: false };
+}
+
+// Trace entries report elapsed time as a .NET TimeSpan; the mock never gets past a minute
+function toTimeSpan(ms: number): string {
+    return `00:00:${(ms / 1000).toFixed(7).padStart(10, '0')}`;
+}
+
+function newId(prefix: string): string {
+    return `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: any, headers: Record<string, string> = {}): void {
+    res.writeHead(statusCode, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// Maps keep insertion order, so the first key is the oldest
+function setCapped<K, V>(map: Map<K, V>, key: K, value: V, limit: number): void {
+    map.set(key, value);
+    while (map.size > limit) {
+        map.delete(map.keys().next().value as K);
+    }
+}
+
+function pushCapped<T>(items: T[], item: T, limit: number): void {
+    items.push(item);
+    if (items.length > limit) {
+        items.splice(0, items.length - limit);
+    }
+}
+
+function errorBody(code: string, message: string): any {
+    return { error: { code, message } };
+}
+
+// Local stand-in for an AI gateway in front of OpenAI-compatible models. Serves Chat Completions, Responses and
+// embeddings (streamed or not) under the Azure OpenAI, AI Inference and /v1 paths, and simulates latency,
+// failures, token-limit 429s with retry-after and the rate-limit headers llm-token-limit sends
+export class MockGatewayServer {
+    private server: http.Server | null = null;
+    private readonly records: MockGatewayRecord[] = [];
+    private readonly storedResponses = new Map<string, any>();
+    private readonly traces = new Map<string, any>();
+    private usageWindow: Array<{ time: number; tokens: number }> = [];
+    private cacheEntries: Array<{ vector: number[]; body: any }> = [];
+    private requestCount = 0;
+    options: MockGatewayOptions;
+
+    constructor(options: Partial<MockGatewayOptions> = {}, private readonly random: () => number = Math.random) {
+        this.options = { ...DEFAULT_MOCK_GATEWAY_OPTIONS, ...options };
+    }
+
+    get url(): string | undefined {
+        const address = this.server?.address() as AddressInfo | null | undefined;
+        return address ? `http://127.0.0.1:${address.port}` : undefined;
+    }
+
+    // Port 0 picks a free port; resolves with the base URL
+    async start(port = 0): Promise<string> {
+        if (this.server) {
+            return this.url!;
+        }
+        const server = http.createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                if (!res.headersSent) {
+                    sendJson(res, 500, errorBody('MockGatewayError', error instanceof Error ? error.message : String(error)));
+                } else {
+                    res.end();
+                }
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => resolve());
+        });
+        this.server = server;
+        return this.url!;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) {
+            return;
+        }
+        this.server = null;
+        // Open streams would otherwise keep the port until they finish
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    isRunning(): boolean {
+        return this.server !== null;
+    }
+
+    getRecords(): MockGatewayRecord[] {
+        return [...this.records];
+    }
+
+    // Policy trace of a request sent with the Apim-Debug-Authorization header, in the listTrace shape
+    getTrace(traceId: string): any {
+        return this.traces.get(traceId);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const startTime = Date.now();
+        const path = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+        const api = MOCK_APIS.find(item => path === `/${item.path}` || path.startsWith(`/${item.path}/`));
+        const correlationId = newId('mock-');
+        const backend = MOCK_BACKENDS[this.requestCount++ % MOCK_BACKENDS.length];
+        const headers: Record<string, string> = {
+            'x-correlation-id': correlationId,
+            'x-ms-region': backend.region
+        };
+
+        const subscriptionName = this.authorize(req);
+        if (subscriptionName === undefined) {
+            sendJson(res, 401, { statusCode: 401, message: 'Access denied due to invalid subscription key. Make sure to provide a valid key for an active subscription.' }, headers);
+            return;
+        }
+
+        const body = await this.readBody(req);
+        const operation: MockOperation | undefined = path.endsWith('/chat/completions') ? 'chat'
+            : path.endsWith('/embeddings') ? 'embeddings'
+                : /\/responses(\/[^/]+)?$/.test(path) ? 'responses'
+                    : undefined;
+
+        if (!api || !operation) {
+            sendJson(res, 404, errorBody('NotFound', `No mock route for ${req.method} ${path}`), headers);
+            return;
+        }
+
+        // Stored Responses API objects
+        const responseId = /\/responses\/([^/]+)$/.exec(path)?.[1];
+        if (responseId) {
+            const stored = this.storedResponses.get(responseId);
+            if (!stored) {
+                sendJson(res, 404, errorBody('not_found', `Response with id '${responseId}' not found.`), headers);
+            } else if (req.method === 'DELETE') {
+                this.storedResponses.delete(responseId);
+                sendJson(res, 200, { id: responseId, object: 'response.deleted', deleted: true }, headers);
+            } else {
+                sendJson(res, 200, stored, headers);
+            }
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, errorBody('MethodNotAllowed', `${req.method} is not supported on ${path}`), headers);
+            return;
+        }
+
+        const deployment = /\/deployments\/([^/]+)\//.exec(path)?.[1];
+        const modelName = deployment ? decodeURIComponent(deployment) : String(body.model || 'mock-model');
+        const streamed = body.stream === true && operation !== 'embeddings';
+        const record: MockGatewayRecord = {
+            timestamp: new Date(startTime),
+            correlationId,
+            apiId: api.id,
+            subscriptionName,
+            modelName,
+            operation,
+            backend: backend.host,
+            region: backend.region,
+            statusCode: 200,
+            latency: 0,
+            promptTokens: 0,
+            completionTokens: 0,
+            streamed,
+            prompt: '',
+            completion: ''
+        };
+        const finish = (statusCode: number) => {
+            record.statusCode = statusCode;
+            if (statusCode >= 400) {
+                // Rejected requests never reach the model, so they use no tokens
+                record.promptTokens = 0;
+            }
+            record.latency = Date.now() - startTime;
+            pushCapped(this.records, record, this.options.historyLimit);
+        };
+
+        if (req.headers['apim-debug-authorization']) {
+            headers['apim-trace-id'] = this.recordTrace(correlationId, api.path, path, backend.host);
+        }
+
+        const previous = body.previous_response_id ? this.storedResponses.get(body.previous_response_id) : undefined;
+        if (operation === 'responses' && body.previous_response_id && !previous) {
+            sendJson(res, 400, errorBody('previous_response_not_found', `Previous response with id '${body.previous_response_id}' not found.`), headers);
+            finish(400);
+            return;
+        }
+
+        const inputs: string[] = operation === 'embeddings'
+            ? (Array.isArray(body.input) ? body.input : [body.input]).map((item: any) => String(item ?? ''))
+            : [getMockPromptText(body)];
+        record.prompt = inputs.join('\n');
+        record.promptTokens = inputs.reduce((sum, input) => sum + estimateMockTokens(input), 0)
+            + (previous?.usage?.total_tokens ?? 0);
+
+        const forcedStatus = Number(req.headers[MOCK_STATUS_HEADER]);
+        const limit = this.checkLimits(record.promptTokens, startTime);
+        Object.assign(headers, limit.headers);
+
+        if (forcedStatus === 429 || limit.retryAfterMs !== undefined) {
+            const retryAfterMs = limit.retryAfterMs ?? 1000;
+            await this.delay(Math.min(this.options.latencyMs, 50), res);
+            sendJson(res, 429, { statusCode: 429, message: `Token limit is exceeded. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.` }, {
+                ...headers,
+                'retry-after': String(Math.ceil(retryAfterMs / 1000)),
+                'retry-after-ms': String(retryAfterMs)
+            });
+            finish(429);
+            return;
+        }
+
+        if (forcedStatus >= 400 || this.random() < this.options.errorRate) {
+            const statusCode = forcedStatus >= 400 ? forcedStatus : 500;
+            await this.delay(this.options.latencyMs, res);
+            sendJson(res, statusCode, errorBody('MockBackendError', `Simulated backend failure (${statusCode})`), headers);
+            finish(statusCode);
+            return;
+        }
+
+        if (operation === 'embeddings') {
+            await this.delay(this.options.latencyMs, res);
+            const dimensions = Number.isInteger(body.dimensions) && body.dimensions > 0 ? body.dimensions : EMBEDDING_DIMENSIONS;
+            sendJson(res, 200, {
+                object: 'list',
+                model: modelName,
+                data: inputs.map((input, index) => ({ object: 'embedding', index, embedding: mockEmbedding(input, dimensions) })),
+                usage: { prompt_tokens: record.promptTokens, total_tokens: record.promptTokens }
+            }, headers);
+            this.consumeTokens(record.promptTokens, startTime);
+            finish(200);
+            return;
+        }
+
+        // Semantic cache: a close enough earlier prompt is answered without reaching the model
+        const cacheEnabled = this.options.cacheScoreThreshold !== undefined && operation === 'chat' && !streamed;
+        const vector = cacheEnabled ? mockEmbedding(record.prompt) : [];
+        if (cacheEnabled) {
+            const hit = this.cacheEntries.find(entry => 1 - cosineSimilarity(entry.vector, vector) <= this.options.cacheScoreThreshold!);
+            headers['x-semantic-cache'] = hit ? 'HIT' : 'MISS';
+            record.cache = hit ? 'hit' : 'miss';
+            if (hit) {
+                await this.delay(Math.min(this.options.latencyMs, 20), res);
+                record.completion = hit.body.choices[0].message.content;
+                record.promptTokens = 0;
+                sendJson(res, 200, { ...hit.body, id: newId('chatcmpl-') }, headers);
+                finish(200);
+                return;
+            }
+        }
+
+        const maxTokens = body.max_tokens ?? body.max_completion_tokens ?? body.max_output_tokens;
+        const reply = buildMockReply(record.prompt, modelName, maxTokens);
+        record.completion = reply.text;
+        record.completionTokens = estimateMockTokens(reply.text);
+        this.consumeTokens(record.promptTokens + record.completionTokens, startTime);
+
+        await this.delay(this.options.latencyMs, res);
+
+        if (operation === 'chat') {
+            const usage = {
+                prompt_tokens: record.promptTokens,
+                completion_tokens: record.completionTokens,
+                total_tokens: record.promptTokens + record.completionTokens
+            };
+            const finishReason = reply.truncated ? 'length' : 'stop';
+            if (streamed) {
+                await this.streamChat(res, headers, modelName, reply.text, finishReason, usage);
+            } else {
+                const completion = {
+                    id: newId('chatcmpl-'),
+                    object: 'chat.completion',
+                    created: Math.floor(startTime / 1000),
+                    model: modelName,
+                    choices: [{ index: 0, message: { role: 'assistant', content: reply.text }, finish_reason: finishReason }],
+                    usage
+                };
+                if (cacheEnabled) {
+                    pushCapped(this.cacheEntries, { vector, body: completion }, this.options.historyLimit);
+                }
+                sendJson(res, 200, completion, headers);
+            }
+        } else {
+            const response = {
+                id: newId('resp_'),
+                object: 'response',
+                created_at: Math.floor(startTime / 1000),
+                status: reply.truncated ? 'incomplete' : 'completed',
+                model: modelName,
+                previous_response_id: body.previous_response_id ?? null,
+                output: [{
+                    type: 'message',
+                    id: newId('msg_'),
+                    status: 'completed',
+                    role: 'assistant',
+                    content: [{ type: 'output_text', text: reply.text, annotations: [] }]
+                }],
+                usage: {
+                    input_tokens: record.promptTokens,
+                    output_tokens: record.completionTokens,
+                    total_tokens: record.promptTokens + record.completionTokens
+                }
+            };
+            if (body.store !== false) {
+                setCapped(this.storedResponses, response.id, response, this.options.historyLimit);
+            }
+            if (streamed) {
+                await this.streamResponse(res, headers, response, reply.text);
+            } else {
+                sendJson(res, 200, response, headers);
+            }
+        }
+        finish(200);
+    }
+
+    // Subscription name for the request's key; without configured keys every request is let through
+    private authorize(req: http.IncomingMessage): string | undefined {
+        const keys = this.options.subscriptionKeys;
+        const header = req.headers['api-key'] || req.headers['ocp-apim-subscription-key'];
+        // OpenAI-style clients send the key as a bearer token
+        const key = typeof header === 'string' ? header : /^Bearer\s+(.+)$/i.exec(String(req.headers.authorization || ''))?.[1];
+
+        if (!keys) {
+            return key ? 'default' : 'anonymous';
+        }
+        if (key && keys[key]) {
+            return keys[key];
+        }
+        // Other bearer tokens pass as if validate-azure-ad-token accepted them
+        return typeof header !== 'string' && key ? 'entra-id' : undefined;
+    }
+
+    private readBody(req: http.IncomingMessage): Promise<any> {
+        return new Promise((resolve, reject) => {
+            let data = '';
+            req.setEncoding('utf8');
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => {
+                try {
+                    resolve(data ? JSON.parse(data) : {});
+                } catch {
+                    resolve({});
+                }
+            });
+            req.on('error', reject);
+        });
+    }
+
+    // Sliding one-minute window; a request that would exceed the budget is rejected before it reaches the model
+    private checkLimits(promptTokens: number, now: number): { headers: Record<string, string>; retryAfterMs?: number } {
+        this.usageWindow = this.usageWindow.filter(entry => entry.time > now - WINDOW_MS);
+        const { tokensPerMinute, requestsPerMinute } = this.options;
+        const headers: Record<string, string> = {};
+        const usedTokens = this.usageWindow.reduce((sum, entry) => sum + entry.tokens, 0);
+        const untilOldestExpires = this.usageWindow.length > 0 ? this.usageWindow[0].time + WINDOW_MS - now : WINDOW_MS;
+        let retryAfterMs: number | undefined;
+
+        if (tokensPerMinute) {
+            headers['x-ratelimit-remaining-tokens'] = String(Math.max(0, tokensPerMinute - usedTokens - promptTokens));
+            if (usedTokens + promptTokens > tokensPerMinute) {
+                retryAfterMs = untilOldestExpires;
+            }
+        }
+        if (requestsPerMinute) {
+            headers['x-ratelimit-remaining-requests'] = String(Math.max(0, requestsPerMinute - this.usageWindow.length - 1));
+            if (this.usageWindow.length >= requestsPerMinute) {
+                retryAfterMs = Math.max(retryAfterMs ?? 0, untilOldestExpires);
+            }
+        }
+        return { headers, retryAfterMs };
+    }
+
+    private consumeTokens(tokens: number, time: number): void {
+        this.usageWindow.push({ time, tokens });
+    }
+
+    private recordTrace(correlationId: string, apiPath: string, path: string, backendHost: string): string {
+        const traceId = newId('trace-');
+        const backendUrl = `https://${backendHost}${path.slice(apiPath.length + 1)}`;
+        setCapped(this.traces, traceId, {
+            traceId,
+            traceEntries: {
+                inbound: [
+                    { source: 'api-inspector', elapsed: toTimeSpan(0.1), data: { request: { method: 'POST', url: path, correlationId } } },
+                    { source: 'set-backend-service', elapsed: toTimeSpan(0.4), data: { backendId: backendHost } }
+                ],
+                backend: [
+                    { source: 'forward-request', elapsed: toTimeSpan(0.5), data: { request: { method: 'POST', url: backendUrl } } }
+                ],
+                outbound: [
+                    { source: 'transfer-response', elapsed: toTimeSpan(this.options.latencyMs + 0.6), data: { message: 'Response sent to the client' } }
+                ]
+            }
+        }, this.options.historyLimit);
+        return traceId;
+    }
+
+    // Waits for the configured latency unless the client went away first
+    private delay(ms: number, res: http.ServerResponse): Promise<void> {
+        if (ms <= 0 || res.destroyed) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            const timer = setTimeout(done, ms);
+            function done() {
+                clearTimeout(timer);
+                res.off('close', done);
+                resolve();
+            }
+            res.once('close', done);
+        });
+    }
+
+    private writeEvent(res: http.ServerResponse, payload: any, event?: string): void {
+        if (!res.destroyed) {
+            res.write(`${event ? `event: ${event}\n` : ''}data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`);
+        }
+    }
+
+    private splitIntoChunks(text: string): string[] {
+        return text.match(/\S+\s*/g) || [text];
+    }
+
+    private async streamChat(res: http.ServerResponse, headers: Record<string, string>, modelName: string, text: string, finishReason: string, usage: any): Promise<void> {
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', ...headers });
+        const id = newId('chatcmpl-');
+        const created = Math.floor(Date.now() / 1000);
+        const chunk = (choices: any[], extra: any = {}) => ({ id, object: 'chat.completion.chunk', created, model: modelName, choices, ...extra });
+
+        this.writeEvent(res, chunk([{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }]));
+        for (const part of this.splitIntoChunks(text)) {
+            await this.delay(STREAM_CHUNK_INTERVAL_MS, res);
+            this.writeEvent(res, chunk([{ index: 0, delta: { content: part }, finish_reason: null }]));
+        }
+        this.writeEvent(res, chunk([{ index: 0, delta: {}, finish_reason: finishReason }]));
+        this.writeEvent(res, chunk([], { usage }));
+        this.writeEvent(res, '[DONE]');
+        res.end();
+    }
+
+    private async streamResponse(res: http.ServerResponse, headers: Record<string, string>, response: any, text: string): Promise<void> {
+        res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache', ...headers });
+        const itemId = response.output[0].id;
+        let sequence = 0;
+
+        this.writeEvent(res, { type: 'response.created', sequence_number: sequence++, response: { ...response, status: 'in_progress', output: [], usage: null } }, 'response.created');
+        for (const part of this.splitIntoChunks(text)) {
+            await this.delay(STREAM_CHUNK_INTERVAL_MS, res);
+            this.writeEvent(res, { type: 'response.output_text.delta', sequence_number: sequence++, item_id: itemId, output_index: 0, content_index: 0, delta: part }, 'response.output_text.delta');
+        }
+        const finalType = response.status === 'completed' ? 'response.completed' : 'response.incomplete';
+        this.writeEvent(res, { type: finalType, sequence_number: sequence++, response }, finalType);
+        res.end();
+    }
+}
@@ -0,0 +1,118 @@
+import { ModelParameters, ParameterIssue } from '../types';
+
+const PARAMETER_LABELS: Record<keyof ModelParameters, string> = {
+    temperature: 'Temperature',
+    topP: 'Top P',
+    maxTokens: 'Max tokens',
+    maxCompletionTokens: 'Max completion tokens',
+    presencePenalty: 'Presence penalty',
+    frequencyPenalty: 'Frequency penalty',
+    stop: 'Stop sequences',
+    seed: 'Seed',
+    n: 'Choices (n)',
+    reasoningEffort: 'Reasoning effort'
+};
+
+// Parameters each SDK / inference API combination accepts
+const SUPPORTED_PARAMETERS: Record<string, Array<keyof ModelParameters>> = {
+    'azure-openai:Chat Completions': ['temperature', 'topP', 'maxTokens', 'maxCompletionTokens', 'presencePenalty', 'frequencyPenalty', 'stop', 'seed', 'n', 'reasoningEffort'],
+    'azure-openai:Responses API': ['temperature', 'topP', 'maxTokens', 'maxCompletionTokens', 'reasoningEffort'],
+    'azure-ai-inference': ['temperature', 'topP', 'maxTokens', 'presencePenalty', 'frequencyPenalty', 'stop', 'seed'],
+    'openai-compatible': ['temperature', 'topP', 'maxTokens', 'maxCompletionTokens', 'presencePenalty', 'frequencyPenalty', 'stop', 'seed', 'n', 'reasoningEffort']
+};
+
+export function getSupportedParameters(sdk: string, inferenceApiType: string): Array<keyof ModelParameters> {
+    // Only the Azure OpenAI SDK switches between Chat Completions and the Responses API
+    const key = sdk === 'azure-openai' ? `${sdk}:${inferenceApiType}` : sdk;
+    return SUPPORTED_PARAMETERS[key] || [];
+}
+
+// Flags values the selected SDK cannot send as well as values outside the documented ranges
+export function validateModelParameters(sdk: string, inferenceApiType: string, parameters: ModelParameters = {}): ParameterIssue[] {
+    const issues: ParameterIssue[] = [];
+    const supported = getSupportedParameters(sdk, inferenceApiType);
+    const target = sdk === 'azure-openai' ? inferenceApiType : sdk;
+
+    const checkRange = (parameter: keyof ModelParameters, min: number, max: number) => {
+        const value = parameters[parameter];
+        if (typeof value === 'number' && (isNaN(value) || value < min || value > max)) {
+            issues.push({ parameter, message: `${PARAMETER_LABELS[parameter]} must be between ${min} and ${max}` });
+        }
+    };
+
+    const checkPositiveInteger = (parameter: keyof ModelParameters) => {
+        const value = parameters[parameter];
+        if (typeof value === 'number' && (!Number.isInteger(value) || value < 1)) {
+            issues.push({ parameter, message: `${PARAMETER_LABELS[parameter]} must be a positive whole number` });
+        }
+    };
+
+    (Object.keys(PARAMETER_LABELS) as Array<keyof ModelParameters>).forEach(parameter => {
+        const value = parameters[parameter];
+        const isSet = Array.isArray(value) ? value.length > 0 : value !== undefined;
+        if (sdk && isSet && !supported.includes(parameter)) {
+            issues.push({ parameter, message: `${PARAMETER_LABELS[parameter]} is not supported by ${target}` });
+        }
+    });
+
+    checkRange('temperature', 0, 2);
+    checkRange('topP', 0, 1);
+    checkRange('presencePenalty', -2, 2);
+    checkRange('frequencyPenalty', -2, 2);
+    checkPositiveInteger('maxTokens');
+    checkPositiveInteger('maxCompletionTokens');
+    checkPositiveInteger('n');
+
+    if (parameters.n !== undefined && parameters.n > 128) {
+        issues.push({ parameter: 'n', message: 'Choices (n) cannot be more than 128' });
+    }
+
+    if (parameters.seed !== undefined && !Number.isInteger(parameters.seed)) {
+        issues.push({ parameter: 'seed', message: 'Seed must be a whole number' });
+    }
+
+    if (nonEmptyStopSequences(parameters).length > 4) {
+        issues.push({ parameter: 'stop', message: 'At most 4 stop sequences are allowed' });
+    }
+
+    if (parameters.maxTokens !== undefined && parameters.maxCompletionTokens !== undefined) {
+        issues.push({ parameter: 'maxCompletionTokens', message: 'Set either max tokens or max completion tokens, not both' });
+    }
+
+    return issues;
+}
+
+// Maps parameters onto the Chat Completions wire format
+export function toChatCompletionParameters(parameters: ModelParameters = {}): Record<string, any> {
+    return omitUndefined({
+        temperature: parameters.temperature,
+        top_p: parameters.topP,
+        max_tokens: parameters.maxTokens,
+        max_completion_tokens: parameters.maxCompletionTokens,
+        presence_penalty: parameters.presencePenalty,
+        frequency_penalty: parameters.frequencyPenalty,
+        stop: nonEmptyStopSequences(parameters).length > 0 ? nonEmptyStopSequences(parameters) : undefined,
+        seed: parameters.seed,
+        n: parameters.n,
+        reasoning_effort: parameters.reasoningEffort
+    });
+}
+
+// Maps parameters onto the Responses API wire format
+export function toResponsesParameters(parameters: ModelParameters = {}): Record<string, any> {
+    return omitUndefined({
+        temperature: parameters.temperature,
+        top_p: parameters.topP,
+        max_output_tokens: parameters.maxCompletionTokens ?? parameters.maxTokens,
+        reasoning: parameters.reasoningEffort ? { effort: parameters.reasoningEffort } : undefined
+    });
+}
+
+// The editor keeps blank lines while typing; they are never sent
+function nonEmptyStopSequences(parameters: ModelParameters): string[] {
+    return (parameters.stop || []).filter(sequence => sequence !== '');
+}
+
+export function omitUndefined(values: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
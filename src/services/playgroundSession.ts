@@ -0,0 +1,103 @@
+import { KeyValuePair, PlaygroundSession } from '../types';
+
+export const SESSION_FILE_EXTENSION = '.aigw-chat.json';
+export const SESSION_VERSION = 1;
+
+// Credentials that must never end up in a shared session file
+const SECRET_HEADERS = ['ocp-apim-subscription-key', 'api-key', 'authorization', 'apim-debug-authorization'];
+
+export function parsePlaygroundSession(json: string): { session?: PlaygroundSession; error?: string } {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return { error: `Session is not valid JSON: ${error instanceof Error ? error.message : error}` };
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || !Array.isArray(parsed.messages) || typeof parsed.settings !== 'object' || parsed.settings === null) {
+        return { error: "Session must have 'settings' and 'messages'" };
+    }
+
+    if (typeof parsed.version === 'number' && parsed.version > SESSION_VERSION) {
+        return { error: `Session version ${parsed.version} is newer than this extension supports` };
+    }
+
+    return { session: parsed };
+}
+
+// Query parameters APIM and Azure OpenAI accept keys in
+const SECRET_QUERY_PARAMS = ['subscription-key', 'api-key'];
+
+const REDACTED = '<redacted>';
+
+function redactRecord(values: any, secretNames: string[]): any {
+    if (!values || typeof values !== 'object') {
+        return values;
+    }
+
+    return Object.fromEntries(Object.entries(values).map(([name, value]) =>
+        [name, secretNames.includes(name.toLowerCase()) ? REDACTED : value]
+    ));
+}
+
+function redactPairs(pairs: KeyValuePair[], secretNames: string[]): KeyValuePair[] {
+    return pairs.map(pair => secretNames.includes(pair.key.trim().toLowerCase()) ? { ...pair, value: REDACTED } : pair);
+}
+
+// Works on absolute URLs and on the relative paths of raw HTTP drafts
+export function redactUrl(url: string): string {
+    if (typeof url !== 'string' || !url.includes('?')) {
+        return url;
+    }
+
+    const [base, ...rest] = url.split('?');
+    const [query, ...fragment] = rest.join('?').split('#');
+    const params = query.split('&').map(param => {
+        const name = param.split('=')[0];
+        let decoded = name;
+        try {
+            decoded = decodeURIComponent(name);
+        } catch {
+            // Left as typed
+        }
+        return SECRET_QUERY_PARAMS.includes(decoded.toLowerCase()) ? `${name}=${REDACTED}` : param;
+    });
+    return [`${base}?${params.join('&')}`, ...fragment].join('#');
+}
+
+// Removes credentials from request headers, query parameters and URLs, in the settings and in every
+// message, before a session is written to a file or to the webview state
+export function redactSession(session: PlaygroundSession): PlaygroundSession {
+    const { settings } = session;
+    return {
+        ...session,
+        settings: {
+            ...settings,
+            customHeaders: settings.customHeaders && redactPairs(settings.customHeaders, SECRET_HEADERS),
+            queryParams: settings.queryParams && redactPairs(settings.queryParams, SECRET_QUERY_PARAMS),
+            rawHttp: settings.rawHttp
+                ? { ...settings.rawHttp, path: redactUrl(settings.rawHttp.path), headers: redactPairs(settings.rawHttp.headers || [], SECRET_HEADERS) }
+                : settings.rawHttp
+        },
+        messages: session.messages.map(message => {
+            let redacted = message;
+            if (message.rawRequest) {
+                redacted = {
+                    ...redacted,
+                    rawRequest: { ...message.rawRequest, url: redactUrl(message.rawRequest.url), headers: redactRecord(message.rawRequest.headers, SECRET_HEADERS) }
+                };
+            }
+            if (message.requestSettings) {
+                redacted = {
+                    ...redacted,
+                    requestSettings: {
+                        ...message.requestSettings,
+                        customHeaders: redactRecord(message.requestSettings.customHeaders, SECRET_HEADERS),
+                        queryParams: redactRecord(message.requestSettings.queryParams, SECRET_QUERY_PARAMS)
+                    }
+                };
+            }
+            return redacted;
+        })
+    };
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { ModelPrice, PriceCatalog } from '../types';
+import { DEFAULT_CURRENCY, PRICES_FILE, mergePriceCatalog, parsePriceFile, validateModelPrices } from './pricing';
+
+const PRICING_SECTION = 'aiGatewayToolkit.pricing';
+
+// Combines the workspace price file with the aiGatewayToolkit.pricing settings; file entries win over settings
+export class PriceLibrary implements vscode.Disposable {
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private watcher: vscode.FileSystemWatcher;
+    private configListener: vscode.Disposable;
+
+    constructor() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/${PRICES_FILE}`);
+        this.watcher.onDidCreate(() => this._onDidChange.fire());
+        this.watcher.onDidChange(() => this._onDidChange.fire());
+        this.watcher.onDidDelete(() => this._onDidChange.fire());
+        this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration(PRICING_SECTION)) {
+                this._onDidChange.fire();
+            }
+        });
+    }
+
+    getPriceFile(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, ...PRICES_FILE.split('/')) : undefined;
+    }
+
+    async getCatalog(): Promise<PriceCatalog> {
+        const config = vscode.workspace.getConfiguration(PRICING_SECTION);
+        const configuredPrices = config.get<ModelPrice[]>('models') || [];
+        // Invalid settings entries are skipped rather than failing every cost
+        const settingsPrices = configuredPrices.filter(price => validateModelPrices([price]).length === 0);
+        const catalog: PriceCatalog = { currency: config.get<string>('currency') || DEFAULT_CURRENCY, prices: settingsPrices };
+
+        const uri = this.getPriceFile();
+        if (!uri) {
+            return catalog;
+        }
+
+        let content: string;
+        try {
+            content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            // The file is optional
+            return catalog;
+        }
+
+        const file = parsePriceFile(content);
+        if (file.error) {
+            return { ...catalog, error: `${PRICES_FILE}: ${file.error}` };
+        }
+        return mergePriceCatalog(catalog, { prices: file.prices!, currency: file.currency });
+    }
+
+    // Creates the file from the current settings the first time, so teams start from the prices they already use
+    async openPriceFile(): Promise<void> {
+        const uri = this.getPriceFile();
+        if (!uri) {
+            throw new Error('Open a workspace folder to keep a price file');
+        }
+
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            const config = vscode.workspace.getConfiguration(PRICING_SECTION);
+            const content = { currency: config.get<string>('currency') || DEFAULT_CURRENCY, prices: config.get<ModelPrice[]>('models') || [] };
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(content, null, 2) + '\n', 'utf8'));
+        }
+
+        await vscode.window.showTextDocument(uri);
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this.configListener.dispose();
+        this._onDidChange.dispose();
+    }
+}
@@ -0,0 +1,155 @@
+import { ModelPrice, PriceCatalog, TokenUsageBreakdown } from '../types';
+
+export const PRICES_FILE = '.aigateway/prices.json';
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface CostBreakdown {
+    total: number;
+    byModel: Record<string, number>;
+    byBackend: Record<string, number>;
+    bySubscription: Array<{ subscriptionName: string; requestCount: number; totalTokens: number; cost: number }>;
+    unpricedModels: string[]; // Their tokens are left out of every cost
+}
+
+const PRICE_FIELDS = ['inputPricePerMillion', 'cachedInputPricePerMillion', 'outputPricePerMillion'] as const;
+
+export function validateModelPrices(prices: unknown): string[] {
+    if (!Array.isArray(prices)) {
+        return ["'prices' must be an array"];
+    }
+
+    const errors: string[] = [];
+    prices.forEach((price, index) => {
+        const label = `Price ${index + 1}`;
+        if (typeof price !== 'object' || price === null) {
+            errors.push(`${label} must be an object`);
+            return;
+        }
+        if (typeof price.model !== 'string' || !price.model.trim()) {
+            errors.push(`${label} must have a 'model' name`);
+        }
+        if (price.region !== undefined && typeof price.region !== 'string') {
+            errors.push(`${label}: 'region' must be a string`);
+        }
+        for (const field of PRICE_FIELDS) {
+            const value = price[field];
+            const required = field !== 'cachedInputPricePerMillion';
+            if ((required || value !== undefined) && (typeof value !== 'number' || value < 0)) {
+                errors.push(`${label}: '${field}' must be a number of at least 0`);
+            }
+        }
+    });
+    return errors;
+}
+
+// The workspace file is { "currency": "EUR", "prices": [...] }; currency is optional
+export function parsePriceFile(json: string): { prices?: ModelPrice[]; currency?: string; error?: string } {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return { error: `Price file is not valid JSON: ${error instanceof Error ? error.message : error}` };
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return { error: 'Price file must be a JSON object' };
+    }
+
+    const errors = validateModelPrices(parsed.prices);
+    if (parsed.currency !== undefined && typeof parsed.currency !== 'string') {
+        errors.push("'currency' must be a currency code such as USD");
+    }
+    if (errors.length > 0) {
+        return { error: errors.join('; ') };
+    }
+
+    return { prices: parsed.prices, currency: parsed.currency };
+}
+
+// File entries win over settings entries. Prices carry no currency of their own, so when the file names a
+// different currency than the settings its entries are used alone rather than mixed with the settings prices
+export function mergePriceCatalog(settings: PriceCatalog, file: { prices: ModelPrice[]; currency?: string }): PriceCatalog {
+    if (file.currency && file.currency !== settings.currency) {
+        return { currency: file.currency, prices: file.prices };
+    }
+    return { currency: settings.currency, prices: [...file.prices, ...settings.prices] };
+}
+
+// "East US", "eastus" and "east-us" all name the same region
+export function normalizeRegion(region: string): string {
+    return region.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Deployment names often extend the model name (gpt-4o-2024-08-06), so the longest matching prefix wins,
+// then a region-specific entry over a global one; among equals the earlier entry wins
+export function findModelPrice(prices: ModelPrice[], modelName: string, region?: string): ModelPrice | undefined {
+    const name = modelName.toLowerCase();
+    const normalizedRegion = region ? normalizeRegion(region) : undefined;
+    const matches = prices.filter(price =>
+        name.startsWith(price.model.toLowerCase()) &&
+        (!price.region || (normalizedRegion !== undefined && normalizeRegion(price.region) === normalizedRegion))
+    );
+
+    return matches
+        .map((price, index) => ({ price, index }))
+        .sort((a, b) => b.price.model.length - a.price.model.length || Number(!!b.price.region) - Number(!!a.price.region) || a.index - b.index)[0]?.price;
+}
+
+// Cached tokens are part of the prompt tokens and billed at the cached input price
+export function calculateCost(price: ModelPrice, usage: { promptTokens: number; completionTokens: number; cachedTokens?: number }): number {
+    const cachedTokens = Math.min(usage.cachedTokens || 0, usage.promptTokens);
+    return ((usage.promptTokens - cachedTokens) * price.inputPricePerMillion +
+        cachedTokens * (price.cachedInputPricePerMillion ?? price.inputPricePerMillion) +
+        usage.completionTokens * price.outputPricePerMillion) / 1_000_000;
+}
+
+// Chat Completions reports cached tokens under prompt_tokens_details, the Responses API under input_tokens_details
+export function getCachedTokens(usage: any): number | undefined {
+    return usage?.prompt_tokens_details?.cached_tokens ?? usage?.input_tokens_details?.cached_tokens ?? undefined;
+}
+
+// Gateway logs carry no cached token counts, so log-based costs use the full input price
+export function summarizeCosts(breakdown: TokenUsageBreakdown[], prices: ModelPrice[]): CostBreakdown {
+    const costs: CostBreakdown = { total: 0, byModel: {}, byBackend: {}, bySubscription: [], unpricedModels: [] };
+    const add = (record: Record<string, number>, key: string, cost: number) => {
+        record[key] = (record[key] || 0) + cost;
+    };
+
+    for (const row of breakdown) {
+        const price = findModelPrice(prices, row.modelName, row.region);
+        if (!price && !costs.unpricedModels.includes(row.modelName)) {
+            costs.unpricedModels.push(row.modelName);
+        }
+        const cost = price ? calculateCost(price, row) : 0;
+
+        costs.total += cost;
+        // Unpriced models stay out of the per-model and per-backend costs instead of showing as free
+        if (price) {
+            add(costs.byModel, row.modelName, cost);
+            add(costs.byBackend, row.backendName, cost);
+        }
+
+        let subscription = costs.bySubscription.find(item => item.subscriptionName === row.subscriptionName);
+        if (!subscription) {
+            subscription = { subscriptionName: row.subscriptionName, requestCount: 0, totalTokens: 0, cost: 0 };
+            costs.bySubscription.push(subscription);
+        }
+        subscription.requestCount += row.requestCount;
+        subscription.totalTokens += row.promptTokens + row.completionTokens;
+        subscription.cost += cost;
+    }
+
+    costs.bySubscription.sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+    return costs;
+}
+
+// Fractions of a cent are kept so single messages do not all show as 0.00
+export function formatCost(cost: number, currency: string): string {
+    const fractionDigits = cost > 0 && cost < 0.01 ? 6 : 2;
+    try {
+        return cost.toLocaleString('en-US', { style: 'currency', currency, minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+    } catch {
+        // Not an ISO 4217 code
+        return `${cost.toFixed(fractionDigits)} ${currency}`;
+    }
+}
@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PromptTemplate } from '../types';
+import { PROMPTS_FOLDER, PROMPT_FILE_EXTENSION, parsePromptTemplate, toTemplateFileName } from './promptTemplates';
+
+export interface PromptTemplateFile {
+    uri: vscode.Uri;
+    template?: PromptTemplate;
+    error?: string;
+}
+
+// Reads and writes prompt templates in the first workspace folder
+export class PromptLibrary implements vscode.Disposable {
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+    private watcher: vscode.FileSystemWatcher;
+
+    constructor() {
+        this.watcher = vscode.workspace.createFileSystemWatcher(`**/${PROMPTS_FOLDER}/*${PROMPT_FILE_EXTENSION}`);
+        this.watcher.onDidCreate(() => this._onDidChange.fire());
+        this.watcher.onDidChange(() => this._onDidChange.fire());
+        this.watcher.onDidDelete(() => this._onDidChange.fire());
+    }
+
+    getPromptsFolder(): vscode.Uri | undefined {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, ...PROMPTS_FOLDER.split('/')) : undefined;
+    }
+
+    async listTemplates(): Promise<PromptTemplateFile[]> {
+        const folder = this.getPromptsFolder();
+        if (!folder) {
+            return [];
+        }
+
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(folder);
+        } catch {
+            // The folder is only created when the first template is saved
+            return [];
+        }
+
+        const files = entries
+            .filter(([name, type]) => type === vscode.FileType.File && name.endsWith(PROMPT_FILE_EXTENSION))
+            .map(([name]) => vscode.Uri.joinPath(folder, name));
+
+        const templates = await Promise.all(files.map(uri => this.readTemplate(uri)));
+        return templates.sort((a, b) => (a.template?.name || a.uri.path).localeCompare(b.template?.name || b.uri.path));
+    }
+
+    async readTemplate(uri: vscode.Uri): Promise<PromptTemplateFile> {
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            return { uri, ...parsePromptTemplate(content, path.basename(uri.fsPath, PROMPT_FILE_EXTENSION)) };
+        } catch (error) {
+            return { uri, error: `${error}` };
+        }
+    }
+
+    async saveTemplate(template: PromptTemplate): Promise<vscode.Uri> {
+        const folder = this.getPromptsFolder();
+        if (!folder) {
+            throw new Error('Open a workspace folder to save prompt templates');
+        }
+
+        await vscode.workspace.fs.createDirectory(folder);
+        const uri = vscode.Uri.joinPath(folder, toTemplateFileName(template.name));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(template, null, 2) + '\n', 'utf8'));
+        this._onDidChange.fire();
+        return uri;
+    }
+
+    dispose(): void {
+        this.watcher.dispose();
+        this._onDidChange.dispose();
+    }
+}
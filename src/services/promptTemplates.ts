@@ -0,0 +1,53 @@
+import { PromptTemplate } from '../types';
+
+export const PROMPTS_FOLDER = '.aigateway/prompts';
+export const PROMPT_FILE_EXTENSION = '.prompt.json';
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w.-]*)\s*\}\}/g;
+
+// Variables in order of first appearance across the instructions and the prompt
+export function extractTemplateVariables(template: Pick<PromptTemplate, 'instructions' | 'prompt'>): string[] {
+    const variables: string[] = [];
+    for (const text of [template.instructions || '', template.prompt]) {
+        for (const match of text.matchAll(VARIABLE_PATTERN)) {
+            if (!variables.includes(match[1])) {
+                variables.push(match[1]);
+            }
+        }
+    }
+    return variables;
+}
+
+// Unfilled variables are left as-is so they stay visible in the composed message
+export function renderTemplate(text: string, values: Record<string, string>): string {
+    return text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] !== undefined && values[name] !== '' ? values[name] : placeholder);
+}
+
+export function parsePromptTemplate(json: string, fallbackName: string): { template?: PromptTemplate; error?: string } {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return { error: `Template is not valid JSON: ${error instanceof Error ? error.message : error}` };
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        return { error: 'Template must be a JSON object' };
+    }
+
+    if (typeof parsed.prompt !== 'string') {
+        return { error: "Template must have a 'prompt' string" };
+    }
+
+    return {
+        template: {
+            ...parsed,
+            name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name : fallbackName
+        }
+    };
+}
+
+export function toTemplateFileName(name: string): string {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'prompt'}${PROMPT_FILE_EXTENSION}`;
+}
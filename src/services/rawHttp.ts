@@ -0,0 +1,55 @@
+// Value of the SDK selector that switches the chat view to the raw request editor
+export const RAW_HTTP_SDK = 'raw-http';
+
+export const RAW_HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// {model} and {apiVersion} are filled from the Playground settings when an example is picked
+export const RAW_HTTP_EXAMPLES: Array<{ label: string; method: string; path: string; body?: Record<string, any> }> = [
+    {
+        label: 'Chat completions',
+        method: 'POST',
+        path: 'deployments/{model}/chat/completions?api-version={apiVersion}',
+        body: { messages: [{ role: 'user', content: 'Hello' }] }
+    },
+    {
+        label: 'Embeddings',
+        method: 'POST',
+        path: 'deployments/{model}/embeddings?api-version={apiVersion}',
+        body: { input: ['The quick brown fox'] }
+    },
+    {
+        label: 'Image generation',
+        method: 'POST',
+        path: 'deployments/{model}/images/generations?api-version={apiVersion}',
+        body: { prompt: 'A lighthouse at dawn', n: 1, size: '1024x1024' }
+    },
+    { label: 'List models', method: 'GET', path: 'models?api-version={apiVersion}' },
+    { label: 'List assistants', method: 'GET', path: 'assistants?api-version={apiVersion}' }
+];
+
+export function fillExamplePath(path: string, modelName: string, apiVersion: string): string {
+    return path
+        .replace('{model}', encodeURIComponent(modelName || 'gpt-4o'))
+        .replace('{apiVersion}', encodeURIComponent(apiVersion));
+}
+
+// Paths are always relative to the API's gateway URL so requests cannot leave the gateway
+export function buildRawHttpUrl(gatewayUrl: string, path: string): string {
+    const trimmed = path.trim();
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)) {
+        throw new Error('Path must be relative to the API gateway URL');
+    }
+    return `${gatewayUrl.replace(/\/+$/, '')}/${trimmed.replace(/^\/+/, '')}`;
+}
+
+// Non-JSON bodies (e.g. event streams or HTML errors) are shown exactly as received
+export function formatRawBody(body: string): { text: string; isJson: boolean } {
+    if (!body.trim()) {
+        return { text: body, isJson: false };
+    }
+    try {
+        return { text: JSON.stringify(JSON.parse(body), null, 2), isJson: true };
+    } catch {
+        return { text: body, isJson: false };
+    }
+}
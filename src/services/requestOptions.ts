@@ -0,0 +1,63 @@
+import { HeaderPreset, KeyValuePair } from '../types';
+
+// RFC 7230 token characters
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Set by the Playground itself; overriding them would break the request
+const RESERVED_HEADERS = ['content-type', 'content-length', 'host'];
+
+// Disabled and blank rows stay in the editor but are not sent
+export function toKeyValueRecord(pairs: KeyValuePair[] | undefined): Record<string, string> | undefined {
+    const active = (pairs || []).filter(pair => pair.enabled && pair.key.trim() !== '');
+    if (active.length === 0) {
+        return undefined;
+    }
+    return Object.fromEntries(active.map(pair => [pair.key.trim(), pair.value]));
+}
+
+export function validateCustomHeaders(pairs: KeyValuePair[] | undefined): string[] {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const pair of pairs || []) {
+        const name = pair.key.trim();
+        if (!pair.enabled || name === '') {
+            continue;
+        }
+        if (!HEADER_NAME_PATTERN.test(name)) {
+            errors.push(`'${name}' is not a valid header name`);
+        } else if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+            errors.push(`'${name}' is set by the Playground and cannot be overridden`);
+        } else if (seen.has(name.toLowerCase())) {
+            errors.push(`Header '${name}' is defined more than once`);
+        } else if (/[\r\n]/.test(pair.value)) {
+            errors.push(`Header '${name}' value must be a single line`);
+        }
+        seen.add(name.toLowerCase());
+    }
+
+    return errors;
+}
+
+export function appendQueryParams(url: string, params: Record<string, string> | undefined): string {
+    if (!params || Object.keys(params).length === 0) {
+        return url;
+    }
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(params)) {
+        parsed.searchParams.set(key, value);
+    }
+    return parsed.toString();
+}
+
+// Presets are stored per API; saving with an existing name replaces it
+export function upsertHeaderPreset(presets: Record<string, HeaderPreset[]>, apiId: string, preset: HeaderPreset): Record<string, HeaderPreset[]> {
+    const existing = (presets[apiId] || []).filter(item => item.name !== preset.name);
+    return { ...presets, [apiId]: [...existing, preset].sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+export function removeHeaderPreset(presets: Record<string, HeaderPreset[]>, apiId: string, name: string): Record<string, HeaderPreset[]> {
+    const remaining = (presets[apiId] || []).filter(item => item.name !== name);
+    const { [apiId]: _removed, ...others } = presets;
+    return remaining.length > 0 ? { ...others, [apiId]: remaining } : others;
+}
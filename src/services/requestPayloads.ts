@@ -0,0 +1,149 @@
+import { ChatMessage, PlaygroundRequest } from '../types';
+import { toChatCompletionParameters, toResponsesParameters, omitUndefined } from './modelParameters';
+import { toChatCompletionResponseFormat, toResponsesTextFormat } from './structuredOutput';
+import { toChatCompletionTools, toResponsesTools, toChatCompletionToolChoice, toResponsesToolChoice } from './toolCalling';
+import { appendQueryParams } from './requestOptions';
+import { toChatCompletionContent, toResponsesContent } from './attachments';
+import { toResponsesBuiltInTools } from './responsesApi';
+
+// Request bodies and endpoints shared by the Playground calls and the code export
+
+export function toChatCompletionMessages(instructions: string | undefined, messages: ChatMessage[]): any[] {
+    return [
+        ...(instructions ? [{ role: 'system', content: instructions }] : []),
+        ...messages.map(message => {
+            if (message.role === 'tool') {
+                return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+            }
+            if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+                return {
+                    role: 'assistant',
+                    content: message.content || null,
+                    tool_calls: message.toolCalls.map(toolCall => ({
+                        id: toolCall.id,
+                        type: 'function',
+                        function: { name: toolCall.name, arguments: toolCall.arguments }
+                    }))
+                };
+            }
+            const content = toChatCompletionContent(message);
+            return message.name
+                ? { role: message.role, content, name: message.name }
+                : { role: message.role, content };
+        })
+    ];
+}
+
+export function toResponsesInput(messages: ChatMessage[]): any[] {
+    return messages.flatMap((message): any[] => {
+        if (message.role === 'tool') {
+            return [{ type: 'function_call_output', call_id: message.toolCallId, output: message.content }];
+        }
+        if (message.role === 'assistant' && message.toolCalls && message.toolCalls.length > 0) {
+            // Function calls are separate input items in the Responses API
+            return [
+                ...(message.content ? [{ role: 'assistant', content: message.content }] : []),
+                ...message.toolCalls.map(toolCall => ({
+                    type: 'function_call',
+                    call_id: toolCall.id,
+                    name: toolCall.name,
+                    arguments: toolCall.arguments
+                }))
+            ];
+        }
+        return [{ role: message.role, content: toResponsesContent(message) }];
+    });
+}
+
+// Tool options for Chat Completions style payloads; the Azure AI Inference API has no parallel_tool_calls
+function toChatCompletionToolOptions(request: PlaygroundRequest, supportsParallelToolCalls: boolean): Record<string, any> {
+    if (!request.tools || request.tools.length === 0) {
+        return {};
+    }
+
+    return omitUndefined({
+        tools: toChatCompletionTools(request.tools),
+        tool_choice: toChatCompletionToolChoice(request.toolChoice),
+        parallel_tool_calls: supportsParallelToolCalls ? request.parallelToolCalls : undefined
+    });
+}
+
+// Function tools and the enabled built-in tools share the tools list
+function toResponsesToolOptions(request: PlaygroundRequest): Record<string, any> {
+    const tools = [...toResponsesTools(request.tools || []), ...toResponsesBuiltInTools(request.responsesOptions)];
+    if (tools.length === 0) {
+        return {};
+    }
+
+    return omitUndefined({
+        tools,
+        tool_choice: toResponsesToolChoice(request.toolChoice),
+        parallel_tool_calls: request.parallelToolCalls
+    });
+}
+
+export function buildChatCompletionsPayload(request: PlaygroundRequest): Record<string, any> {
+    // Usage in the final chunk is an OpenAI extension the Azure AI Inference API does not accept
+    const isInference = request.sdk === 'azure-ai-inference';
+    return {
+        model: request.modelName,
+        messages: toChatCompletionMessages(request.instructions, request.messages),
+        stream: request.stream,
+        ...(request.stream && !isInference ? { stream_options: { include_usage: true } } : {}),
+        ...toChatCompletionParameters(request.parameters),
+        ...toChatCompletionToolOptions(request, !isInference),
+        ...omitUndefined({ response_format: toChatCompletionResponseFormat(request.responseFormat) })
+    };
+}
+
+export function buildResponsesPayload(request: PlaygroundRequest): Record<string, any> {
+    const options = request.responsesOptions;
+    const parameters = toResponsesParameters(request.parameters);
+    return {
+        model: request.modelName,
+        input: toResponsesInput(request.messages),
+        ...omitUndefined({
+            instructions: request.instructions || undefined,
+            previous_response_id: request.previousResponseId,
+            store: options?.store
+        }),
+        stream: request.stream,
+        ...parameters,
+        ...(options?.reasoningSummary ? { reasoning: { ...parameters.reasoning, summary: 'auto' } } : {}),
+        ...toResponsesToolOptions(request),
+        ...omitUndefined({ text: toResponsesTextFormat(request.responseFormat) })
+    };
+}
+
+// The Azure OpenAI SDK appends /openai/... itself, so it takes the gateway URL without it
+export function toAzureOpenAIEndpoint(gatewayUrl: string): string {
+    return gatewayUrl.replace('/openai', '');
+}
+
+// REST endpoint each SDK ends up calling for the given gateway URL, with any custom query parameters
+export function getInferenceEndpointUrl(gatewayUrl: string, request: Pick<PlaygroundRequest, 'sdk' | 'modelName' | 'apiVersion' | 'inferenceApiType' | 'queryParams'>): string {
+    return appendQueryParams(getEndpointUrl(gatewayUrl, request), request.queryParams);
+}
+
+function getEndpointUrl(gatewayUrl: string, request: Pick<PlaygroundRequest, 'sdk' | 'modelName' | 'apiVersion' | 'inferenceApiType'>): string {
+    const withPath = (base: string, path: string) => base.endsWith('/') ? base + path : `${base}/${path}`;
+
+    switch (request.sdk) {
+        case 'azure-openai': {
+            const endpoint = toAzureOpenAIEndpoint(gatewayUrl).replace(/\/+$/, '');
+            const path = request.inferenceApiType === 'Responses API'
+                ? 'openai/responses'
+                : `openai/deployments/${encodeURIComponent(request.modelName)}/chat/completions`;
+            return `${endpoint}/${path}?api-version=${encodeURIComponent(request.apiVersion)}`;
+        }
+        case 'openai-compatible':
+            if (gatewayUrl.includes('/v1/chat/completions') || gatewayUrl.endsWith('/chat/completions')) {
+                return gatewayUrl;
+            }
+            // If it already has /v1 in the path, just append chat/completions
+            return withPath(gatewayUrl, gatewayUrl.includes('/v1') ? 'chat/completions' : 'v1/chat/completions');
+        default:
+            // Azure AI Inference - if gatewayUrl already ends with the endpoint, don't append
+            return gatewayUrl.endsWith('/chat/completions') ? gatewayUrl : withPath(gatewayUrl, 'chat/completions');
+    }
+}
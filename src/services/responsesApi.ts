@@ -0,0 +1,104 @@
+import { ResponsesBuiltInTool, ResponsesOptions, ResponsesToolItem } from '../types';
+
+export const RESPONSES_BUILT_IN_TOOLS: Array<{ type: ResponsesBuiltInTool; label: string }> = [
+    { type: 'web_search_preview', label: 'Web search' },
+    { type: 'file_search', label: 'File search' },
+    { type: 'code_interpreter', label: 'Code interpreter' },
+    { type: 'image_generation', label: 'Image generation' }
+];
+
+export const DEFAULT_RESPONSES_OPTIONS: ResponsesOptions = {
+    store: true,
+    chainTurns: false,
+    reasoningSummary: false,
+    builtInTools: [],
+    vectorStoreIds: []
+};
+
+// The settings field keeps the ids as typed
+function getVectorStoreIds(options?: ResponsesOptions): string[] {
+    return (options?.vectorStoreIds || []).map(id => id.trim()).filter(id => id !== '');
+}
+
+export function toResponsesBuiltInTools(options?: ResponsesOptions): any[] {
+    return (options?.builtInTools || []).map(type => {
+        switch (type) {
+            case 'file_search':
+                return { type, vector_store_ids: getVectorStoreIds(options) };
+            case 'code_interpreter':
+                return { type, container: { type: 'auto' } };
+            default:
+                return { type };
+        }
+    });
+}
+
+export function validateResponsesOptions(options?: ResponsesOptions): string[] {
+    const errors: string[] = [];
+    if (!options) {
+        return errors;
+    }
+    if (options.chainTurns && !options.store) {
+        errors.push('Chaining turns with previous_response_id needs stored responses');
+    }
+    if (options.builtInTools.includes('file_search') && getVectorStoreIds(options).length === 0) {
+        errors.push('File search needs at least one vector store id');
+    }
+    return errors;
+}
+
+// Chained requests start after the latest assistant turn the service still has; without one the full history is sent
+export function findChainStart(messages: Array<{ role: string; responseId?: string }>): { previousResponseId?: string; startIndex: number } {
+    for (let index = messages.length - 1; index >= 0; index--) {
+        const message = messages[index];
+        if (message.role === 'assistant' && message.responseId) {
+            return { previousResponseId: message.responseId, startIndex: index + 1 };
+        }
+    }
+    return { startIndex: 0 };
+}
+
+// Short description of what a built-in tool call did, from the fields each item type carries
+function describeToolItem(item: any): string | undefined {
+    switch (item.type) {
+        case 'web_search_call':
+            return item.action?.query;
+        case 'file_search_call':
+            return Array.isArray(item.queries) ? item.queries.join('; ') : undefined;
+        case 'code_interpreter_call':
+            return item.code;
+        case 'image_generation_call':
+            return item.revised_prompt;
+        default:
+            return undefined;
+    }
+}
+
+// Reads text, refusals, reasoning summaries and built-in tool calls from Responses API output items;
+// function calls are read by extractToolCalls
+export function extractResponsesOutput(response: any): { content: string; reasoningSummary: string[]; builtInToolCalls: ResponsesToolItem[] } {
+    const output: any[] = Array.isArray(response?.output) ? response.output : [];
+    const text: string[] = [];
+    const reasoningSummary: string[] = [];
+    const builtInToolCalls: ResponsesToolItem[] = [];
+
+    for (const item of output) {
+        if (item.type === 'message') {
+            for (const part of item.content || []) {
+                if (part.type === 'output_text') {
+                    text.push(part.text || '');
+                } else if (part.type === 'refusal') {
+                    text.push(part.refusal || '');
+                }
+            }
+        } else if (item.type === 'reasoning') {
+            reasoningSummary.push(...(item.summary || []).map((part: any) => part.text).filter(Boolean));
+        } else if (item.type !== 'function_call' && typeof item.type === 'string' && item.type.endsWith('_call')) {
+            builtInToolCalls.push({ type: item.type, id: item.id, status: item.status, detail: describeToolItem(item) });
+        }
+    }
+
+    // Streamed responses may only carry the accumulated output_text
+    const content = text.length > 0 ? text.join('') : (typeof response?.output_text === 'string' ? response.output_text : '');
+    return { content, reasoningSummary, builtInToolCalls };
+}
@@ -0,0 +1,131 @@
+import { RequestAttempt } from '../types';
+import { getErrorStatusCode } from './batchRunner';
+import { toHeaderRecord } from './gatewayHeaders';
+
+// Timeout applies to each attempt until its response starts; retries are off unless maxRetries is set
+export interface RetryPolicy {
+    timeoutMs: number; // 0 disables the timeout
+    maxRetries: number;
+    maxDelayMs: number; // Longest wait between attempts, including server-requested ones
+}
+
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const BASE_DELAY_MS = 1000;
+
+// Gives raw HTTP failures the same status / headers shape as the OpenAI SDK's API errors
+export function createHttpError(statusCode: number | undefined, body: string, headers?: any): Error {
+    return Object.assign(new Error(`HTTP ${statusCode}: ${body}`), {
+        status: statusCode,
+        headers: headers ? toHeaderRecord(headers) : undefined
+    });
+}
+
+// retry-after-ms is preferred; retry-after is either seconds or an HTTP date
+export function getRetryAfterMs(headers: Record<string, string> | undefined, now = Date.now()): number | undefined {
+    if (!headers) {
+        return undefined;
+    }
+
+    const milliseconds = Number(headers['retry-after-ms']);
+    if (headers['retry-after-ms'] && Number.isFinite(milliseconds) && milliseconds >= 0) {
+        return milliseconds;
+    }
+
+    const retryAfter = headers['retry-after'];
+    if (!retryAfter) {
+        return undefined;
+    }
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+        return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Exponential backoff from 1s unless the gateway said how long to wait
+export function getRetryDelayMs(error: any, retryIndex: number, maxDelayMs: number): number {
+    const requested = getRetryAfterMs(error?.headers ? toHeaderRecord(error.headers) : undefined);
+    return Math.min(requested ?? BASE_DELAY_MS * Math.pow(2, retryIndex), maxDelayMs);
+}
+
+export function isRetryableError(error: any): boolean {
+    if (error?.timedOut) {
+        return true;
+    }
+    const statusCode = getErrorStatusCode(error);
+    return statusCode !== undefined && RETRYABLE_STATUS_CODES.includes(statusCode);
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(new Error('Request aborted'));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Request aborted'));
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Runs the call until it succeeds, fails with a non-retryable error or runs out of retries. Every attempt
+// gets its own signal that fires on the caller's signal or the timeout; attempts are appended as they finish.
+// Calls that stream report onResponseStart when headers or the first chunk arrive, which stops the timer so
+// the timeout measures time to first byte rather than cutting off long streams.
+// canRetry lets streamed calls stop retrying once output has reached the user.
+export async function runWithRetries<T>(
+    call: (signal: AbortSignal, onResponseStart: () => void) => Promise<T>,
+    policy: RetryPolicy,
+    signal: AbortSignal,
+    attempts: RequestAttempt[],
+    canRetry: () => boolean = () => true
+): Promise<T> {
+    for (let retryIndex = 0; ; retryIndex++) {
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = policy.timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, policy.timeoutMs)
+            : undefined;
+
+        const startTime = Date.now();
+        const attempt: RequestAttempt = { attempt: retryIndex + 1, startedAt: new Date(startTime).toISOString(), latency: 0 };
+        attempts.push(attempt);
+
+        try {
+            const result = await call(controller.signal, () => clearTimeout(timer));
+            attempt.latency = Date.now() - startTime;
+            attempt.statusCode = 200;
+            return result;
+        } catch (caught) {
+            const error: any = timedOut
+                ? Object.assign(new Error(`Timed out after ${Math.round(policy.timeoutMs / 1000)}s`), { timedOut: true })
+                : caught;
+            attempt.latency = Date.now() - startTime;
+            attempt.statusCode = getErrorStatusCode(error);
+            attempt.error = error instanceof Error ? error.message : String(error);
+
+            if (signal.aborted || retryIndex >= policy.maxRetries || !isRetryableError(error) || !canRetry()) {
+                throw error;
+            }
+
+            attempt.retryDelayMs = getRetryDelayMs(error, retryIndex, policy.maxDelayMs);
+            await delay(attempt.retryDelayMs, signal);
+        } finally {
+            clearTimeout(timer);
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+}
@@ -0,0 +1,128 @@
+import { CacheLogRecord, CacheStatus, SemanticCacheResult } from '../types';
+import { decodeCacheHeader, describeGatewayHeaders } from './gatewayHeaders';
+
+// APIM does not return its correlation ID by default; policies usually expose context.RequestId under one of these
+export const CORRELATION_ID_HEADERS = ['x-correlation-id', 'x-apim-correlation-id', 'correlation-id', 'x-ms-correlation-id'];
+
+export const CORRELATION_ID_POLICY = '<set-header name="x-correlation-id" exists-action="override"><value>@(context.RequestId.ToString())</value></set-header>';
+
+// Default score-threshold of azure-openai-semantic-cache-lookup examples
+export const DEFAULT_SCORE_THRESHOLD = 0.05;
+
+// Without a header or log record, a paraphrase answered in under half the original latency is taken as a hit
+const LATENCY_HIT_RATIO = 0.5;
+
+export function getCorrelationId(headers: Record<string, string> | undefined): string | undefined {
+    return CORRELATION_ID_HEADERS.map(name => headers?.[name]).find(value => !!value);
+}
+
+// Reuses the header inspector's reading of cache headers (any *cache* header starting with hit or miss)
+export function getCacheStatusFromHeaders(headers: Record<string, string> | undefined): CacheStatus | undefined {
+    for (const header of describeGatewayHeaders(headers || {})) {
+        const status = header.category === 'cache' ? decodeCacheHeader(header.value) : undefined;
+        if (status) {
+            return status;
+        }
+    }
+    return undefined;
+}
+
+export function classifyByLatency(latency: number, baselineLatency: number | undefined): CacheStatus {
+    if (!baselineLatency) {
+        return 'unknown';
+    }
+    return latency < baselineLatency * LATENCY_HIT_RATIO ? 'hit' : 'miss';
+}
+
+// A cache hit never reaches the backend, so a log entry without backend time is a hit even when the Cache column is empty
+export function getCacheStatusFromLog(record: CacheLogRecord): CacheStatus {
+    const cache = record.cache?.toLowerCase();
+    if (cache === 'hit' || cache === 'miss') {
+        return cache;
+    }
+    return record.backendTime ? 'miss' : 'hit';
+}
+
+// Log records win over headers and latency; rows without a record keep their status
+export function applyCacheLogRecords(results: SemanticCacheResult[], records: CacheLogRecord[]): SemanticCacheResult[] {
+    return results.map(result => {
+        const record = records.find(item => item.correlationId === result.correlationId);
+        if (!record || result.error) {
+            return result;
+        }
+        return {
+            ...result,
+            cacheStatus: getCacheStatusFromLog(record),
+            cacheSource: 'log',
+            tokens: result.tokens ?? (record.promptTokens !== undefined ? {
+                prompt_tokens: record.promptTokens,
+                completion_tokens: record.completionTokens ?? 0,
+                total_tokens: record.promptTokens + (record.completionTokens ?? 0)
+            } : undefined)
+        };
+    });
+}
+
+export interface SemanticCacheSummary {
+    hits: number;
+    misses: number;
+    unknown: number;
+    latencySavedMs: number; // Original latency minus each hit's latency
+    tokensAvoided: number; // The original's usage for every hit, since a hit never reaches the model
+}
+
+export function summarizeCacheRun(results: SemanticCacheResult[]): SemanticCacheSummary {
+    const baseline = results.find(result => result.index === 0 && !result.error);
+    const paraphrases = results.filter(result => result.index > 0 && !result.error);
+    const hits = paraphrases.filter(result => result.cacheStatus === 'hit');
+
+    return {
+        hits: hits.length,
+        misses: paraphrases.filter(result => result.cacheStatus === 'miss').length,
+        unknown: paraphrases.filter(result => result.cacheStatus === 'unknown').length,
+        latencySavedMs: baseline?.latency
+            ? hits.reduce((sum, result) => sum + Math.max(0, baseline.latency! - (result.latency ?? baseline.latency!)), 0)
+            : 0,
+        tokensAvoided: hits.length * (baseline?.tokens?.total_tokens ?? 0)
+    };
+}
+
+export interface ThresholdReportRow {
+    index: number;
+    distance: number; // 1 - cosine similarity, the scale score-threshold uses
+    expectedHit: boolean;
+    actualHit?: boolean; // Undefined while the cache status is unknown
+}
+
+export interface ThresholdReport {
+    rows: ThresholdReportRow[];
+    mismatches: number;
+    largestHitDistance?: number;
+    smallestMissDistance?: number;
+}
+
+// Compares the observed hits with what the policy's score-threshold predicts; the largest hit and smallest
+// miss distances bracket the threshold the gateway is effectively applying
+export function buildThresholdReport(results: SemanticCacheResult[], scoreThreshold: number): ThresholdReport {
+    const rows: ThresholdReportRow[] = results
+        .filter(result => result.index > 0 && result.similarity !== undefined && !result.error)
+        .map(result => {
+            const distance = Math.max(0, 1 - result.similarity!);
+            return {
+                index: result.index,
+                distance,
+                expectedHit: distance <= scoreThreshold,
+                actualHit: result.cacheStatus === 'unknown' ? undefined : result.cacheStatus === 'hit'
+            };
+        });
+
+    const hitDistances = rows.filter(row => row.actualHit === true).map(row => row.distance);
+    const missDistances = rows.filter(row => row.actualHit === false).map(row => row.distance);
+
+    return {
+        rows,
+        mismatches: rows.filter(row => row.actualHit !== undefined && row.actualHit !== row.expectedHit).length,
+        largestHitDistance: hitDistances.length > 0 ? Math.max(...hitDistances) : undefined,
+        smallestMissDistance: missDistances.length > 0 ? Math.min(...missDistances) : undefined
+    };
+}
@@ -0,0 +1,184 @@
+import { ToolCall } from '../types';
+import { extractToolCalls } from './toolCalling';
+
+export interface SseEvent {
+    event?: string;
+    data: string;
+    id?: string;
+}
+
+// Incremental parser for text/event-stream bodies, fed with raw network chunks
+export class SseParser {
+    private buffer = '';
+
+    push(chunk: string): SseEvent[] {
+        this.buffer += chunk.replace(/\r\n?/g, '\n');
+
+        const events: SseEvent[] = [];
+        let separatorIndex = this.buffer.indexOf('\n\n');
+        while (separatorIndex >= 0) {
+            const block = this.buffer.slice(0, separatorIndex);
+            this.buffer = this.buffer.slice(separatorIndex + 2);
+
+            const event = this.parseBlock(block);
+            if (event) {
+                events.push(event);
+            }
+            separatorIndex = this.buffer.indexOf('\n\n');
+        }
+
+        return events;
+    }
+
+    // Parses whatever is left once the connection closes without a trailing blank line
+    flush(): SseEvent[] {
+        const block = this.buffer;
+        this.buffer = '';
+        const event = this.parseBlock(block);
+        return event ? [event] : [];
+    }
+
+    private parseBlock(block: string): SseEvent | null {
+        const dataLines: string[] = [];
+        let event: string | undefined;
+        let id: string | undefined;
+
+        for (const line of block.split('\n')) {
+            if (!line || line.startsWith(':')) {
+                continue;
+            }
+
+            const colonIndex = line.indexOf(':');
+            const field = colonIndex >= 0 ? line.slice(0, colonIndex) : line;
+            let value = colonIndex >= 0 ? line.slice(colonIndex + 1) : '';
+            if (value.startsWith(' ')) {
+                value = value.slice(1);
+            }
+
+            switch (field) {
+                case 'data':
+                    dataLines.push(value);
+                    break;
+                case 'event':
+                    event = value;
+                    break;
+                case 'id':
+                    id = value;
+                    break;
+            }
+        }
+
+        if (dataLines.length === 0) {
+            return null;
+        }
+
+        return { event, data: dataLines.join('\n'), id };
+    }
+}
+
+// Aggregates Chat Completions chunks and Responses API events into the final message
+export class StreamAccumulator {
+    content = '';
+    usage: any = undefined;
+    finishReason: string | undefined = undefined;
+    response: any = undefined; // Final Responses API object from response.completed
+    chunkCount = 0;
+    private toolCallParts: ToolCall[] = [];
+    private choiceContents: string[] = []; // Text of choices 1..n-1 when n > 1; choice 0 is `content`
+
+    get additionalChoices(): string[] {
+        return Array.from(this.choiceContents.slice(1), text => text || '');
+    }
+
+    // Tool calls assembled from Chat Completions deltas or the final Responses API output
+    get toolCalls(): ToolCall[] {
+        if (this.response) {
+            return extractToolCalls(this.response);
+        }
+        return this.toolCallParts.filter(part => part !== undefined);
+    }
+
+    // Applies one streamed payload and returns the text delta it carried, if any
+    apply(payload: any): string {
+        if (!payload) {
+            return '';
+        }
+
+        if (payload.type === 'error') {
+            throw new Error(payload.message || payload.error?.message || 'Stream returned an error event');
+        }
+
+        let delta = '';
+
+        if (Array.isArray(payload.choices)) {
+            // Chat Completions chunk; with n > 1 every choice streams its own deltas, tagged by index
+            for (const other of payload.choices) {
+                if (other?.index > 0 && other.delta?.content) {
+                    this.choiceContents[other.index] = (this.choiceContents[other.index] || '') + other.delta.content;
+                }
+            }
+            const choice = payload.choices.find((item: any) => (item?.index ?? 0) === 0);
+            delta = choice?.delta?.content || '';
+            for (const toolCall of choice?.delta?.tool_calls || []) {
+                // Ids and names arrive once, arguments are split across many chunks
+                const index = toolCall.index ?? 0;
+                const part = this.toolCallParts[index] || (this.toolCallParts[index] = { id: '', name: '', arguments: '' });
+                if (toolCall.id) {
+                    part.id = toolCall.id;
+                }
+                if (toolCall.function?.name) {
+                    part.name += toolCall.function.name;
+                }
+                if (toolCall.function?.arguments) {
+                    part.arguments += toolCall.function.arguments;
+                }
+            }
+            if (choice?.finish_reason) {
+                this.finishReason = choice.finish_reason;
+            }
+        } else if (payload.type === 'response.output_text.delta') {
+            delta = payload.delta || '';
+        } else if (payload.type === 'response.completed' || payload.type === 'response.incomplete' || payload.type === 'response.failed') {
+            this.response = payload.response;
+            this.finishReason = payload.response?.status;
+        }
+
+        const usage = payload.usage || payload.response?.usage;
+        if (usage) {
+            this.usage = usage;
+        }
+
+        if (delta) {
+            this.content += delta;
+            this.chunkCount++;
+        }
+
+        return delta;
+    }
+
+    // Applies a raw SSE event, skipping the [DONE] sentinel and non-JSON keep-alives
+    applyEvent(event: SseEvent): string {
+        if (event.data === '[DONE]') {
+            return '';
+        }
+
+        let payload: any;
+        try {
+            payload = JSON.parse(event.data);
+        } catch {
+            console.warn('[StreamParser] Skipping non-JSON stream event:', event.data);
+            return '';
+        }
+
+        return this.apply(payload);
+    }
+}
+
+// Text of every choice after the first, for requests with n > 1; only the first choice continues the conversation
+export function extractAdditionalChoices(response: any): string[] {
+    const choices: any[] = Array.isArray(response?.choices) ? response.choices : [];
+    return choices
+        .filter(choice => (choice?.index ?? 0) > 0)
+        .sort((a, b) => a.index - b.index)
+        .map(choice => choice.message?.content || '');
+}
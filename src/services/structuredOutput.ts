@@ -0,0 +1,118 @@
+import Ajv from 'ajv';
+import { ResponseFormat, StructuredOutputValidation } from '../types';
+import { omitUndefined } from './modelParameters';
+
+const SCHEMA_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Each schema gets its own Ajv instance: a shared one keeps every compiled schema and rejects a second
+// compile of a schema with the same $id. Structured output schemas routinely use keywords Ajv's strict
+// mode rejects, so strict mode stays off
+function compileSchema(schema: Record<string, any>) {
+    return new Ajv({ allErrors: true, strict: false }).compile(schema);
+}
+
+// Returns the problems with the requested format itself, checked before the request is sent
+export function validateResponseFormat(format?: ResponseFormat): string[] {
+    if (!format || format.type !== 'json_schema') {
+        return [];
+    }
+
+    const errors: string[] = [];
+    if (!format.name || !SCHEMA_NAME_PATTERN.test(format.name)) {
+        errors.push('Schema name must be made of letters, digits, \'_\' or \'-\' (max 64 characters)');
+    }
+
+    if (!format.schema || typeof format.schema !== 'object' || Array.isArray(format.schema)) {
+        errors.push('JSON schema must be an object');
+    } else {
+        try {
+            compileSchema(format.schema);
+        } catch (error) {
+            errors.push(`JSON schema is invalid: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    return errors;
+}
+
+export function toChatCompletionResponseFormat(format?: ResponseFormat): Record<string, any> | undefined {
+    if (!format || format.type === 'text') {
+        return undefined;
+    }
+
+    if (format.type === 'json_object') {
+        return { type: 'json_object' };
+    }
+
+    return {
+        type: 'json_schema',
+        json_schema: omitUndefined({
+            name: format.name,
+            schema: format.schema,
+            strict: format.strict
+        })
+    };
+}
+
+// The Responses API nests the format under text.format and flattens the schema fields
+export function toResponsesTextFormat(format?: ResponseFormat): Record<string, any> | undefined {
+    if (!format || format.type === 'text') {
+        return undefined;
+    }
+
+    if (format.type === 'json_object') {
+        return { format: { type: 'json_object' } };
+    }
+
+    return {
+        format: omitUndefined({
+            type: 'json_schema',
+            name: format.name,
+            schema: format.schema,
+            strict: format.strict
+        })
+    };
+}
+
+// Checks returned content is JSON and, for json_schema, that it matches the schema
+export function validateStructuredOutput(content: string, format?: ResponseFormat): StructuredOutputValidation | undefined {
+    if (!format || format.type === 'text') {
+        return undefined;
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        return {
+            valid: false,
+            violations: [{ path: '', message: `Content is not valid JSON: ${error instanceof Error ? error.message : error}` }]
+        };
+    }
+
+    if (format.type === 'json_object') {
+        const isObject = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+        return isObject
+            ? { valid: true, violations: [] }
+            : { valid: false, violations: [{ path: '', message: 'Content must be a JSON object' }] };
+    }
+
+    if (!format.schema) {
+        return { valid: true, violations: [] };
+    }
+
+    const validate = compileSchema(format.schema);
+    if (validate(parsed)) {
+        return { valid: true, violations: [] };
+    }
+
+    return {
+        valid: false,
+        violations: (validate.errors || []).map(error => ({
+            path: error.instancePath,
+            message: error.keyword === 'additionalProperties'
+                ? `${error.message}: '${error.params.additionalProperty}'`
+                : error.message || error.keyword
+        }))
+    };
+}
@@ -0,0 +1,128 @@
+import { countTokens as countCl100kTokens } from 'gpt-tokenizer/encoding/cl100k_base';
+import { countTokens as countO200kTokens } from 'gpt-tokenizer/encoding/o200k_base';
+import { ChatRole, MessageAttachment, ToolCall, ToolDefinition } from '../types';
+
+export type TokenEncoding = 'o200k_base' | 'cl100k_base';
+
+interface ModelFamily {
+    pattern: RegExp;
+    encoding: TokenEncoding;
+    contextWindow: number;
+}
+
+// Matched against deployment names too, so patterns are loose and the more specific families come first
+const MODEL_FAMILIES: ModelFamily[] = [
+    { pattern: /gpt-?5[.\d-]*-chat/, encoding: 'o200k_base', contextWindow: 128_000 },
+    { pattern: /gpt-?5/, encoding: 'o200k_base', contextWindow: 400_000 },
+    { pattern: /gpt-?4\.1/, encoding: 'o200k_base', contextWindow: 1_047_576 },
+    { pattern: /gpt-?4\.5/, encoding: 'o200k_base', contextWindow: 128_000 },
+    { pattern: /gpt-?4o|chatgpt-4o/, encoding: 'o200k_base', contextWindow: 128_000 },
+    { pattern: /\bo1-(mini|preview)/, encoding: 'o200k_base', contextWindow: 128_000 },
+    { pattern: /\bo[134]\b/, encoding: 'o200k_base', contextWindow: 200_000 },
+    { pattern: /gpt-oss/, encoding: 'o200k_base', contextWindow: 131_072 },
+    { pattern: /gpt-?4-(turbo|vision|1106|0125)/, encoding: 'cl100k_base', contextWindow: 128_000 },
+    { pattern: /gpt-?4-32k/, encoding: 'cl100k_base', contextWindow: 32_768 },
+    { pattern: /gpt-?4/, encoding: 'cl100k_base', contextWindow: 8_192 },
+    { pattern: /gpt-?3\.?5/, encoding: 'cl100k_base', contextWindow: 16_385 },
+    { pattern: /text-embedding/, encoding: 'cl100k_base', contextWindow: 8_191 }
+];
+
+// Chat formatting adds a few tokens around every message and primes the reply (OpenAI's counting guide)
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+export interface TokenCountMessage {
+    role: ChatRole;
+    content: string;
+    toolCalls?: ToolCall[];
+    attachments?: MessageAttachment[];
+}
+
+export interface ModelTokenProfile {
+    encoding: TokenEncoding;
+    contextWindow?: number;
+    approximate: boolean; // Unknown family, counted with o200k_base
+}
+
+export interface PromptTokenEstimate extends ModelTokenProfile {
+    tokens: number;
+    uncountedAttachments: number; // Images and files are billed by the service, not by text tokens
+}
+
+export interface TokenBudget {
+    maxOutputTokens?: number;
+    tokenLimit?: number; // tokens-per-minute of an llm-token-limit policy with estimate-prompt-tokens
+    remainingTokens?: number; // Last x-ratelimit-remaining-tokens the gateway sent
+}
+
+export function getModelTokenProfile(modelName: string): ModelTokenProfile {
+    const family = MODEL_FAMILIES.find(item => item.pattern.test(modelName.toLowerCase()));
+    return family
+        ? { encoding: family.encoding, contextWindow: family.contextWindow, approximate: false }
+        : { encoding: 'o200k_base', approximate: true };
+}
+
+// Special token markers in user text are sent as plain text, so they are counted that way too
+export function countTextTokens(text: string, encoding: TokenEncoding): number {
+    const options = { disallowedSpecial: new Set<string>() };
+    return encoding === 'cl100k_base' ? countCl100kTokens(text, options) : countO200kTokens(text, options);
+}
+
+// Instructions count as the system message; tool definitions are counted as their JSON, which slightly overestimates
+export function estimatePromptTokens(modelName: string, instructions: string | undefined, messages: TokenCountMessage[], tools?: ToolDefinition[]): PromptTokenEstimate {
+    const profile = getModelTokenProfile(modelName);
+    const count = (text: string) => countTextTokens(text, profile.encoding);
+
+    let tokens = TOKENS_PER_REPLY;
+    let uncountedAttachments = 0;
+    const allMessages = instructions ? [{ role: 'system' as ChatRole, content: instructions }, ...messages] : messages;
+    for (const message of allMessages) {
+        tokens += countMessageTokens(message, count);
+        uncountedAttachments += message.attachments?.length || 0;
+    }
+    if (tools && tools.length > 0) {
+        tokens += count(JSON.stringify(tools));
+    }
+
+    return { ...profile, tokens, uncountedAttachments };
+}
+
+// Adds one more message to an estimate, so a draft can be counted without recounting the conversation
+export function addMessageTokens(estimate: PromptTokenEstimate, message: TokenCountMessage): PromptTokenEstimate {
+    return {
+        ...estimate,
+        tokens: estimate.tokens + countMessageTokens(message, text => countTextTokens(text, estimate.encoding)),
+        uncountedAttachments: estimate.uncountedAttachments + (message.attachments?.length || 0)
+    };
+}
+
+function countMessageTokens(message: TokenCountMessage, count: (text: string) => number): number {
+    let tokens = TOKENS_PER_MESSAGE + count(message.role) + count(message.content);
+    for (const toolCall of message.toolCalls || []) {
+        tokens += count(toolCall.name) + count(toolCall.arguments);
+    }
+    return tokens;
+}
+
+export function getTokenBudgetWarnings(estimate: PromptTokenEstimate, budget: TokenBudget): string[] {
+    const warnings: string[] = [];
+    const format = (value: number) => value.toLocaleString('en-US');
+    const requested = estimate.tokens + (budget.maxOutputTokens || 0);
+
+    if (estimate.contextWindow !== undefined && requested > estimate.contextWindow) {
+        warnings.push(budget.maxOutputTokens
+            ? `Prompt (~${format(estimate.tokens)}) plus max output (${format(budget.maxOutputTokens)}) exceeds the ${format(estimate.contextWindow)}-token context window`
+            : `Prompt (~${format(estimate.tokens)} tokens) exceeds the ${format(estimate.contextWindow)}-token context window`);
+    }
+    if (budget.tokenLimit !== undefined && estimate.tokens > budget.tokenLimit) {
+        warnings.push(`Prompt (~${format(estimate.tokens)} tokens) exceeds the token limit of ${format(budget.tokenLimit)} per minute; with estimate-prompt-tokens the gateway rejects it with 429`);
+    } else if (budget.remainingTokens !== undefined && estimate.tokens > budget.remainingTokens) {
+        warnings.push(`Prompt (~${format(estimate.tokens)} tokens) is more than the ${format(budget.remainingTokens)} tokens the gateway last reported remaining; it may be throttled until the window resets`);
+    }
+    return warnings;
+}
+
+// Positive when the local estimate undercounts what the service reported
+export function getEstimateDrift(estimated: number, actual: number): number | undefined {
+    return actual > 0 ? Math.round((actual - estimated) / actual * 100) : undefined;
+}
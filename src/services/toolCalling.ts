@@ -0,0 +1,118 @@
+import { ToolCall, ToolDefinition } from '../types';
+import { omitUndefined } from './modelParameters';
+
+const FUNCTION_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+export const TOOL_CHOICE_KEYWORDS = ['auto', 'none', 'required'];
+
+// Accepts both the Chat Completions shape ({ type, function: {...} }) and the flat Responses API shape
+export function parseToolDefinitions(json: string): { tools: ToolDefinition[]; errors: string[] } {
+    if (!json.trim()) {
+        return { tools: [], errors: [] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return { tools: [], errors: [`Tools are not valid JSON: ${error instanceof Error ? error.message : error}`] };
+    }
+
+    if (!Array.isArray(parsed)) {
+        return { tools: [], errors: ['Tools must be a JSON array of function definitions'] };
+    }
+
+    const errors: string[] = [];
+    const tools: ToolDefinition[] = [];
+
+    parsed.forEach((entry, index) => {
+        const definition = entry?.function ?? entry;
+        if (!definition || typeof definition !== 'object') {
+            errors.push(`Tool #${index + 1} is not an object`);
+            return;
+        }
+
+        if (typeof definition.name !== 'string' || !FUNCTION_NAME_PATTERN.test(definition.name)) {
+            errors.push(`Tool #${index + 1} needs a name made of letters, digits, '_' or '-' (max 64 characters)`);
+            return;
+        }
+
+        if (definition.parameters !== undefined && (typeof definition.parameters !== 'object' || definition.parameters === null || Array.isArray(definition.parameters))) {
+            errors.push(`Tool '${definition.name}' parameters must be a JSON schema object`);
+            return;
+        }
+
+        if (tools.some(tool => tool.name === definition.name)) {
+            errors.push(`Tool '${definition.name}' is defined more than once`);
+            return;
+        }
+
+        tools.push({
+            name: definition.name,
+            description: definition.description,
+            parameters: definition.parameters,
+            strict: definition.strict
+        });
+    });
+
+    return { tools, errors };
+}
+
+export function toChatCompletionTools(tools: ToolDefinition[]): any[] {
+    return tools.map(tool => ({
+        type: 'function',
+        function: omitUndefined({
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+            strict: tool.strict
+        })
+    }));
+}
+
+export function toResponsesTools(tools: ToolDefinition[]): any[] {
+    return tools.map(tool => omitUndefined({
+        type: 'function',
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+        strict: tool.strict
+    }));
+}
+
+export function toChatCompletionToolChoice(toolChoice?: string): any {
+    if (!toolChoice || TOOL_CHOICE_KEYWORDS.includes(toolChoice)) {
+        return toolChoice || undefined;
+    }
+    return { type: 'function', function: { name: toolChoice } };
+}
+
+export function toResponsesToolChoice(toolChoice?: string): any {
+    if (!toolChoice || TOOL_CHOICE_KEYWORDS.includes(toolChoice)) {
+        return toolChoice || undefined;
+    }
+    return { type: 'function', name: toolChoice };
+}
+
+// Reads tool calls from a Chat Completions response or from Responses API output items
+export function extractToolCalls(response: any): ToolCall[] {
+    const messageToolCalls = response?.choices?.[0]?.message?.tool_calls;
+    if (Array.isArray(messageToolCalls)) {
+        return messageToolCalls.map((toolCall: any) => ({
+            id: toolCall.id,
+            name: toolCall.function?.name || '',
+            arguments: toolCall.function?.arguments || ''
+        }));
+    }
+
+    if (Array.isArray(response?.output)) {
+        return response.output
+            .filter((item: any) => item.type === 'function_call')
+            .map((item: any) => ({
+                id: item.call_id,
+                name: item.name,
+                arguments: item.arguments || ''
+            }));
+    }
+
+    return [];
+}
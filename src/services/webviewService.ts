@@ -2,14 +2,57 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import https from 'https';
 import http from 'http';
-import { WebviewMessage, AnalyticsFilters } from '../types';
+import { WebviewMessage, AnalyticsFilters, PlaygroundRequest, PlaygroundResponse, BatchRunRequest, BatchResult, PromptTemplate, PlaygroundSession, TraceInfo, HeaderPreset, RawHttpRequest, RawHttpResponse, EmbeddingsRequest, EmbeddingsResponse, ImageGenerationRequest, AudioRequest, MediaResponse, RequestAttempt, SemanticCacheRunRequest, SemanticCacheResult, LoadTestRunRequest, LoadTestSample } from '../types';
 import { AzureService } from './azureService';
 import { AzureOpenAI } from 'openai';
+import { SseParser, StreamAccumulator, extractAdditionalChoices } from './streamParser';
+import { validateModelParameters, omitUndefined } from './modelParameters';
+import { validateResponseFormat, validateStructuredOutput } from './structuredOutput';
+import { TOOL_CHOICE_KEYWORDS, extractToolCalls } from './toolCalling';
+import { buildChatCompletionsPayload, buildResponsesPayload, getInferenceEndpointUrl, toAzureOpenAIEndpoint } from './requestPayloads';
+import { CODE_EXPORT_FORMATS, buildCodeExportSpec, generateCode } from './codeExport';
+import { parseDataset, scoreOutput, runWithConcurrency, getErrorStatusCode, toJsonl } from './batchRunner';
+import { PromptLibrary } from './promptLibrary';
+import { PriceLibrary } from './priceLibrary';
+import { getCachedTokens, summarizeCosts } from './pricing';
+import { SESSION_FILE_EXTENSION, parsePlaygroundSession, redactSession } from './playgroundSession';
+import { APIM_DEBUG_AUTHORIZATION_HEADER, parseApimTrace, toTraceInfo } from './apimTrace';
+import { toHeaderRecord } from './gatewayHeaders';
+import { DEFAULT_ENTRA_AUDIENCE, buildAuthHeaders, usesEntraToken, usesSubscriptionKey } from './gatewayAuth';
+import { appendQueryParams, removeHeaderPreset, upsertHeaderPreset, validateCustomHeaders } from './requestOptions';
+import { buildRawHttpUrl } from './rawHttp';
+import { validateAttachments } from './attachments';
+import { extractResponsesOutput, validateResponsesOptions } from './responsesApi';
+import { AUDIO_FILE_TYPES, SPEECH_FORMATS, MediaOperation, buildImageGenerationPayload, buildMultipartBody, buildSpeechPayload, extractGeneratedImages, getFileExtension, getMediaEndpointUrl } from './mediaRequests';
+import { buildEmbeddingsPayload, cosineSimilarity, extractEmbeddings, getEmbeddingsEndpointUrl, validateEmbeddingsRequest } from './embeddings';
+import { RetryPolicy, createHttpError, runWithRetries } from './retryPolicy';
+import { classifyByLatency, getCacheStatusFromHeaders, getCorrelationId } from './semanticCache';
+import { buildLoadTestPrompt, readRateLimitHeaders, runLoadSchedule, validateLoadTestConfig } from './loadTest';
+
+// aiGatewayToolkit.* setting holding the header presets, keyed by API id
+const HEADER_PRESETS_SETTING = 'playground.headerPresets';
+
+// Gateway endpoint and credentials resolved for one API and auth mode
+interface GatewayTarget {
+    fullGatewayUrl: string;
+    baseGatewayUrl: string | null;
+    subscriptionKey?: string;
+    accessToken?: string; // Microsoft Entra ID token
+}
+
+// Per-request hooks handed to the SDK request builders
+interface PlaygroundCallContext {
+    signal: AbortSignal;
+    onChunk: (delta: string) => void;
+    onResponseStart?: () => void; // Called once the gateway starts answering, to stop the attempt timeout
+    headers?: Record<string, string>; // Extra request headers, e.g. the debug trace authorization
+}
 
 export class WebviewService {
     private panels: Map<string, vscode.WebviewPanel> = new Map();
+    private activeRequests: Map<string, AbortController> = new Map();
 
-    constructor(private extensionUri: vscode.Uri, private azureService: AzureService) {}
+    constructor(private extensionUri: vscode.Uri, private azureService: AzureService, private promptLibrary: PromptLibrary, private priceLibrary: PriceLibrary) {}
 
     createAnalyticsPanel(): vscode.WebviewPanel {
         const columnToShowIn = vscode.window.activeTextEditor
@@ -70,6 +113,23 @@ export class WebviewService {
             }
         );
 
+        this.initializePlaygroundPanel(panel);
+        return panel;
+    }
+
+    // Called by the panel serializer after a reload; the webview restores its own state
+    restorePlaygroundPanel(panel: vscode.WebviewPanel): void {
+        panel.webview.options = {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(this.extensionUri, 'dist'),
+                vscode.Uri.joinPath(this.extensionUri, 'resources')
+            ]
+        };
+        this.initializePlaygroundPanel(panel);
+    }
+
+    private initializePlaygroundPanel(panel: vscode.WebviewPanel): void {
         panel.webview.html = this.getPlaygroundHtml(panel.webview);
         panel.iconPath = {
             light: vscode.Uri.joinPath(this.extensionUri, 'resources', 'playground.svg'),
@@ -89,7 +149,6 @@ export class WebviewService {
         });
 
         this.panels.set('playground', panel);
-        return panel;
     }
 
     getPanel(type: string): vscode.WebviewPanel | undefined {
@@ -147,7 +206,7 @@ export class WebviewService {
             <head>
                 <meta charset="UTF-8">
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline' ${webview.cspSource}; font-src ${webview.cspSource};">
+                <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src data: https:; media-src data:; script-src 'unsafe-inline' ${webview.cspSource}; font-src ${webview.cspSource};">
                 <title>AI Gateway Playground</title>
                 <style>
                     body {
@@ -419,6 +478,75 @@ export class WebviewService {
                 // Handle playground message request
                 this.sendPlaygroundMessage(panel, message.data);
                 break;
+            case 'stopMessage':
+                this.stopPlaygroundMessage(message.data?.requestId);
+                break;
+            case 'sendEmbeddings':
+                this.sendEmbeddingsRequest(panel, message.data);
+                break;
+            case 'retrieveResponse':
+                this.manageStoredResponse(panel, message.data, 'retrieve');
+                break;
+            case 'deleteResponse':
+                this.manageStoredResponse(panel, message.data, 'delete');
+                break;
+            case 'generateImage':
+                this.generateImage(panel, message.data);
+                break;
+            case 'sendAudio':
+                this.sendAudioRequest(panel, message.data);
+                break;
+            case 'pickAudioFile':
+                this.pickAudioFile(panel);
+                break;
+            case 'saveMedia':
+                this.saveMediaFile(message.data);
+                break;
+            case 'sendRawHttp':
+                this.sendRawHttpRequest(panel, message.data);
+                break;
+            case 'pickDataset':
+                this.loadBatchDataset(panel);
+                break;
+            case 'runBatch':
+                this.runBatch(panel, message.data);
+                break;
+            case 'exportBatchResults':
+                this.exportBatchResults(message.data);
+                break;
+            case 'runLoadTest':
+                this.runLoadTest(panel, message.data);
+                break;
+            case 'runSemanticCacheTest':
+                this.runSemanticCacheTest(panel, message.data);
+                break;
+            case 'lookupCacheLogs':
+                this.lookupCacheLogs(panel, message.data);
+                break;
+            case 'savePromptTemplate':
+                this.savePromptTemplate(message.data);
+                break;
+            case 'saveSession':
+                this.saveSessionFile(message.data);
+                break;
+            case 'exportCode':
+                this.exportRequestAsCode(message.data);
+                break;
+            case 'openSession':
+                this.openSessionFile();
+                break;
+            case 'getHeaderPresets':
+                this.sendHeaderPresets(panel);
+                break;
+            case 'getPriceCatalog':
+                this.sendPriceCatalog(panel);
+                break;
+            case 'saveHeaderPreset':
+                this.saveHeaderPreset(panel, message.data);
+                break;
+            case 'deleteHeaderPreset':
+                this.deleteHeaderPreset(panel, message.data);
+                break;
             case 'getApis':
                 this.sendApisToPlayground(panel);
                 break;
@@ -459,13 +587,22 @@ export class WebviewService {
             };
 
             // Get real data from Azure services
-            const [summary, models, logs, usageTrend] = await Promise.all([
+            const [summary, models, backends, logs, usageTrend, usageBreakdown, priceCatalog] = await Promise.all([
                 this.azureService.getAnalyticsSummary(analyticsFilters),
                 this.azureService.getModelsFromLogs(analyticsFilters),
+                this.azureService.getBackendsFromLogs(analyticsFilters),
                 this.azureService.getLogs(analyticsFilters, 50),
-                this.azureService.getUsageTrend(analyticsFilters)
+                this.azureService.getUsageTrend(analyticsFilters),
+                this.azureService.getTokenUsageBreakdown(analyticsFilters),
+                this.priceLibrary.getCatalog()
             ]);
 
+            // Costs only cover models with a price; the dashboard lists the others
+            const costs = summarizeCosts(usageBreakdown, priceCatalog.prices);
+            summary.cost = costs.total;
+            models.forEach(model => model.cost = costs.byModel[model.modelName]);
+            backends.forEach(backend => backend.cost = costs.byBackend[backend.backendName]);
+
             // Build model usage chart data
             const modelUsage = models.map((model, index) => ({
                 name: model.modelName,
@@ -479,7 +616,8 @@ export class WebviewService {
                 totalTokens: model.totalTokens,
                 avgLatency: model.averageLatency,
                 errorRate: model.errorRate,
-                successRate: model.successRate
+                successRate: model.successRate,
+                cost: model.cost
             }));
 
             // Convert logs to the expected format
@@ -504,7 +642,14 @@ export class WebviewService {
                 usageTrend,
                 modelUsage,
                 topModels,
-                logs: formattedLogs
+                logs: formattedLogs,
+                costs: {
+                    currency: priceCatalog.currency,
+                    error: priceCatalog.error,
+                    unpricedModels: costs.unpricedModels,
+                    backends: backends.map(backend => ({ backend: backend.backendName, totalTokens: backend.totalTokens, requestCount: backend.requestCount, cost: backend.cost })),
+                    subscriptions: costs.bySubscription
+                }
             };
 
             panel.webview.postMessage({
@@ -524,94 +669,1113 @@ export class WebviewService {
         return colors[index % colors.length];
     }
 
-    private async sendPlaygroundMessage(panel: vscode.WebviewPanel, messageData: any): Promise<void> {
+    private async sendPlaygroundMessage(panel: vscode.WebviewPanel, request: PlaygroundRequest): Promise<void> {
+        const requestId = request.requestId || Date.now().toString();
+        const abortController = new AbortController();
+        this.activeRequests.set(requestId, abortController);
+
+        const startTime = Date.now();
+        let firstTokenTime: number | undefined;
+        let streamedContent = '';
+        const attempts: RequestAttempt[] = [];
+
+        const context: PlaygroundCallContext = {
+            signal: abortController.signal,
+            onChunk: (delta: string) => {
+                if (firstTokenTime === undefined) {
+                    firstTokenTime = Date.now();
+                }
+                streamedContent += delta;
+                panel.webview.postMessage({
+                    type: 'messageChunk',
+                    data: { requestId, delta }
+                });
+            }
+        };
+
         try {
-            if (!this.azureService.isConnected()) {
-                throw new Error('Not connected to Azure API Management');
+            this.validatePlaygroundRequest(request);
+            const target = await this.resolveGatewayTarget(request);
+
+            let traceError: string | undefined;
+            if (request.trace) {
+                try {
+                    context.headers = { [APIM_DEBUG_AUTHORIZATION_HEADER]: await this.azureService.getDebugTraceToken(request.apiId) };
+                } catch (error) {
+                    // Tracing is diagnostic only - still send the request without it
+                    traceError = `Failed to obtain a debug trace token: ${error instanceof Error ? error.message : error}`;
+                }
             }
 
-            const { sdk, apiId, modelName, subscriptionId, apiVersion, inferenceApiType, stream, trace, instructions, prompt } = messageData;
-            
-            // Get the API details to find the gateway URL
-            const apis = await this.azureService.getApis();
-            const selectedApi = apis.find(api => api.id === apiId);
-            
-            if (!selectedApi) {
-                throw new Error(`API with ID ${apiId} not found`);
+            // A streamed answer is only retried while nothing has reached the chat yet
+            const response = await runWithRetries(
+                (signal, onResponseStart) => this.callPlaygroundSdk(target, request, { ...context, signal, onResponseStart }),
+                this.getRetryPolicy(),
+                abortController.signal,
+                attempts,
+                () => firstTokenTime === undefined
+            );
+
+            const endTime = Date.now();
+            const latency = endTime - startTime;
+            const result = this.toPlaygroundResponse(response, latency);
+            this.applyStreamingMetrics(result, startTime, firstTokenTime, endTime);
+
+            // Tool call turns carry no content to validate
+            if (result.content || !result.toolCalls) {
+                result.structuredOutput = validateStructuredOutput(result.content, request.responseFormat);
             }
 
-            // Get subscription key for authentication
-            const subscriptions = await this.azureService.getSubscriptions();
-            const selectedSubscription = subscriptions.find(sub => sub.id === subscriptionId);
-            
-            if (!selectedSubscription) {
-                throw new Error(`Subscription with ID ${subscriptionId} not found`);
+            if (request.trace) {
+                result.traceInfo = await this.attachApimTrace(result.traceInfo, traceError);
             }
 
-            // Extract gateway URLs and subscription key
-            const fullGatewayUrl = this.extractGatewayUrl(selectedApi);
-            const baseGatewayUrl = this.extractBaseGatewayUrl(selectedApi);
-            const subscriptionKey = this.extractSubscriptionKey(selectedSubscription);
+            // Send response back to playground
+            panel.webview.postMessage({
+                type: 'messageResponse',
+                data: {
+                    ...result,
+                    requestId,
+                    attempts,
+                    traceInfo: request.trace ? result.traceInfo : undefined
+                }
+            });
 
-            if (!fullGatewayUrl) {
-                throw new Error('Gateway URL not found for the selected API');
+        } catch (error: any) {
+            // Keep whatever was streamed before the user pressed Stop or the attempt timed out
+            if (abortController.signal.aborted || (error?.timedOut && streamedContent)) {
+                console.log(`[Playground] Request ${requestId} ${error?.timedOut ? 'timed out' : 'stopped by the user'}`);
+                const endTime = Date.now();
+                const result: PlaygroundResponse = {
+                    requestId,
+                    content: streamedContent,
+                    latency: endTime - startTime,
+                    streamed: request.stream,
+                    stopped: true,
+                    attempts
+                };
+                this.applyStreamingMetrics(result, startTime, firstTokenTime, endTime);
+                panel.webview.postMessage({
+                    type: 'messageResponse',
+                    data: result
+                });
+                return;
             }
 
-            if (!subscriptionKey) {
-                throw new Error('Subscription key not found for the selected subscription');
+            console.error('[Playground] Error sending message:', error);
+            panel.webview.postMessage({
+                type: 'error',
+                data: { requestId, message: `Failed to send message: ${error}`, attempts }
+            });
+        } finally {
+            this.activeRequests.delete(requestId);
+        }
+    }
+
+    // Fetches the policy trace recorded for the Apim-Trace-Id the gateway returned
+    private async attachApimTrace(traceInfo: TraceInfo | undefined, traceError: string | undefined): Promise<TraceInfo> {
+        const info: TraceInfo = traceInfo || { timestamp: new Date().toISOString() };
+        if (traceError) {
+            return { ...info, traceError };
+        }
+        if (!info.traceId) {
+            return { ...info, traceError: 'The gateway did not return an Apim-Trace-Id header' };
+        }
+
+        try {
+            return { ...info, apimTrace: parseApimTrace(await this.azureService.getTrace(info.traceId)) };
+        } catch (error) {
+            return { ...info, traceError: `Failed to fetch the trace: ${error instanceof Error ? error.message : error}` };
+        }
+    }
+
+    // Raw HTTP mode: sends the request as edited and returns the response unparsed, whatever its status
+    private async sendRawHttpRequest(panel: vscode.WebviewPanel, request: RawHttpRequest): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(request.requestId, abortController);
+
+        const startTime = Date.now();
+        let url = '';
+
+        try {
+            const target = await this.resolveGatewayTarget(request);
+            url = appendQueryParams(buildRawHttpUrl(target.fullGatewayUrl, request.path), request.queryParams);
+            const hasBody = !!request.body?.trim() && !['GET', 'HEAD'].includes(request.method);
+
+            // Raw mode shows whatever came back, so only the timeout applies
+            const response = await runWithRetries((signal, onResponseStart) => this.makeHttpRequest(url, {
+                method: request.method,
+                // Editor headers win, so a different key header or content type can be sent
+                headers: {
+                    ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+                    ...buildAuthHeaders(target, ['Ocp-Apim-Subscription-Key']),
+                    ...request.customHeaders,
+                    ...request.headers
+                },
+                body: hasBody ? request.body : undefined,
+                signal,
+                onResponseStart,
+                raw: true
+            }), { ...this.getRetryPolicy(), maxRetries: 0 }, abortController.signal, []);
+
+            const result: RawHttpResponse = {
+                requestId: request.requestId,
+                url,
+                statusCode: response.rawResponse.statusCode,
+                headers: response.responseHeaders,
+                body: response.rawResponse.body,
+                latency: Date.now() - startTime
+            };
+            panel.webview.postMessage({ type: 'rawHttpResponse', data: result });
+        } catch (error) {
+            const result: RawHttpResponse = {
+                requestId: request.requestId,
+                url,
+                headers: {},
+                body: '',
+                latency: Date.now() - startTime,
+                error: abortController.signal.aborted ? 'Request stopped' : `${error instanceof Error ? error.message : error}`
+            };
+            panel.webview.postMessage({ type: 'rawHttpResponse', data: result });
+        } finally {
+            this.activeRequests.delete(request.requestId);
+        }
+    }
+
+    // Embeddings mode: embeds every input in one call and returns the vectors for the similarity matrix
+    private async sendEmbeddingsRequest(panel: vscode.WebviewPanel, request: EmbeddingsRequest): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(request.requestId, abortController);
+
+        const startTime = Date.now();
+        const attempts: RequestAttempt[] = [];
+
+        try {
+            const errors = [
+                ...validateEmbeddingsRequest(request),
+                ...validateCustomHeaders(Object.entries(request.customHeaders || {}).map(([key, value]) => ({ key, value, enabled: true })))
+            ];
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
             }
 
-            console.log(`[Playground] Making API call with SDK: ${sdk}`);
-            console.log(`[Playground] Full Gateway URL: ${fullGatewayUrl}`);
-            console.log(`[Playground] Base Gateway URL: ${baseGatewayUrl}`);
-            console.log(`[Playground] Model: ${modelName}`);
+            const target = await this.resolveGatewayTarget(request);
+            const { data, responseHeaders } = await runWithRetries(
+                signal => this.makeEmbeddingsRequest(target, request, signal),
+                this.getRetryPolicy(),
+                abortController.signal,
+                attempts
+            );
+
+            const result: EmbeddingsResponse = {
+                requestId: request.requestId,
+                ...extractEmbeddings(data),
+                latency: Date.now() - startTime,
+                responseHeaders,
+                attempts
+            };
+            panel.webview.postMessage({ type: 'embeddingsResponse', data: result });
+        } catch (error) {
+            const result: EmbeddingsResponse = {
+                requestId: request.requestId,
+                vectors: [],
+                latency: Date.now() - startTime,
+                attempts,
+                error: abortController.signal.aborted ? 'Request stopped' : `${error instanceof Error ? error.message : error}`
+            };
+            panel.webview.postMessage({ type: 'embeddingsResponse', data: result });
+        } finally {
+            this.activeRequests.delete(request.requestId);
+        }
+    }
 
-            // Make the API call based on the selected SDK
-            const startTime = Date.now();
-            let response: any;
+    // Retrieves or deletes a response stored by the Responses API, through the same gateway target as the chat
+    private async manageStoredResponse(
+        panel: vscode.WebviewPanel,
+        data: Pick<PlaygroundRequest, 'apiId' | 'subscriptionId' | 'authMode' | 'entraAudience' | 'apiVersion' | 'customHeaders' | 'queryParams'> & { messageId: string; responseId: string },
+        action: 'retrieve' | 'delete'
+    ): Promise<void> {
+        try {
+            const target = await this.resolveGatewayTarget(data);
+            const client = this.createAzureOpenAIClient(target.fullGatewayUrl, target, data);
+            if (action === 'retrieve') {
+                const response = await client.responses.retrieve(data.responseId);
+                panel.webview.postMessage({ type: 'storedResponse', data: { messageId: data.messageId, action, response } });
+            } else {
+                await client.responses.delete(data.responseId);
+                panel.webview.postMessage({ type: 'storedResponse', data: { messageId: data.messageId, action } });
+            }
+        } catch (error) {
+            panel.webview.postMessage({
+                type: 'storedResponse',
+                data: { messageId: data.messageId, action, error: `Failed to ${action} response ${data.responseId}: ${error instanceof Error ? error.message : error}` }
+            });
+        }
+    }
 
-            switch (sdk) {
-                case 'azure-openai':
-                    // Azure OpenAI SDK expects base endpoint URL
-                    response = await this.makeAzureOpenAIRequest(fullGatewayUrl, subscriptionKey, modelName, prompt, instructions, stream, apiVersion, inferenceApiType);
-                    break;
-                case 'azure-ai-inference':
-                    // Azure AI Inference uses full gateway URL with endpoint path
-                    response = await this.makeAzureAIInferenceRequest(fullGatewayUrl, subscriptionKey, modelName, prompt, instructions, stream);
-                    break;
-                case 'openai-compatible':
-                    // OpenAI compatible uses full gateway URL with endpoint path
-                    response = await this.makeOpenAICompatibleRequest(fullGatewayUrl, subscriptionKey, modelName, prompt, instructions, stream);
-                    break;
-                default:
-                    throw new Error(`Unsupported SDK: ${sdk}`);
+    private async generateImage(panel: vscode.WebviewPanel, request: ImageGenerationRequest): Promise<void> {
+        await this.runMediaRequest(panel, request, async (target, signal) => {
+            if (!request.prompt?.trim()) {
+                throw new Error('Enter a prompt');
             }
+            const body = await this.callMediaEndpoint(target, request, 'images/generations', {
+                body: JSON.stringify(buildImageGenerationPayload(request)),
+                contentType: 'application/json',
+                signal
+            });
+            return { images: extractGeneratedImages(JSON.parse(body.toString('utf8'))) };
+        });
+    }
 
-            const endTime = Date.now();
-            const latency = endTime - startTime;
+    private async sendAudioRequest(panel: vscode.WebviewPanel, request: AudioRequest): Promise<void> {
+        await this.runMediaRequest(panel, request, async (target, signal) => {
+            if (request.operation === 'speech') {
+                if (!request.input?.trim()) {
+                    throw new Error('Enter the text to read out');
+                }
+                const format = request.format || 'mp3';
+                const audio = await this.callMediaEndpoint(target, request, 'audio/speech', {
+                    body: JSON.stringify(buildSpeechPayload(request)),
+                    contentType: 'application/json',
+                    signal
+                });
+                return { audio: { base64: audio.toString('base64'), mimeType: SPEECH_FORMATS[format] || 'audio/mpeg' } };
+            }
 
-            // Send response back to playground
+            if (!request.fileUri) {
+                throw new Error('Pick an audio file to transcribe');
+            }
+            const uri = vscode.Uri.parse(request.fileUri);
+            const fileName = path.basename(uri.fsPath);
+            const multipart = buildMultipartBody(
+                { model: request.modelName, language: request.language?.trim(), response_format: 'json' },
+                {
+                    fieldName: 'file',
+                    fileName,
+                    mimeType: AUDIO_FILE_TYPES[getFileExtension(fileName)] || 'application/octet-stream',
+                    content: await vscode.workspace.fs.readFile(uri)
+                },
+                `----AIGatewayToolkit${Date.now().toString(16)}`
+            );
+            const body = await this.callMediaEndpoint(target, request, 'audio/transcriptions', { ...multipart, signal });
+            return { text: JSON.parse(body.toString('utf8')).text ?? '' };
+        });
+    }
+
+    // Shared by the image and audio modes: resolves the target, tracks the request for Stop and always answers
+    private async runMediaRequest(
+        panel: vscode.WebviewPanel,
+        request: ImageGenerationRequest | AudioRequest,
+        call: (target: GatewayTarget, signal: AbortSignal) => Promise<Partial<MediaResponse>>
+    ): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(request.requestId, abortController);
+
+        const startTime = Date.now();
+        const attempts: RequestAttempt[] = [];
+
+        try {
+            const headerErrors = validateCustomHeaders(Object.entries(request.customHeaders || {}).map(([key, value]) => ({ key, value, enabled: true })));
+            if (headerErrors.length > 0) {
+                throw new Error(`Invalid custom headers: ${headerErrors.join('; ')}`);
+            }
+
+            const target = await this.resolveGatewayTarget(request);
+            const result: MediaResponse = {
+                requestId: request.requestId,
+                ...await runWithRetries(signal => call(target, signal), this.getRetryPolicy(), abortController.signal, attempts),
+                latency: Date.now() - startTime,
+                attempts
+            };
+            panel.webview.postMessage({ type: 'mediaResponse', data: result });
+        } catch (error) {
+            const result: MediaResponse = {
+                requestId: request.requestId,
+                latency: Date.now() - startTime,
+                attempts,
+                error: abortController.signal.aborted ? 'Request stopped' : `${error instanceof Error ? error.message : error}`
+            };
+            panel.webview.postMessage({ type: 'mediaResponse', data: result });
+        } finally {
+            this.activeRequests.delete(request.requestId);
+        }
+    }
+
+    // Returns the response body as bytes, since the speech endpoint answers with audio
+    private async callMediaEndpoint(
+        target: GatewayTarget,
+        request: ImageGenerationRequest | AudioRequest,
+        operation: MediaOperation,
+        content: { body: string | Buffer; contentType: string; signal: AbortSignal }
+    ): Promise<Buffer> {
+        const keyHeaders = request.sdk === 'azure-openai' ? ['api-key'] : ['Authorization', 'Ocp-Apim-Subscription-Key'];
+        const response = await this.makeHttpRequest(getMediaEndpointUrl(target.fullGatewayUrl, request, operation), {
+            method: 'POST',
+            headers: {
+                'Content-Type': content.contentType,
+                ...buildAuthHeaders(target, keyHeaders),
+                ...request.customHeaders
+            },
+            body: content.body,
+            signal: content.signal,
+            raw: true,
+            binary: true
+        });
+
+        const { statusCode, headers, body } = response.rawResponse;
+        if (!statusCode || statusCode < 200 || statusCode >= 300) {
+            throw createHttpError(statusCode, body.toString('utf8'), headers);
+        }
+        return body;
+    }
+
+    private async pickAudioFile(panel: vscode.WebviewPanel): Promise<void> {
+        const uris = await vscode.window.showOpenDialog({
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            canSelectMany: false,
+            openLabel: 'Transcribe',
+            filters: {
+                'Audio': Object.keys(AUDIO_FILE_TYPES)
+            }
+        });
+
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uris[0]);
             panel.webview.postMessage({
-                type: 'messageResponse',
-                data: {
-                    content: response.choices[0].message.content,
-                    tokens: response.usage,
-                    latency: latency,
-                    rawRequest: undefined,
-                    rawResponse: JSON.stringify(response, null, 2),
-                    traceInfo: trace ? response.traceInfo : undefined
+                type: 'audioFilePicked',
+                data: { fileUri: uris[0].toString(), fileName: path.basename(uris[0].fsPath), size: stat.size }
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to read audio file: ${error}`);
+        }
+    }
+
+    // Generated images and speech are saved from their base64 data, or downloaded when the gateway returned a URL
+    private async saveMediaFile(data: { fileName: string; base64?: string; url?: string }): Promise<void> {
+        try {
+            const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: folder ? vscode.Uri.joinPath(folder, data.fileName) : vscode.Uri.file(data.fileName),
+                filters: {
+                    'Media': [getFileExtension(data.fileName) || '*']
                 }
             });
 
+            if (!uri) {
+                return;
+            }
+
+            let content: Uint8Array;
+            if (data.base64) {
+                content = Buffer.from(data.base64, 'base64');
+            } else if (data.url) {
+                const response = await fetch(data.url);
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status} downloading ${data.url}`);
+                }
+                content = new Uint8Array(await response.arrayBuffer());
+            } else {
+                throw new Error('Nothing to save');
+            }
+
+            await vscode.workspace.fs.writeFile(uri, content);
+            vscode.window.showInformationMessage(`Saved to ${vscode.workspace.asRelativePath(uri)}`);
         } catch (error) {
-            console.error('[Playground] Error sending message:', error);
+            vscode.window.showErrorMessage(`Failed to save file: ${error}`);
+        }
+    }
+
+    private stopPlaygroundMessage(requestId?: string): void {
+        if (requestId) {
+            this.activeRequests.get(requestId)?.abort();
+            return;
+        }
+
+        // No id given - stop everything in flight
+        this.activeRequests.forEach(controller => controller.abort());
+    }
+
+    private async loadBatchDataset(panel: vscode.WebviewPanel): Promise<void> {
+        try {
+            const uris = await vscode.window.showOpenDialog({
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                canSelectMany: false,
+                openLabel: 'Load Dataset',
+                filters: {
+                    'Datasets': ['jsonl', 'csv']
+                }
+            });
+
+            if (!uris || uris.length === 0) {
+                return;
+            }
+
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uris[0])).toString('utf8');
+            const fileName = path.basename(uris[0].fsPath);
+            const { items, errors } = parseDataset(content, fileName);
+
+            panel.webview.postMessage({
+                type: 'datasetLoaded',
+                data: { fileName, items, errors }
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load dataset: ${error}`);
+        }
+    }
+
+    // Runs every dataset row as a single-turn conversation through the Playground request path
+    private async runBatch(panel: vscode.WebviewPanel, run: BatchRunRequest): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(run.runId, abortController);
+
+        try {
+            const target = await this.resolveGatewayTarget(run.request);
+            const retryPolicy = this.getRetryPolicy();
+
+            await runWithConcurrency(run.items, run.concurrency, async (item) => {
+                if (abortController.signal.aborted) {
+                    return;
+                }
+
+                const request: PlaygroundRequest = {
+                    ...run.request,
+                    requestId: `${run.runId}-${item.id}`,
+                    messages: [{ role: 'user', content: item.prompt }]
+                };
+                const context: PlaygroundCallContext = {
+                    signal: abortController.signal,
+                    onChunk: () => undefined
+                };
+                const result: BatchResult = { id: item.id, prompt: item.prompt, expected: item.expected, output: '', scores: [] };
+                const attempts: RequestAttempt[] = [];
+                const startTime = Date.now();
+
+                try {
+                    this.validatePlaygroundRequest(request);
+                    const response = this.toPlaygroundResponse(await runWithRetries(
+                        (signal, onResponseStart) => this.callPlaygroundSdk(target, request, { ...context, signal, onResponseStart }),
+                        retryPolicy,
+                        abortController.signal,
+                        attempts
+                    ), Date.now() - startTime);
+                    result.output = response.content;
+                    result.statusCode = response.rawResponse?.statusCode ?? 200;
+                    result.latency = response.latency;
+                    result.tokens = response.tokens;
+                    result.scores = scoreOutput(response.content, item.expected, run.scorers);
+                } catch (error) {
+                    result.latency = Date.now() - startTime;
+                    result.statusCode = getErrorStatusCode(error);
+                    result.error = abortController.signal.aborted ? 'Stopped' : `${error}`;
+                }
+                if (attempts.length > 1) {
+                    result.attempts = attempts.length;
+                }
+
+                panel.webview.postMessage({
+                    type: 'batchResult',
+                    data: { runId: run.runId, result }
+                });
+            });
+        } catch (error) {
+            console.error('[Playground] Batch run failed:', error);
             panel.webview.postMessage({
                 type: 'error',
-                data: { message: `Failed to send message: ${error}` }
+                data: { requestId: run.runId, message: `Failed to run batch: ${error}` }
+            });
+        } finally {
+            this.activeRequests.delete(run.runId);
+            panel.webview.postMessage({
+                type: 'batchComplete',
+                data: { runId: run.runId, stopped: abortController.signal.aborted }
             });
         }
     }
 
+    // Fires a fixed-rate burst through the Playground request paths and reports every response, 429s included,
+    // with the rate limit headers. Nothing is retried: the point is to see where the gateway pushes back
+    private async runLoadTest(panel: vscode.WebviewPanel, run: LoadTestRunRequest): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(run.runId, abortController);
+        let skipped = 0;
+
+        try {
+            const errors = validateLoadTestConfig(run.config);
+            if (errors.length > 0) {
+                throw new Error(errors.join('; '));
+            }
+
+            this.validatePlaygroundRequest({ ...run.request, requestId: run.runId, messages: [{ role: 'user', content: buildLoadTestPrompt(1, 0) }] });
+
+            const target: GatewayTarget = run.gatewayUrl
+                ? { fullGatewayUrl: run.gatewayUrl.trim(), baseGatewayUrl: run.gatewayUrl.trim(), subscriptionKey: run.gatewayKey || undefined }
+                : await this.resolveGatewayTarget(run.request);
+            const retryPolicy = { ...this.getRetryPolicy(), maxRetries: 0 };
+            const startTime = Date.now();
+
+            const schedule = await runLoadSchedule(run.config, abortController.signal, async (index) => {
+                const request: PlaygroundRequest = {
+                    ...run.request,
+                    requestId: `${run.runId}-${index}`,
+                    stream: false,
+                    parameters: { ...run.request.parameters, maxTokens: run.config.maxTokens ?? run.request.parameters?.maxTokens },
+                    messages: [{ role: 'user', content: buildLoadTestPrompt(run.config.promptTokens, index) }]
+                };
+                const sentAt = Date.now();
+                let sample: LoadTestSample;
+
+                try {
+                    const response = this.toPlaygroundResponse(await runWithRetries(
+                        signal => this.callPlaygroundSdk(target, request, { signal, onChunk: () => undefined }),
+                        retryPolicy,
+                        abortController.signal,
+                        []
+                    ), Date.now() - sentAt);
+                    sample = {
+                        index,
+                        offsetMs: sentAt - startTime,
+                        latency: response.latency,
+                        statusCode: response.rawResponse?.statusCode ?? 200,
+                        totalTokens: response.tokens?.total_tokens,
+                        ...readRateLimitHeaders(response.responseHeaders)
+                    };
+                } catch (error: any) {
+                    sample = {
+                        index,
+                        offsetMs: sentAt - startTime,
+                        latency: Date.now() - sentAt,
+                        statusCode: getErrorStatusCode(error),
+                        ...readRateLimitHeaders(error?.headers ? toHeaderRecord(error.headers) : undefined),
+                        error: abortController.signal.aborted ? 'Stopped' : `${error instanceof Error ? error.message : error}`
+                    };
+                }
+
+                panel.webview.postMessage({
+                    type: 'loadTestSample',
+                    data: { runId: run.runId, sample }
+                });
+            });
+            skipped = schedule.skipped;
+        } catch (error) {
+            console.error('[Playground] Load test failed:', error);
+            panel.webview.postMessage({
+                type: 'error',
+                data: { requestId: run.runId, message: `Failed to run the load test: ${error}` }
+            });
+        } finally {
+            this.activeRequests.delete(run.runId);
+            panel.webview.postMessage({
+                type: 'loadTestComplete',
+                data: { runId: run.runId, stopped: abortController.signal.aborted, skipped }
+            });
+        }
+    }
+
+    // Sends the prompt, then each paraphrase in turn, so the first answer is cached before the paraphrases arrive.
+    // Calls are never retried, since a retry would distort the latencies the cache status may be read from
+    private async runSemanticCacheTest(panel: vscode.WebviewPanel, run: SemanticCacheRunRequest): Promise<void> {
+        const abortController = new AbortController();
+        this.activeRequests.set(run.runId, abortController);
+        const prompts = [run.prompt, ...run.paraphrases];
+        let similarityError: string | undefined;
+
+        try {
+            const target = await this.resolveGatewayTarget(run.request);
+            const retryPolicy = { ...this.getRetryPolicy(), maxRetries: 0 };
+            let baselineLatency: number | undefined;
+
+            for (const [index, prompt] of prompts.entries()) {
+                if (abortController.signal.aborted) {
+                    break;
+                }
+
+                const request: PlaygroundRequest = {
+                    ...run.request,
+                    requestId: `${run.runId}-${index}`,
+                    stream: false,
+                    messages: [{ role: 'user', content: prompt }]
+                };
+                const result: SemanticCacheResult = { index, prompt, cacheStatus: 'unknown' };
+                const startTime = Date.now();
+
+                try {
+                    this.validatePlaygroundRequest(request);
+                    const response = this.toPlaygroundResponse(await runWithRetries(
+                        signal => this.callPlaygroundSdk(target, request, { signal, onChunk: () => undefined }),
+                        retryPolicy,
+                        abortController.signal,
+                        []
+                    ), Date.now() - startTime);
+                    result.output = response.content;
+                    result.statusCode = response.rawResponse?.statusCode ?? 200;
+                    result.latency = response.latency;
+                    result.tokens = response.tokens;
+                    result.correlationId = getCorrelationId(response.responseHeaders);
+
+                    const headerStatus = getCacheStatusFromHeaders(response.responseHeaders);
+                    if (headerStatus) {
+                        result.cacheStatus = headerStatus;
+                        result.cacheSource = 'header';
+                    } else if (index > 0) {
+                        result.cacheStatus = classifyByLatency(response.latency, baselineLatency);
+                        result.cacheSource = result.cacheStatus === 'unknown' ? undefined : 'latency';
+                    }
+                    if (index === 0) {
+                        baselineLatency = response.latency;
+                    }
+                } catch (error) {
+                    result.latency = Date.now() - startTime;
+                    result.statusCode = getErrorStatusCode(error);
+                    result.error = abortController.signal.aborted ? 'Stopped' : `${error}`;
+                }
+
+                panel.webview.postMessage({
+                    type: 'semanticCacheResult',
+                    data: { runId: run.runId, result }
+                });
+            }
+
+            if (run.embeddingsModel && !abortController.signal.aborted) {
+                try {
+                    const { data } = await this.makeEmbeddingsRequest(target, {
+                        ...run.request,
+                        requestId: `${run.runId}-similarity`,
+                        modelName: run.embeddingsModel,
+                        inputs: prompts
+                    }, abortController.signal);
+                    const { vectors } = extractEmbeddings(data);
+                    panel.webview.postMessage({
+                        type: 'semanticCacheSimilarity',
+                        data: { runId: run.runId, similarities: vectors.map(vector => cosineSimilarity(vectors[0], vector)) }
+                    });
+                } catch (error) {
+                    similarityError = `Failed to embed the prompts with ${run.embeddingsModel}: ${error instanceof Error ? error.message : error}`;
+                }
+            }
+        } catch (error) {
+            console.error('[Playground] Semantic cache test failed:', error);
+            panel.webview.postMessage({
+                type: 'error',
+                data: { requestId: run.runId, message: `Failed to run the semantic cache test: ${error}` }
+            });
+        } finally {
+            this.activeRequests.delete(run.runId);
+            panel.webview.postMessage({
+                type: 'semanticCacheComplete',
+                data: { runId: run.runId, stopped: abortController.signal.aborted, similarityError }
+            });
+        }
+    }
+
+    private async lookupCacheLogs(panel: vscode.WebviewPanel, data: { runId: string; correlationIds: string[]; since: string }): Promise<void> {
+        try {
+            // Allow for clock skew between this machine and the gateway
+            const start = new Date(new Date(data.since).getTime() - 5 * 60 * 1000);
+            const records = await this.azureService.getCacheLogRecords(data.correlationIds, { start, end: new Date() });
+            panel.webview.postMessage({ type: 'cacheLogs', data: { runId: data.runId, records } });
+        } catch (error) {
+            panel.webview.postMessage({
+                type: 'cacheLogs',
+                data: { runId: data.runId, records: [], error: `Failed to query the gateway logs: ${error instanceof Error ? error.message : error}` }
+            });
+        }
+    }
+
+    private async exportBatchResults(data: { results: BatchResult[]; metadata: Record<string, any> }): Promise<void> {
+        try {
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.workspace.workspaceFolders
+                    ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, 'batch-results.jsonl')
+                    : vscode.Uri.file('batch-results.jsonl'),
+                filters: {
+                    'JSON Lines': ['jsonl']
+                }
+            });
+
+            if (uri) {
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(toJsonl(data.results, data.metadata), 'utf8'));
+                vscode.window.showInformationMessage('Batch results exported successfully');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export batch results: ${error}`);
+        }
+    }
+
+    private async saveSessionFile(session: PlaygroundSession): Promise<void> {
+        try {
+            const fileName = `playground-${new Date().toISOString().slice(0, 10)}${SESSION_FILE_EXTENSION}`;
+            const uri = await vscode.window.showSaveDialog({
+                defaultUri: vscode.workspace.workspaceFolders
+                    ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[0].uri, fileName)
+                    : vscode.Uri.file(fileName),
+                filters: {
+                    'Playground Sessions': ['json']
+                }
+            });
+
+            if (uri) {
+                // Keys are stripped so the file can be shared safely
+                const content = JSON.stringify(redactSession(session), null, 2);
+                await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
+                vscode.window.showInformationMessage(`Playground session saved to ${vscode.workspace.asRelativePath(uri)}`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save session: ${error}`);
+        }
+    }
+
+    async openSessionFile(uri?: vscode.Uri): Promise<void> {
+        try {
+            if (!uri) {
+                const uris = await vscode.window.showOpenDialog({
+                    defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                    canSelectMany: false,
+                    openLabel: 'Open Session',
+                    filters: {
+                        'Playground Sessions': ['json']
+                    }
+                });
+                uri = uris?.[0];
+            }
+
+            if (!uri) {
+                return;
+            }
+
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            const { session, error } = parsePlaygroundSession(content);
+            if (!session) {
+                throw new Error(error);
+            }
+
+            let panel = this.panels.get('playground');
+            if (!panel) {
+                panel = this.createPlaygroundPanel();
+            }
+            panel.reveal();
+
+            // Slight delay to ensure a newly created panel is ready
+            setTimeout(() => {
+                this.sendMessageToPanel('playground', {
+                    type: 'loadSession',
+                    data: session
+                });
+            }, 100);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open session: ${error}`);
+        }
+    }
+
+    // Generates code for the request in an untitled editor; the key and token are left as environment variables
+    private async exportRequestAsCode(request: PlaygroundRequest): Promise<void> {
+        try {
+            this.validatePlaygroundRequest(request);
+
+            // Only the Azure OpenAI SDK path speaks the Responses API
+            const isResponsesApi = request.sdk === 'azure-openai' && request.inferenceApiType === 'Responses API';
+            const picked = await vscode.window.showQuickPick(
+                CODE_EXPORT_FORMATS
+                    .filter(option => !(isResponsesApi && option.format === 'python-inference'))
+                    .map(option => ({ label: option.label, option })),
+                { placeHolder: 'Export request as' }
+            );
+
+            if (!picked) {
+                return;
+            }
+
+            // Only the URL is needed, the generated code reads its credentials from the environment
+            const target = await this.resolveGatewayTarget({ ...request, authMode: 'none' });
+            const code = generateCode(picked.option.format, buildCodeExportSpec(request, target.fullGatewayUrl));
+            const document = await vscode.workspace.openTextDocument({ content: code, language: picked.option.language });
+            await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export code: ${error}`);
+        }
+    }
+
+    private async savePromptTemplate(template: PromptTemplate): Promise<void> {
+        try {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Enter a name for the prompt template',
+                placeHolder: 'summarize-ticket',
+                value: template.name
+            });
+
+            if (!name) {
+                return;
+            }
+
+            const uri = await this.promptLibrary.saveTemplate({ ...template, name });
+            vscode.window.showInformationMessage(`Prompt template saved to ${vscode.workspace.asRelativePath(uri)}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save prompt template: ${error}`);
+        }
+    }
+
+    private getRetryPolicy(): RetryPolicy {
+        const config = vscode.workspace.getConfiguration('aiGatewayToolkit.playground');
+        return {
+            timeoutMs: Math.max(0, config.get<number>('requestTimeoutSeconds', 120)) * 1000,
+            maxRetries: Math.max(0, Math.floor(config.get<number>('maxRetries', 0))),
+            maxDelayMs: Math.max(0, config.get<number>('maxRetryDelaySeconds', 60)) * 1000
+        };
+    }
+
+    private getHeaderPresets(): Record<string, HeaderPreset[]> {
+        return vscode.workspace.getConfiguration('aiGatewayToolkit').get<Record<string, HeaderPreset[]>>(HEADER_PRESETS_SETTING) || {};
+    }
+
+    // Workspace settings when a folder is open so presets can be shared with the repo
+    private async updateHeaderPresets(presets: Record<string, HeaderPreset[]>): Promise<void> {
+        const target = vscode.workspace.workspaceFolders?.length
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await vscode.workspace.getConfiguration('aiGatewayToolkit').update(HEADER_PRESETS_SETTING, presets, target);
+    }
+
+    private sendHeaderPresets(panel: vscode.WebviewPanel): void {
+        panel.webview.postMessage({
+            type: 'headerPresetsData',
+            data: this.getHeaderPresets()
+        });
+    }
+
+    private async sendPriceCatalog(panel: vscode.WebviewPanel): Promise<void> {
+        panel.webview.postMessage({
+            type: 'priceCatalogData',
+            data: await this.priceLibrary.getCatalog()
+        });
+    }
+
+    private async saveHeaderPreset(panel: vscode.WebviewPanel, data: { apiId: string; preset: HeaderPreset }): Promise<void> {
+        try {
+            const name = await vscode.window.showInputBox({
+                prompt: `Enter a name for the header preset of API '${data.apiId}'`,
+                placeHolder: 'premium-tier',
+                value: data.preset.name
+            });
+
+            if (!name) {
+                return;
+            }
+
+            await this.updateHeaderPresets(upsertHeaderPreset(this.getHeaderPresets(), data.apiId, { ...data.preset, name }));
+            this.sendHeaderPresets(panel);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save header preset: ${error}`);
+        }
+    }
+
+    private async deleteHeaderPreset(panel: vscode.WebviewPanel, data: { apiId: string; name: string }): Promise<void> {
+        try {
+            await this.updateHeaderPresets(removeHeaderPreset(this.getHeaderPresets(), data.apiId, data.name));
+            this.sendHeaderPresets(panel);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete header preset: ${error}`);
+        }
+    }
+
+    // Rejects requests the gateway would refuse before any network call is made
+    private validatePlaygroundRequest(request: PlaygroundRequest): void {
+        if (!request.messages || request.messages.length === 0) {
+            throw new Error('The conversation has no messages to send');
+        }
+
+        const parameterIssues = validateModelParameters(request.sdk, request.inferenceApiType, request.parameters);
+        if (parameterIssues.length > 0) {
+            throw new Error(`Invalid model parameters: ${parameterIssues.map(issue => issue.message).join('; ')}`);
+        }
+
+        const toolChoice = request.toolChoice;
+        if (toolChoice && !TOOL_CHOICE_KEYWORDS.includes(toolChoice) && !(request.tools || []).some(tool => tool.name === toolChoice)) {
+            throw new Error(`Tool choice '${toolChoice}' does not match any defined tool`);
+        }
+
+        const responseFormatErrors = validateResponseFormat(request.responseFormat);
+        if (responseFormatErrors.length > 0) {
+            throw new Error(`Invalid response format: ${responseFormatErrors.join('; ')}`);
+        }
+
+        const headerErrors = validateCustomHeaders(Object.entries(request.customHeaders || {}).map(([key, value]) => ({ key, value, enabled: true })));
+        if (headerErrors.length > 0) {
+            throw new Error(`Invalid custom headers: ${headerErrors.join('; ')}`);
+        }
+
+        const responsesErrors = request.inferenceApiType === 'Responses API' ? validateResponsesOptions(request.responsesOptions) : [];
+        if (responsesErrors.length > 0) {
+            throw new Error(`Invalid Responses API options: ${responsesErrors.join('; ')}`);
+        }
+
+        const attachmentErrors = validateAttachments(request);
+        if (attachmentErrors.length > 0) {
+            throw new Error(`Invalid attachments: ${attachmentErrors.join('; ')}`);
+        }
+    }
+
+    // Looks up the gateway URLs and the credentials the request's auth mode needs
+    private async resolveGatewayTarget(request: Pick<PlaygroundRequest, 'apiId' | 'subscriptionId' | 'authMode' | 'entraAudience'>): Promise<GatewayTarget> {
+        const { apiId, subscriptionId, authMode } = request;
+
+        if (!this.azureService.isConnected()) {
+            throw new Error('Not connected to Azure API Management');
+        }
+
+        // Get the API details to find the gateway URL
+        const apis = await this.azureService.getApis();
+        const selectedApi = apis.find(api => api.id === apiId);
+        
+        if (!selectedApi) {
+            throw new Error(`API with ID ${apiId} not found`);
+        }
+
+        // Extract gateway URLs
+        const fullGatewayUrl = this.extractGatewayUrl(selectedApi);
+        const baseGatewayUrl = this.extractBaseGatewayUrl(selectedApi);
+
+        if (!fullGatewayUrl) {
+            throw new Error('Gateway URL not found for the selected API');
+        }
+
+        const target: GatewayTarget = { fullGatewayUrl, baseGatewayUrl };
+
+        if (usesSubscriptionKey(authMode)) {
+            // Get subscription key for authentication
+            const subscriptions = await this.azureService.getSubscriptions();
+            const selectedSubscription = subscriptions.find(sub => sub.id === subscriptionId);
+            
+            if (!selectedSubscription) {
+                throw new Error(`Subscription with ID ${subscriptionId} not found`);
+            }
+
+            const subscriptionKey = this.extractSubscriptionKey(selectedSubscription);
+            if (!subscriptionKey) {
+                throw new Error('Subscription key not found for the selected subscription');
+            }
+            target.subscriptionKey = subscriptionKey;
+        }
+
+        if (usesEntraToken(authMode)) {
+            const audience = request.entraAudience?.trim() || DEFAULT_ENTRA_AUDIENCE;
+            try {
+                target.accessToken = await this.azureService.getEntraAccessToken(audience);
+            } catch (error) {
+                throw new Error(`Failed to get a Microsoft Entra ID token for ${audience}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        return target;
+    }
+
+    private async callPlaygroundSdk(target: GatewayTarget, request: PlaygroundRequest, context: PlaygroundCallContext): Promise<any> {
+        const { fullGatewayUrl, baseGatewayUrl } = target;
+        const { sdk } = request;
+
+        console.log(`[Playground] Making API call with SDK: ${sdk}`);
+        console.log(`[Playground] Full Gateway URL: ${fullGatewayUrl}`);
+        console.log(`[Playground] Base Gateway URL: ${baseGatewayUrl}`);
+        console.log(`[Playground] Model: ${request.modelName}`);
+        console.log(`[Playground] Auth mode: ${request.authMode || 'subscription-key'}`);
+        console.log(`[Playground] Conversation length: ${request.messages.length} message(s)`);
+
+        // Make the API call based on the selected SDK
+        switch (sdk) {
+            case 'azure-openai':
+                // Azure OpenAI SDK expects base endpoint URL
+                return this.makeAzureOpenAIRequest(fullGatewayUrl, target, request, context);
+            case 'azure-ai-inference':
+                // Azure AI Inference uses full gateway URL with endpoint path
+                return this.makeAzureAIInferenceRequest(fullGatewayUrl, target, request, context);
+            case 'openai-compatible':
+                // OpenAI compatible uses full gateway URL with endpoint path
+                return this.makeOpenAICompatibleRequest(fullGatewayUrl, target, request, context);
+            default:
+                throw new Error(`Unsupported SDK: ${sdk}`);
+        }
+    }
+
+    // Time to first token only applies to streamed calls; tokens/sec falls back to chunk count when usage is missing
+    private applyStreamingMetrics(result: PlaygroundResponse, startTime: number, firstTokenTime: number | undefined, endTime: number): void {
+        if (firstTokenTime !== undefined) {
+            result.timeToFirstToken = firstTokenTime - startTime;
+        }
+
+        const completionTokens = result.tokens?.completion_tokens ?? result.streamedChunks;
+        const generationMs = endTime - (firstTokenTime ?? startTime);
+        if (completionTokens && generationMs > 0) {
+            result.tokensPerSecond = Math.round((completionTokens / generationMs) * 1000 * 10) / 10;
+        }
+    }
+
+    // Normalizes the SDK objects and the raw HTTP results into a single response shape
+    private toPlaygroundResponse(response: any, latency: number): PlaygroundResponse {
+        // Raw HTTP paths already extracted content, tokens and request/response data
+        if (response.rawResponse) {
+            return {
+                content: response.content,
+                additionalChoices: response.additionalChoices,
+                toolCalls: response.toolCalls,
+                streamed: response.streamed,
+                streamedChunks: response.streamedChunks,
+                tokens: response.tokens ? {
+                    prompt_tokens: response.tokens.prompt,
+                    completion_tokens: response.tokens.completion,
+                    total_tokens: response.tokens.total,
+                    cached_tokens: response.tokens.cached
+                } : undefined,
+                latency,
+                rawRequest: response.rawRequest,
+                rawResponse: response.rawResponse,
+                traceInfo: response.traceInfo,
+                responseHeaders: response.responseHeaders
+            };
+        }
+
+        const { traceInfo, responseHeaders, ...sdkResponse } = response;
+
+        let content = '';
+        let responsesOutput: ReturnType<typeof extractResponsesOutput> | undefined;
+        if (response.choices && response.choices.length > 0) {
+            content = response.choices[0].message?.content || '';
+        } else if (response.object === 'response' || Array.isArray(response.output)) {
+            // Responses API
+            responsesOutput = extractResponsesOutput(response);
+            content = responsesOutput.content;
+        }
+
+        const usage = response.usage;
+        const tokens = usage ? {
+            prompt_tokens: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+            completion_tokens: usage.completion_tokens ?? usage.output_tokens ?? 0,
+            total_tokens: usage.total_tokens ?? 0,
+            cached_tokens: getCachedTokens(usage)
+        } : undefined;
+
+        const toolCalls = extractToolCalls(response);
+        const additionalChoices = extractAdditionalChoices(response);
+
+        return {
+            content,
+            additionalChoices: additionalChoices.length > 0 ? additionalChoices : undefined,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            responseId: responsesOutput ? response.id : undefined,
+            reasoningSummary: responsesOutput?.reasoningSummary.length ? responsesOutput.reasoningSummary : undefined,
+            builtInToolCalls: responsesOutput?.builtInToolCalls.length ? responsesOutput.builtInToolCalls : undefined,
+            tokens,
+            latency,
+            streamed: response.streamed,
+            streamedChunks: response.streamedChunks,
+            rawRequest: undefined,
+            rawResponse: sdkResponse,
+            traceInfo,
+            responseHeaders
+        };
+    }
+
     private async sendApisToPlayground(panel: vscode.WebviewPanel): Promise<void> {
         try {
             if (!this.azureService.isConnected()) {
@@ -902,95 +2066,168 @@ export class WebviewService {
     }
 
     // API call implementations for different SDKs
-    private async makeAzureOpenAIRequest(gatewayUrl: string, subscriptionKey: string, modelName: string, prompt: string, instructions: string, stream: boolean, apiVersion: string, inferenceApiType: string): Promise<any> {
+    private async makeAzureOpenAIRequest(gatewayUrl: string, target: GatewayTarget, request: PlaygroundRequest, context: PlaygroundCallContext): Promise<any> {
+        const { stream, inferenceApiType } = request;
+        const client = this.createAzureOpenAIClient(gatewayUrl, target, request, context.headers);
 
-        gatewayUrl = gatewayUrl.replace('/openai', '');
-
-        const client = new AzureOpenAI({ endpoint: gatewayUrl, apiKey: subscriptionKey, apiVersion });
- 
-        let result: any;
+        let call: { data: any; response: Response };
 
         if (inferenceApiType === 'Responses API') {
             // Use responses.create for Responses API
-            result = await client.responses.create({
-                model: modelName,
-                input: prompt,
-                instructions: instructions,
-                stream: stream
-            });
+            call = await client.responses.create(buildResponsesPayload(request) as any, { signal: context.signal }).withResponse();
         } else {
-            const messages = [
-                    { role: "system" as const, content: instructions },
-                    { role: "user" as const, content: prompt }
-                ];
-
             // Use chat.completions.create for Chat Completions (default)
-            result = await client.chat.completions.create({
-                messages: messages,
-                model: modelName,
-                stream: stream
-            });
+            call = await client.chat.completions.create(buildChatCompletionsPayload(request) as any, { signal: context.signal }).withResponse();
+        }
+        context.onResponseStart?.();
+
+        // The SDK drops response headers from its result, so keep them alongside it
+        const traceInfo = toTraceInfo(name => call.response.headers.get(name));
+        const responseHeaders = toHeaderRecord(call.response.headers);
+
+        if (stream) {
+            return { ...await this.consumeSdkStream(call.data, context), traceInfo, responseHeaders };
         }
 
-        return result;
+        return { ...call.data, traceInfo, responseHeaders };
     }
 
-    private async makeAzureAIInferenceRequest(gatewayUrl: string, subscriptionKey: string, modelName: string, prompt: string, instructions: string, stream: boolean): Promise<any> {
-        const payload = {
-            messages: [
-                ...(instructions ? [{ role: 'system', content: instructions }] : []),
-                { role: 'user', content: prompt }
-            ],
-            model: modelName,
-            stream: stream
-        };
+    // Credentials go in default headers so every auth mode works; the SDK still insists on an
+    // apiKey, so its own api-key header is removed and replaced by ours
+    private createAzureOpenAIClient(gatewayUrl: string, target: GatewayTarget, request: Pick<PlaygroundRequest, 'apiVersion' | 'customHeaders' | 'queryParams'>, headers?: Record<string, string>): AzureOpenAI {
+        return new AzureOpenAI({
+            endpoint: toAzureOpenAIEndpoint(gatewayUrl),
+            apiKey: 'unused',
+            apiVersion: request.apiVersion,
+            // Retries are ours, so every attempt is recorded and honours the Playground timeout
+            maxRetries: 0,
+            defaultHeaders: {
+                'api-key': null,
+                ...buildAuthHeaders(target, ['api-key']),
+                ...request.customHeaders,
+                ...headers
+            },
+            defaultQuery: request.queryParams
+        });
+    }
+
+    // Same SDK paths as chat: the Azure OpenAI SDK, or plain HTTP for the AI Inference and OpenAI-compatible APIs
+    private async makeEmbeddingsRequest(target: GatewayTarget, request: EmbeddingsRequest, signal: AbortSignal): Promise<{ data: any; responseHeaders: Record<string, string> }> {
+        const payload = buildEmbeddingsPayload(request);
 
-        // Construct the full endpoint URL - if gatewayUrl already ends with the endpoint, don't append
-        let endpointUrl = gatewayUrl;
-        if (!gatewayUrl.endsWith('/chat/completions')) {
-            endpointUrl = gatewayUrl.endsWith('/') ? gatewayUrl + 'chat/completions' : gatewayUrl + '/chat/completions';
+        if (request.sdk === 'azure-openai') {
+            const client = this.createAzureOpenAIClient(target.fullGatewayUrl, target, request);
+            const call = await client.embeddings.create(payload as any, { signal }).withResponse();
+            return { data: call.data, responseHeaders: toHeaderRecord(call.response.headers) };
         }
 
-        return this.makeHttpRequest(endpointUrl, {
+        if (request.sdk !== 'azure-ai-inference' && request.sdk !== 'openai-compatible') {
+            throw new Error(`Unsupported SDK: ${request.sdk}`);
+        }
+
+        const keyHeaders = request.sdk === 'openai-compatible' ? ['Authorization', 'Ocp-Apim-Subscription-Key'] : ['Ocp-Apim-Subscription-Key'];
+        const response = await this.makeHttpRequest(getEmbeddingsEndpointUrl(target.fullGatewayUrl, request), {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Ocp-Apim-Subscription-Key': subscriptionKey
+                ...buildAuthHeaders(target, keyHeaders),
+                ...request.customHeaders
             },
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            signal,
+            raw: true
         });
+
+        const { statusCode, headers, body } = response.rawResponse;
+        if (!statusCode || statusCode < 200 || statusCode >= 300) {
+            throw createHttpError(statusCode, body, headers);
+        }
+        return { data: JSON.parse(body), responseHeaders: response.responseHeaders };
     }
 
-    private async makeOpenAICompatibleRequest(gatewayUrl: string, subscriptionKey: string, modelName: string, prompt: string, instructions: string, stream: boolean): Promise<any> {
-        const payload = {
-            model: modelName,
-            messages: [
-                ...(instructions ? [{ role: 'system', content: instructions }] : []),
-                { role: 'user', content: prompt }
-            ],
-            stream: stream
-        };
+    // Drains an SDK stream, forwarding deltas and rebuilding a non-streamed response object
+    private async consumeSdkStream(stream: AsyncIterable<any>, context: PlaygroundCallContext): Promise<any> {
+        const accumulator = new StreamAccumulator();
 
-        // Construct the full endpoint URL - if gatewayUrl already ends with the endpoint, don't append
-        let endpointUrl = gatewayUrl;
-        if (!gatewayUrl.includes('/v1/chat/completions') && !gatewayUrl.endsWith('/chat/completions')) {
-            if (gatewayUrl.includes('/v1')) {
-                // If it already has /v1 in the path, just append chat/completions
-                endpointUrl = gatewayUrl.endsWith('/') ? gatewayUrl + 'chat/completions' : gatewayUrl + '/chat/completions';
-            } else {
-                // Add the full /v1/chat/completions path
-                endpointUrl = gatewayUrl.endsWith('/') ? gatewayUrl + 'v1/chat/completions' : gatewayUrl + '/v1/chat/completions';
+        for await (const payload of stream) {
+            const delta = accumulator.apply(payload);
+            if (delta) {
+                context.onChunk(delta);
             }
         }
 
+        if (accumulator.response) {
+            return {
+                ...accumulator.response,
+                output_text: accumulator.content,
+                streamed: true,
+                streamedChunks: accumulator.chunkCount
+            };
+        }
+
+        return {
+            object: 'chat.completion',
+            choices: [{
+                index: 0,
+                message: omitUndefined({
+                    role: 'assistant',
+                    content: accumulator.content,
+                    tool_calls: accumulator.toolCalls.length > 0
+                        ? accumulator.toolCalls.map(toolCall => ({
+                            id: toolCall.id,
+                            type: 'function',
+                            function: { name: toolCall.name, arguments: toolCall.arguments }
+                        }))
+                        : undefined
+                }),
+                finish_reason: accumulator.finishReason
+            }, ...accumulator.additionalChoices.map((content, index) => ({
+                index: index + 1,
+                message: { role: 'assistant', content }
+            }))],
+            usage: accumulator.usage,
+            streamed: true,
+            streamedChunks: accumulator.chunkCount
+        };
+    }
+
+    private async makeAzureAIInferenceRequest(gatewayUrl: string, target: GatewayTarget, request: PlaygroundRequest, context: PlaygroundCallContext): Promise<any> {
+        const payload = buildChatCompletionsPayload(request);
+        const endpointUrl = getInferenceEndpointUrl(gatewayUrl, request);
+
         return this.makeHttpRequest(endpointUrl, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
-                'Authorization': `Bearer ${subscriptionKey}`,
-                'Ocp-Apim-Subscription-Key': subscriptionKey
+                ...buildAuthHeaders(target, ['Ocp-Apim-Subscription-Key']),
+                ...request.customHeaders,
+                ...context.headers
             },
-            body: JSON.stringify(payload)
+            body: JSON.stringify(payload),
+            stream: request.stream,
+            signal: context.signal,
+            onResponseStart: context.onResponseStart,
+            onChunk: context.onChunk
+        });
+    }
+
+    private async makeOpenAICompatibleRequest(gatewayUrl: string, target: GatewayTarget, request: PlaygroundRequest, context: PlaygroundCallContext): Promise<any> {
+        const payload = buildChatCompletionsPayload(request);
+        const endpointUrl = getInferenceEndpointUrl(gatewayUrl, request);
+
+        return this.makeHttpRequest(endpointUrl, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...buildAuthHeaders(target, ['Authorization', 'Ocp-Apim-Subscription-Key']),
+                ...request.customHeaders,
+                ...context.headers
+            },
+            body: JSON.stringify(payload),
+            stream: request.stream,
+            signal: context.signal,
+            onResponseStart: context.onResponseStart,
+            onChunk: context.onChunk
         });
     }
 
@@ -999,6 +2236,12 @@ export class WebviewService {
             const urlObj = new URL(url);
             const isHttps = urlObj.protocol === 'https:';
             const httpModule = isHttps ? https : http;
+            const signal: AbortSignal | undefined = options.signal;
+
+            if (signal?.aborted) {
+                reject(new Error('Request aborted'));
+                return;
+            }
 
             const requestOptions = {
                 hostname: urlObj.hostname,
@@ -1008,29 +2251,96 @@ export class WebviewService {
                 headers: options.headers
             };
 
+            const rawRequest = {
+                url: url,
+                method: options.method,
+                headers: options.headers,
+                body: options.body
+            };
+
             const req = httpModule.request(requestOptions, (res) => {
+                options.onResponseStart?.();
                 let data = '';
+                // Binary mode (raw only) keeps the bytes, e.g. for audio responses
+                const chunks: Buffer[] = [];
+                const isSuccess = !!res.statusCode && res.statusCode >= 200 && res.statusCode < 300;
+                const isEventStream = (res.headers['content-type'] || '').includes('text/event-stream');
+                // Raw mode keeps the body untouched, even for event streams
+                const streaming = !options.raw && isSuccess && (isEventStream || options.stream);
+                const parser = new SseParser();
+                const accumulator = new StreamAccumulator();
+                let streamError: Error | null = null;
+
+                const applyEvents = (events: ReturnType<SseParser['push']>) => {
+                    for (const event of events) {
+                        const delta = accumulator.applyEvent(event);
+                        if (delta && options.onChunk) {
+                            options.onChunk(delta);
+                        }
+                    }
+                };
                 
-                res.on('data', (chunk) => {
+                if (!options.binary) {
+                    res.setEncoding('utf8');
+                }
+                res.on('data', (chunk: string | Buffer) => {
+                    if (options.binary) {
+                        chunks.push(chunk as Buffer);
+                        return;
+                    }
                     data += chunk;
+                    if (streaming && !streamError) {
+                        try {
+                            applyEvents(parser.push(chunk as string));
+                        } catch (error) {
+                            streamError = error as Error;
+                            req.destroy(streamError);
+                        }
+                    }
                 });
                 
                 res.on('end', () => {
                     try {
-                        const rawRequest = {
-                            url: url,
-                            method: options.method,
-                            headers: options.headers,
-                            body: options.body
-                        };
-
                         const rawResponse = {
                             statusCode: res.statusCode,
                             headers: res.headers,
-                            body: data
+                            body: options.binary ? Buffer.concat(chunks) : data
                         };
 
-                        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+                        if (options.raw) {
+                            resolve({
+                                rawRequest: rawRequest,
+                                rawResponse: rawResponse,
+                                responseHeaders: toHeaderRecord(res.headers)
+                            });
+                            return;
+                        }
+
+                        const traceInfo = toTraceInfo(name => res.headers[name]);
+
+                        if (streaming) {
+                            applyEvents(parser.flush());
+                            const usage = accumulator.usage;
+                            const toolCalls = accumulator.toolCalls;
+                            const additionalChoices = accumulator.additionalChoices;
+                            resolve({
+                                content: accumulator.content,
+                                additionalChoices: additionalChoices.length > 0 ? additionalChoices : undefined,
+                                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                                tokens: usage ? {
+                                    prompt: usage.prompt_tokens ?? usage.input_tokens,
+                                    completion: usage.completion_tokens ?? usage.output_tokens,
+                                    total: usage.total_tokens,
+                                    cached: getCachedTokens(usage)
+                                } : null,
+                                streamed: true,
+                                streamedChunks: accumulator.chunkCount,
+                                rawRequest: rawRequest,
+                                rawResponse: rawResponse,
+                                traceInfo: traceInfo,
+                                responseHeaders: toHeaderRecord(res.headers)
+                            });
+                        } else if (isSuccess) {
                             const responseData = JSON.parse(data);
                             
                             // Extract content based on response structure
@@ -1052,33 +2362,49 @@ export class WebviewService {
                                 tokens = {
                                     prompt: responseData.usage.prompt_tokens,
                                     completion: responseData.usage.completion_tokens,
-                                    total: responseData.usage.total_tokens
+                                    total: responseData.usage.total_tokens,
+                                    cached: getCachedTokens(responseData.usage)
                                 };
                             }
 
+                            const toolCalls = extractToolCalls(responseData);
+                            const additionalChoices = extractAdditionalChoices(responseData);
                             resolve({
                                 content: content,
+                                additionalChoices: additionalChoices.length > 0 ? additionalChoices : undefined,
+                                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
                                 tokens: tokens,
                                 rawRequest: rawRequest,
                                 rawResponse: rawResponse,
-                                traceInfo: {
-                                    requestId: res.headers['x-request-id'] || res.headers['request-id'],
-                                    timestamp: new Date().toISOString()
-                                }
+                                traceInfo: traceInfo,
+                                responseHeaders: toHeaderRecord(res.headers)
                             });
                         } else {
-                            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
+                            reject(createHttpError(res.statusCode, data, res.headers));
                         }
                     } catch (error) {
                         reject(new Error(`Failed to parse response: ${error}`));
                     }
                 });
+
+                res.on('error', (error) => {
+                    reject(streamError || error);
+                });
             });
 
+            const onAbort = () => {
+                req.destroy(new Error('Request aborted'));
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
             req.on('error', (error) => {
                 reject(error);
             });
 
+            req.on('close', () => {
+                signal?.removeEventListener('abort', onAbort);
+            });
+
             if (options.body) {
                 req.write(options.body);
             }
@@ -1086,4 +2412,4 @@ export class WebviewService {
             req.end();
         });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import { parseApimTrace, parseElapsed } from '../services/apimTrace';
+
+suite('APIM Trace Test Suite', () => {
+	test('Parses TimeSpan elapsed values into milliseconds', () => {
+		assert.strictEqual(parseElapsed('00:00:00.0123456'), 12.35);
+		assert.strictEqual(parseElapsed('00:00:01.5'), 1500);
+		assert.strictEqual(parseElapsed('not a timespan'), undefined);
+	});
+
+	test('Extracts sections, backend and rewritten URL from a trace', () => {
+		const trace = parseApimTrace({
+			traceEntries: {
+				inbound: [
+					{ source: 'api-inspector', elapsed: '00:00:00.0010000', data: { request: { method: 'POST' } } },
+					{ source: 'set-backend-service', elapsed: '00:00:00.0020000', data: { message: 'Backend service URL was changed.', backendId: 'openai-pool' } },
+					{ source: 'rewrite-uri', elapsed: '00:00:00.0030000', data: { request: { url: 'https://aoai.example/openai/deployments/gpt-4o/chat/completions' } } }
+				],
+				backend: [
+					{ source: 'forward-request', elapsed: '00:00:00.4000000', data: { request: { url: 'https://eastus.example/openai/deployments/gpt-4o/chat/completions' } } }
+				],
+				outbound: [
+					{ source: 'transfer-response', elapsed: '00:00:00.4500000', data: 'Response headers have been sent to the caller.' }
+				]
+			}
+		});
+
+		assert.deepStrictEqual(trace.sections.map(section => section.name), ['inbound', 'backend', 'outbound']);
+		assert.strictEqual(trace.selectedBackend, 'openai-pool');
+		assert.strictEqual(trace.rewrittenUrl, 'https://aoai.example/openai/deployments/gpt-4o/chat/completions');
+		assert.strictEqual(trace.backendUrl, 'https://eastus.example/openai/deployments/gpt-4o/chat/completions');
+		assert.strictEqual(trace.sections[2].entries[0].message, 'Response headers have been sent to the caller.');
+		assert.strictEqual(trace.totalMs, 450);
+	});
+
+	test('Rejects payloads without trace entries', () => {
+		assert.throws(() => parseApimTrace({}));
+	});
+});
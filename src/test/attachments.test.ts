@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { MessageAttachment } from '../types';
+import { toChatCompletionContent, toResponsesContent, validateAttachments } from '../services/attachments';
+
+const image: MessageAttachment = { kind: 'image', name: 'cat.png', mimeType: 'image/png', dataUrl: 'data:image/png;base64,iVBORw0KGgo=', size: 8 };
+const pdf: MessageAttachment = { kind: 'file', name: 'report.pdf', mimeType: 'application/pdf', dataUrl: 'data:application/pdf;base64,JVBERi0=', size: 5 };
+
+suite('Attachments Test Suite', () => {
+	test('Keeps string content without attachments', () => {
+		assert.strictEqual(toChatCompletionContent({ content: 'Hello' }), 'Hello');
+		assert.strictEqual(toResponsesContent({ content: 'Hello', attachments: [] }), 'Hello');
+	});
+
+	test('Builds content parts for each API', () => {
+		assert.deepStrictEqual(toChatCompletionContent({ content: 'Describe this', attachments: [image] }), [
+			{ type: 'text', text: 'Describe this' },
+			{ type: 'image_url', image_url: { url: image.dataUrl } }
+		]);
+		assert.deepStrictEqual(toResponsesContent({ content: '', attachments: [image, pdf] }), [
+			{ type: 'input_image', image_url: image.dataUrl },
+			{ type: 'input_file', filename: 'report.pdf', file_data: pdf.dataUrl }
+		]);
+	});
+
+	test('Only accepts files with the Responses API', () => {
+		const messages = [{ role: 'user' as const, content: 'Summarize', attachments: [pdf] }];
+		assert.strictEqual(validateAttachments({ sdk: 'azure-openai', inferenceApiType: 'Responses API', messages }).length, 0);
+		assert.strictEqual(validateAttachments({ sdk: 'openai-compatible', inferenceApiType: 'Chat Completions', messages }).length, 1);
+	});
+});
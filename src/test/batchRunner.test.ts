@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { parseDataset, scoreOutput, runWithConcurrency } from '../services/batchRunner';
+
+suite('Batch Runner Test Suite', () => {
+	test('Parses JSONL prompts with expected answers', () => {
+		const { items, errors } = parseDataset('{"prompt":"2+2?","expected":"4"}\n\n"Say hi"\n{"nope":1}\n', 'data.jsonl');
+
+		assert.deepStrictEqual(items, [
+			{ id: '1', prompt: '2+2?', expected: '4' },
+			{ id: '2', prompt: 'Say hi', expected: undefined }
+		]);
+		assert.strictEqual(errors.length, 1);
+	});
+
+	test('Parses quoted CSV cells', () => {
+		const { items } = parseDataset('id,prompt,expected\r\na,"Hello, ""world""",x\r\na,"multi\nline",\r\n', 'data.csv');
+
+		assert.deepStrictEqual(items, [
+			{ id: 'a', prompt: 'Hello, "world"', expected: 'x' },
+			{ id: 'a-2', prompt: 'multi\nline', expected: undefined }
+		]);
+	});
+
+	test('Skips scorers that need an expected answer when there is none', () => {
+		const scores = scoreOutput('{"a":1}', undefined, [{ type: 'exact' }, { type: 'json' }]);
+
+		assert.deepStrictEqual(scores, [{ scorer: 'json', passed: true }]);
+	});
+
+	test('Applies exact, contains and regex scorers', () => {
+		const scorers = [{ type: 'exact' as const, ignoreCase: true }, { type: 'contains' as const }, { type: 'regex' as const, pattern: '^\\d+$' }];
+
+		assert.deepStrictEqual(scoreOutput(' 42 ', '42', scorers).map(score => score.passed), [true, true, false]);
+	});
+
+	test('Limits the number of workers in flight', async () => {
+		let inFlight = 0;
+		let peak = 0;
+		await runWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+			peak = Math.max(peak, ++inFlight);
+			await new Promise(resolve => setTimeout(resolve, 5));
+			inFlight--;
+		});
+
+		assert.strictEqual(peak, 2);
+	});
+});
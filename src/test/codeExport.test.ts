@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import { ACCESS_TOKEN_ENV_VAR, buildCodeExportSpec, generateCode, SUBSCRIPTION_KEY_ENV_VAR } from '../services/codeExport';
+import { PlaygroundRequest } from '../types';
+
+suite('Code Export Test Suite', () => {
+	const request: PlaygroundRequest = {
+		sdk: 'azure-openai',
+		apiId: 'openai',
+		modelName: 'gpt-4o',
+		subscriptionId: 'sub',
+		apiVersion: '2025-03-01-preview',
+		inferenceApiType: 'Chat Completions',
+		stream: false,
+		trace: false,
+		instructions: "Don't ramble",
+		messages: [{ role: 'user', content: 'Hi' }],
+		parameters: { temperature: 0.2 }
+	};
+	const gatewayUrl = 'https://contoso.azure-api.net/openai';
+
+	test('Targets the deployment endpoint the Azure OpenAI SDK calls', () => {
+		const spec = buildCodeExportSpec(request, gatewayUrl);
+
+		assert.strictEqual(spec.url, 'https://contoso.azure-api.net/openai/deployments/gpt-4o/chat/completions?api-version=2025-03-01-preview');
+		assert.deepStrictEqual(spec.keyHeaders, ['api-key']);
+		assert.strictEqual(spec.body.temperature, 0.2);
+	});
+
+	test('Uses the key placeholder and escapes quotes in curl', () => {
+		const code = generateCode('curl', buildCodeExportSpec(request, gatewayUrl));
+
+		assert.ok(code.includes(`-H "api-key: $${SUBSCRIPTION_KEY_ENV_VAR}"`));
+		assert.ok(code.includes(`Don'\\''t ramble`));
+	});
+
+	test('Writes Python literals for the request body', () => {
+		const code = generateCode('python-openai', buildCodeExportSpec(request, gatewayUrl));
+
+		assert.ok(code.includes('azure_endpoint="https://contoso.azure-api.net"'));
+		assert.ok(code.includes('stream=False,'));
+	});
+
+	test('Sends an Entra token placeholder as a bearer token', () => {
+		const spec = buildCodeExportSpec({ ...request, authMode: 'entra', entraAudience: 'api://gateway' }, gatewayUrl);
+		assert.deepStrictEqual(spec.keyHeaders, []);
+
+		const curl = generateCode('curl', spec);
+		assert.ok(curl.includes(`-H "Authorization: Bearer $${ACCESS_TOKEN_ENV_VAR}"`));
+		assert.ok(curl.includes('--resource api://gateway'));
+		assert.ok(!curl.includes(SUBSCRIPTION_KEY_ENV_VAR));
+		assert.ok(generateCode('python-openai', spec).includes(`azure_ad_token=os.environ["${ACCESS_TOKEN_ENV_VAR}"],`));
+		assert.ok(generateCode('typescript-openai', spec).includes(`azureADTokenProvider: async () => process.env.${ACCESS_TOKEN_ENV_VAR} ?? ""`));
+		assert.ok(generateCode('csharp', spec).includes('new AuthenticationHeaderValue("Bearer", accessToken)'));
+	});
+
+	test('Keeps the key beside the token and leaves Authorization to the token', () => {
+		const spec = buildCodeExportSpec({ ...request, sdk: 'openai-compatible', authMode: 'both' }, gatewayUrl);
+		assert.deepStrictEqual(spec.keyHeaders, ['Ocp-Apim-Subscription-Key']);
+
+		const http = generateCode('http', spec);
+		assert.ok(http.includes('Ocp-Apim-Subscription-Key: {{subscriptionKey}}'));
+		assert.ok(http.includes('Authorization: Bearer {{accessToken}}'));
+		assert.ok(generateCode('python-openai', spec).includes(`api_key=os.environ["${ACCESS_TOKEN_ENV_VAR}"],`));
+	});
+
+	test('Sends no credentials when the API needs none', () => {
+		const spec = buildCodeExportSpec({ ...request, authMode: 'none' }, gatewayUrl);
+
+		for (const format of ['curl', 'http', 'csharp'] as const) {
+			const code = generateCode(format, spec);
+			assert.ok(!code.includes(SUBSCRIPTION_KEY_ENV_VAR) && !code.includes(ACCESS_TOKEN_ENV_VAR), format);
+			assert.ok(!/api-key|Authorization:/.test(code), format);
+		}
+		assert.ok(!generateCode('python-openai', spec).includes('api_key='));
+	});
+});
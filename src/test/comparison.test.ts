@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+import { CompareResult, CompareTarget } from '../types';
+import { applyCompareMessage, buildCompareRequests, getCompareColumn } from '../services/comparison';
+
+const targets: CompareTarget[] = [
+	{ sdk: 'azure-openai', apiId: 'openai', modelName: 'gpt-4o', subscriptionId: 'team-alpha' },
+	{ sdk: 'azure-ai-inference', apiId: 'inference', modelName: 'gpt-4o-mini', subscriptionId: 'team-beta' },
+	{ sdk: 'openai-compatible', apiId: 'openai', modelName: 'gpt-4.1', subscriptionId: 'team-alpha' }
+];
+
+suite('Comparison Test Suite', () => {
+	test('Sends one request with the shared settings to each deployment', () => {
+		const requests = buildCompareRequests({ apiVersion: '2025-03-01-preview', stream: true, modelName: 'ignored' }, targets, 'Hello', 'run1');
+
+		assert.deepStrictEqual(requests.map(request => [request.sdk, request.apiId, request.modelName, request.subscriptionId]), targets.map(target => [target.sdk, target.apiId, target.modelName, target.subscriptionId]));
+		assert.deepStrictEqual(requests.map(request => request.requestId), ['cmp-run1-0', 'cmp-run1-1', 'cmp-run1-2']);
+		assert.deepStrictEqual(requests.map(request => getCompareColumn(request.requestId)), [0, 1, 2]);
+		assert.ok(requests.every(request => request.apiVersion === '2025-03-01-preview' && request.stream));
+		assert.ok(requests.every(request => request.messages.length === 1 && request.messages[0].content === 'Hello'));
+	});
+
+	test('Keeps the other results when one deployment fails', () => {
+		let results: Record<number, CompareResult> = Object.fromEntries(
+			buildCompareRequests({}, targets, 'Hello', 'run1').map((request, index) => [index, { requestId: request.requestId, status: 'running', content: '' }])
+		);
+
+		results = applyCompareMessage(results, { type: 'messageChunk', data: { requestId: 'cmp-run1-0', delta: 'Hi' } });
+		results = applyCompareMessage(results, { type: 'error', data: { requestId: 'cmp-run1-1', message: 'HTTP 429: Token limit is exceeded' } });
+		results = applyCompareMessage(results, { type: 'messageResponse', data: { requestId: 'cmp-run1-2', content: 'Hello!', latency: 120 } });
+
+		assert.deepStrictEqual(results[0], { requestId: 'cmp-run1-0', status: 'running', content: 'Hi' });
+		assert.strictEqual(results[1].status, 'error');
+		assert.strictEqual(results[1].error, 'HTTP 429: Token limit is exceeded');
+		assert.strictEqual(results[2].status, 'done');
+		assert.strictEqual(results[2].content, 'Hello!');
+	});
+
+	test('Ignores messages of earlier runs and other views', () => {
+		const results: Record<number, CompareResult> = { 0: { requestId: 'cmp-run2-0', status: 'running', content: '' } };
+
+		assert.strictEqual(applyCompareMessage(results, { type: 'error', data: { requestId: 'cmp-run1-0', message: 'late' } }), results);
+		assert.strictEqual(applyCompareMessage(results, { type: 'error', data: { requestId: 'req-1', message: 'chat' } }), results);
+		assert.strictEqual(applyCompareMessage(results, { type: 'error', data: { message: 'no request' } }), results);
+	});
+});
@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { cosineSimilarity, extractEmbeddings, getEmbeddingsEndpointUrl, similarityMatrix } from '../services/embeddings';
+
+suite('Embeddings Test Suite', () => {
+	test('Builds the embeddings endpoint for each SDK', () => {
+		const request = { modelName: 'text-embedding-3-small', apiVersion: '2024-10-21' };
+		assert.strictEqual(
+			getEmbeddingsEndpointUrl('https://contoso.azure-api.net/openai', { ...request, sdk: 'azure-openai' }),
+			'https://contoso.azure-api.net/openai/deployments/text-embedding-3-small/embeddings?api-version=2024-10-21'
+		);
+		assert.strictEqual(getEmbeddingsEndpointUrl('https://contoso.azure-api.net/models', { ...request, sdk: 'azure-ai-inference' }), 'https://contoso.azure-api.net/models/embeddings');
+		assert.strictEqual(getEmbeddingsEndpointUrl('https://contoso.azure-api.net/openai/v1/', { ...request, sdk: 'openai-compatible' }), 'https://contoso.azure-api.net/openai/v1/embeddings');
+	});
+
+	test('Orders vectors by index and reads usage', () => {
+		const { vectors, tokens } = extractEmbeddings({
+			data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }],
+			usage: { prompt_tokens: 6, total_tokens: 6 }
+		});
+		assert.deepStrictEqual(vectors, [[1, 0], [0, 1]]);
+		assert.deepStrictEqual(tokens, { prompt_tokens: 6, total_tokens: 6 });
+	});
+
+	test('Computes cosine similarity between inputs', () => {
+		assert.strictEqual(cosineSimilarity([1, 0], [0, 1]), 0);
+		assert.ok(Math.abs(cosineSimilarity([1, 2], [2, 4]) - 1) < 1e-9);
+		assert.strictEqual(cosineSimilarity([0, 0], [1, 1]), 0);
+		assert.deepStrictEqual(similarityMatrix([[1, 0], [0, 1]]), [[1, 0], [0, 1]]);
+	});
+});
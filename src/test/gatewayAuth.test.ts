@@ -0,0 +1,18 @@
+import * as assert from 'assert';
+import { buildAuthHeaders } from '../services/gatewayAuth';
+
+suite('Gateway Auth Test Suite', () => {
+	test('Sends the key in the SDK key headers and the Entra token as bearer', () => {
+		const keyHeaders = ['Authorization', 'Ocp-Apim-Subscription-Key'];
+
+		assert.deepStrictEqual(buildAuthHeaders({ subscriptionKey: 'key' }, keyHeaders), {
+			'Authorization': 'Bearer key',
+			'Ocp-Apim-Subscription-Key': 'key'
+		});
+		assert.deepStrictEqual(buildAuthHeaders({ subscriptionKey: 'key', accessToken: 'token' }, keyHeaders), {
+			'Authorization': 'Bearer token',
+			'Ocp-Apim-Subscription-Key': 'key'
+		});
+		assert.deepStrictEqual(buildAuthHeaders({}, keyHeaders), {});
+	});
+});
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import { decodeCacheHeader, describeGatewayHeaders, toHeaderRecord } from '../services/gatewayHeaders';
+
+suite('Gateway Headers Test Suite', () => {
+	test('Normalizes node and fetch header shapes', () => {
+		assert.deepStrictEqual(toHeaderRecord({ 'X-Cache': 'HIT', 'set-cookie': ['a=1', 'b=2'] }), { 'x-cache': 'HIT', 'set-cookie': 'a=1, b=2' });
+		assert.deepStrictEqual(toHeaderRecord(new Map([['Retry-After', '5']])), { 'retry-after': '5' });
+	});
+
+	test('Decodes and orders recognized AI gateway headers', () => {
+		const headers = describeGatewayHeaders({
+			'content-type': 'application/json',
+			'x-policy-region': 'eastus',
+			'x-semantic-cache': 'HIT',
+			'retry-after': '12',
+			'x-ratelimit-remaining-tokens': '9500',
+			'x-custom-policy': 'on'
+		});
+
+		assert.deepStrictEqual(headers.map(header => header.category), ['rate-limit', 'retry', 'cache', 'routing', 'policy', 'http']);
+		assert.strictEqual(headers[0].decoded, '9,500 tokens left in the current window');
+		assert.strictEqual(headers[1].decoded, 'Retry in 12s');
+		assert.strictEqual(headers[2].decoded, 'Served from cache');
+	});
+
+	test('Decodes cache header values to a hit or a miss', () => {
+		assert.strictEqual(decodeCacheHeader('HIT'), 'hit');
+		assert.strictEqual(decodeCacheHeader('miss; score=0.2'), 'miss');
+		assert.strictEqual(decodeCacheHeader('no-store'), undefined);
+	});
+});
@@ -0,0 +1,73 @@
+import * as assert from 'assert';
+import { LoadTestSample } from '../types';
+import { DEFAULT_LOAD_TEST_CONFIG, bucketLoadTestSamples, buildLoadTestPrompt, readRateLimitHeaders, runLoadSchedule, summarizeLoadTest, validateLoadTestConfig } from '../services/loadTest';
+
+const samples: LoadTestSample[] = [
+	{ index: 0, offsetMs: 0, latency: 300, statusCode: 200, totalTokens: 120, remainingTokens: 880 },
+	{ index: 1, offsetMs: 500, latency: 320, statusCode: 200, totalTokens: 120, remainingTokens: 760 },
+	{ index: 2, offsetMs: 1000, latency: 20, statusCode: 429, retryAfterMs: 42000, error: 'HTTP 429: Token limit is exceeded' },
+	{ index: 3, offsetMs: 1500, latency: 500, statusCode: 500, error: 'HTTP 500: Internal error' }
+];
+
+suite('Load Test Test Suite', () => {
+	test('Validates the burst settings', () => {
+		assert.deepStrictEqual(validateLoadTestConfig(DEFAULT_LOAD_TEST_CONFIG), []);
+		assert.strictEqual(validateLoadTestConfig({ ...DEFAULT_LOAD_TEST_CONFIG, requestsPerSecond: 500, concurrency: 0 }).length, 2);
+	});
+
+	test('Builds distinct prompts of roughly the requested size', () => {
+		const prompt = buildLoadTestPrompt(100, 7);
+		assert.ok(prompt.startsWith('Request 7:'));
+		assert.notStrictEqual(prompt, buildLoadTestPrompt(100, 8));
+		assert.ok(Math.abs(prompt.split(' ').length - 100) < 10);
+	});
+
+	test('Reads rate limit headers', () => {
+		assert.deepStrictEqual(readRateLimitHeaders({ 'x-ratelimit-remaining-tokens': '880', 'retry-after': '42' }), {
+			remainingTokens: 880,
+			remainingRequests: undefined,
+			retryAfterMs: 42000
+		});
+	});
+
+	test('Buckets responses per second', () => {
+		assert.deepStrictEqual(bucketLoadTestSamples(samples), [
+			{ second: 0, accepted: 2, throttled: 0, errors: 0, remainingTokens: 760 },
+			{ second: 1, accepted: 0, throttled: 1, errors: 1, retryAfterSeconds: 42 }
+		]);
+	});
+
+	test('Reports the tokens accepted before the first 429', () => {
+		const summary = summarizeLoadTest(samples, 1);
+		assert.strictEqual(summary.accepted, 2);
+		assert.strictEqual(summary.throttled, 1);
+		assert.strictEqual(summary.errors, 1);
+		assert.strictEqual(summary.skipped, 1);
+		assert.strictEqual(summary.firstThrottleSecond, 1);
+		assert.strictEqual(summary.tokensBeforeFirstThrottle, 240);
+	});
+
+	test('Skips ticks while every concurrency slot is busy', async () => {
+		const result = await runLoadSchedule(
+			{ ...DEFAULT_LOAD_TEST_CONFIG, requestsPerSecond: 50, durationSeconds: 0.2, concurrency: 1 },
+			new AbortController().signal,
+			() => new Promise(resolve => setTimeout(resolve, 50))
+		);
+		assert.strictEqual(result.started + result.skipped, 10);
+		assert.ok(result.skipped > 0);
+	});
+
+	test('Stops between ticks as soon as the run is aborted', async () => {
+		const controller = new AbortController();
+		const startTime = Date.now();
+		setTimeout(() => controller.abort(), 20);
+
+		const result = await runLoadSchedule(
+			{ ...DEFAULT_LOAD_TEST_CONFIG, requestsPerSecond: 1, durationSeconds: 10, concurrency: 1 },
+			controller.signal,
+			() => Promise.resolve()
+		);
+		assert.deepStrictEqual(result, { started: 1, skipped: 0 });
+		assert.ok(Date.now() - startTime < 500);
+	});
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { buildImageGenerationPayload, buildMultipartBody, extractGeneratedImages, getMediaEndpointUrl } from '../services/mediaRequests';
+
+suite('Media Requests Test Suite', () => {
+	test('Builds image and audio endpoints', () => {
+		const request = { sdk: 'azure-openai', modelName: 'gpt-image-1', apiVersion: '2025-04-01-preview' };
+		assert.strictEqual(
+			getMediaEndpointUrl('https://contoso.azure-api.net/openai', request, 'images/generations'),
+			'https://contoso.azure-api.net/openai/deployments/gpt-image-1/images/generations?api-version=2025-04-01-preview'
+		);
+		assert.strictEqual(
+			getMediaEndpointUrl('https://contoso.azure-api.net/openai', { ...request, sdk: 'openai-compatible' }, 'audio/speech'),
+			'https://contoso.azure-api.net/openai/v1/audio/speech'
+		);
+		assert.throws(() => getMediaEndpointUrl('https://contoso.azure-api.net/models', { ...request, sdk: 'azure-ai-inference' }, 'audio/transcriptions'));
+	});
+
+	test('Asks DALL·E for base64 images only', () => {
+		assert.strictEqual(buildImageGenerationPayload({ modelName: 'dall-e-3', prompt: 'A cat', size: '1024x1024' }).response_format, 'b64_json');
+		assert.ok(!('response_format' in buildImageGenerationPayload({ modelName: 'gpt-image-1', prompt: 'A cat', size: '1024x1024' })));
+		assert.deepStrictEqual(extractGeneratedImages({ data: [{ b64_json: 'iVBO', revised_prompt: 'A grey cat' }] }), [{ b64Json: 'iVBO', revisedPrompt: 'A grey cat' }]);
+	});
+
+	test('Encodes multipart form data', () => {
+		const { body, contentType } = buildMultipartBody(
+			{ model: 'whisper', language: undefined },
+			{ fieldName: 'file', fileName: 'clip.wav', mimeType: 'audio/wav', content: new Uint8Array([1, 2]) },
+			'boundary'
+		);
+		const text = body.toString('latin1');
+		assert.strictEqual(contentType, 'multipart/form-data; boundary=boundary');
+		assert.ok(text.includes('name="model"\r\n\r\nwhisper\r\n'));
+		assert.ok(!text.includes('name="language"'));
+		assert.ok(text.includes('filename="clip.wav"\r\nContent-Type: audio/wav\r\n\r\n\u0001\u0002\r\n--boundary--'));
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { MockGatewayServer } from '../services/mockGateway';
+import { MockDataSource } from '../services/mockDataSource';
+import { parseApimTrace } from '../services/apimTrace';
+
+const now = new Date('2026-03-02T12:00:00Z');
+const lastWeek = { timeRange: { start: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000), end: now } };
+
+suite('Mock Data Source Test Suite', () => {
+	let server: MockGatewayServer;
+	let source: MockDataSource;
+
+	setup(async () => {
+		server = new MockGatewayServer({ latencyMs: 0 });
+		await server.start(0);
+		source = new MockDataSource(server, now);
+	});
+
+	teardown(async () => {
+		await server.stop();
+	});
+
+	test('Lists APIs on the mock server and subscriptions whose keys it accepts', async () => {
+		const apis = await source.getApis();
+		assert.deepStrictEqual(apis.map(api => api.gatewayUrl), ['openai', 'models', 'v1'].map(path => `${server.url}/${path}`));
+
+		const [subscription] = await source.getSubscriptions();
+		assert.strictEqual(server.options.subscriptionKeys?.[subscription.primaryKey], subscription.name);
+
+		await source.createSubscription('demo', 'Demo', '/apis');
+		const created = (await source.getSubscriptions()).find(item => item.name === 'demo')!;
+		assert.strictEqual(server.options.subscriptionKeys?.[created.secondaryKey], 'demo');
+		await assert.rejects(source.createSubscription('demo', 'Demo', '/apis'));
+	});
+
+	test('Builds the same analytics on every start', async () => {
+		const other = new MockDataSource(server, now);
+		assert.deepStrictEqual(await source.getAnalyticsSummary(lastWeek), await other.getAnalyticsSummary(lastWeek));
+
+		const summary = await source.getAnalyticsSummary(lastWeek);
+		const models = await source.getModelsFromLogs(lastWeek);
+		assert.ok(summary.totalRequests > 100);
+		assert.strictEqual(models.reduce((sum, model) => sum + model.requestCount, 0), summary.totalRequests);
+		assert.ok(models[0].totalTokens >= models[models.length - 1].totalTokens);
+		assert.strictEqual((await source.getBackendsFromLogs(lastWeek)).length, 2);
+	});
+
+	test('Breaks token usage down for pricing', async () => {
+		const breakdown = await source.getTokenUsageBreakdown(lastWeek);
+		const summary = await source.getAnalyticsSummary(lastWeek);
+		assert.strictEqual(breakdown.reduce((sum, row) => sum + row.requestCount, 0), summary.totalRequests);
+		assert.strictEqual(breakdown.reduce((sum, row) => sum + row.promptTokens, 0), summary.promptTokens);
+		assert.deepStrictEqual([...new Set(breakdown.map(row => row.region))].sort(), ['East US', 'Sweden Central']);
+	});
+
+	test('Filters logs and bins the usage trend', async () => {
+		const logs = await source.getLogs({ ...lastWeek, modelNames: ['gpt-4o'] }, 10);
+		assert.strictEqual(logs.length, 10);
+		assert.ok(logs.every(log => log.modelName === 'gpt-4o'));
+		assert.ok(logs[0].timestamp >= logs[9].timestamp);
+
+		const lastDay = { timeRange: { start: new Date(now.getTime() - 24 * 60 * 60 * 1000), end: now } };
+		const trend = await source.getUsageTrend(lastDay);
+		assert.strictEqual(trend.length, 25);
+		assert.strictEqual(
+			trend.reduce((sum, point) => sum + point.totalTokens, 0),
+			(await source.getAnalyticsSummary(lastDay)).totalTokens
+		);
+	});
+
+	test('Includes live requests in logs, cache records and traces', async () => {
+		const [subscription] = await source.getSubscriptions();
+		const response = await fetch(`${server.url}/openai/deployments/gpt-4o/chat/completions`, {
+			method: 'POST',
+			headers: { 'api-key': subscription.primaryKey, 'Apim-Debug-Authorization': await source.getDebugTraceToken('mock-azure-openai') },
+			body: JSON.stringify({ messages: [{ role: 'user', content: 'Hello' }] })
+		});
+		const correlationId = response.headers.get('x-correlation-id')!;
+		const live = { timeRange: { start: new Date(Date.now() - 60000), end: new Date(Date.now() + 60000) } };
+
+		const [log] = await source.getLogs(live);
+		assert.strictEqual(log.correlationId, correlationId);
+		assert.strictEqual(log.subscriptionName, subscription.name);
+
+		const [record] = await source.getCacheLogRecords([correlationId], live.timeRange);
+		assert.strictEqual(record.promptTokens, log.promptTokens);
+
+		const trace = parseApimTrace(await source.getTrace(response.headers.get('apim-trace-id')!));
+		assert.ok(trace.backendUrl?.endsWith('/deployments/gpt-4o/chat/completions'));
+		await assert.rejects(source.getTrace('missing'));
+	});
+});
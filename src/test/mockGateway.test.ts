@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import { MockGatewayServer, buildMockReply, getMockPromptText, mockEmbedding } from '../services/mockGateway';
+import { SseParser, StreamAccumulator } from '../services/streamParser';
+import { cosineSimilarity } from '../services/embeddings';
+import { getRetryAfterMs } from '../services/retryPolicy';
+
+const chatBody = (content: string, extra: Record<string, any> = {}) => JSON.stringify({ messages: [{ role: 'user', content }], ...extra });
+
+async function post(url: string, body: string, headers: Record<string, string> = {}): Promise<Response> {
+	return fetch(url, { method: 'POST', headers: { 'content-type': 'application/json', 'api-key': 'test', ...headers }, body });
+}
+
+async function readStream(response: Response): Promise<StreamAccumulator> {
+	const parser = new SseParser();
+	const accumulator = new StreamAccumulator();
+	for (const event of [...parser.push(await response.text()), ...parser.flush()]) {
+		accumulator.applyEvent(event);
+	}
+	return accumulator;
+}
+
+suite('Mock Gateway Test Suite', () => {
+	let server: MockGatewayServer;
+	let url: string;
+
+	setup(async () => {
+		server = new MockGatewayServer({ latencyMs: 0 }, () => 0.5);
+		url = await server.start(0);
+	});
+
+	teardown(async () => {
+		await server.stop();
+	});
+
+	test('Reads prompts and cuts replies to max tokens', () => {
+		assert.strictEqual(getMockPromptText({ messages: [{ content: 'a' }, { content: [{ type: 'text', text: 'b' }] }] }), 'a\nb');
+		assert.strictEqual(getMockPromptText({ instructions: 'Be brief', input: [{ role: 'user', content: [{ type: 'input_text', text: 'Hi' }] }] }), 'Be brief\nHi');
+		assert.deepStrictEqual(buildMockReply('Hello', 'gpt-4o', 2), { text: 'This is ', truncated: true });
+	});
+
+	test('Answers chat completions under each API path', async () => {
+		for (const path of ['/openai/deployments/gpt-4o/chat/completions?api-version=2024-10-21', '/models/chat/completions', '/v1/chat/completions']) {
+			const response = await post(`${url}${path}`, chatBody('Hello', { model: 'gpt-4o' }));
+			const body = await response.json();
+			assert.strictEqual(response.status, 200, path);
+			assert.ok(body.choices[0].message.content.includes('gpt-4o'));
+			assert.ok(body.usage.total_tokens > 0);
+			assert.ok(response.headers.get('x-correlation-id'));
+		}
+		assert.strictEqual((await post(`${url}/other`, '{}')).status, 404);
+		assert.strictEqual(server.getRecords().length, 3);
+	});
+
+	test('Streams chat completions and Responses events the stream parser understands', async () => {
+		const chat = await readStream(await post(`${url}/v1/chat/completions`, chatBody('Hello', { model: 'gpt-4o', stream: true })));
+		assert.ok(chat.content.startsWith('This is a mock reply from gpt-4o'));
+		assert.strictEqual(chat.finishReason, 'stop');
+		assert.ok(chat.usage.total_tokens > 0);
+
+		const responses = await readStream(await post(`${url}/openai/responses?api-version=preview`, JSON.stringify({ model: 'gpt-4o', input: 'Hello', stream: true })));
+		assert.strictEqual(responses.content, responses.response.output[0].content[0].text);
+		assert.strictEqual(responses.finishReason, 'completed');
+	});
+
+	test('Stores Responses for previous_response_id, retrieval and deletion', async () => {
+		const first = await (await post(`${url}/v1/responses`, JSON.stringify({ model: 'gpt-4o', input: 'Hello' }))).json();
+		const second = await post(`${url}/v1/responses`, JSON.stringify({ model: 'gpt-4o', input: 'Again', previous_response_id: first.id }));
+		assert.ok((await second.json()).usage.input_tokens > first.usage.total_tokens);
+		assert.strictEqual((await fetch(`${url}/v1/responses/${first.id}`)).status, 200);
+		assert.strictEqual((await fetch(`${url}/v1/responses/${first.id}`, { method: 'DELETE' })).status, 200);
+		assert.strictEqual((await post(`${url}/v1/responses`, JSON.stringify({ input: 'x', previous_response_id: first.id }))).status, 400);
+	});
+
+	test('Returns embeddings where paraphrases are closer than unrelated text', async () => {
+		const body = await (await post(`${url}/models/embeddings`, JSON.stringify({ input: ['What is the capital of France?', 'Tell me the capital of France', 'Write a poem'], dimensions: 64 }))).json();
+		const [a, b, c] = body.data.map((item: any) => item.embedding);
+		assert.strictEqual(a.length, 64);
+		assert.ok(cosineSimilarity(a, b) > cosineSimilarity(a, c));
+		assert.deepStrictEqual(mockEmbedding('same text'), mockEmbedding('Same text!'));
+	});
+
+	test('Throttles over the token budget with retry-after and rate limit headers', async () => {
+		server.options.tokensPerMinute = 10;
+		const accepted = await post(`${url}/v1/chat/completions`, chatBody('Hello'));
+		assert.strictEqual(accepted.status, 200);
+		assert.ok(Number(accepted.headers.get('x-ratelimit-remaining-tokens')) < 10);
+
+		const throttled = await post(`${url}/v1/chat/completions`, chatBody('Hello'));
+		assert.strictEqual(throttled.status, 429);
+		const retryAfterMs = getRetryAfterMs({ 'retry-after-ms': throttled.headers.get('retry-after-ms')! });
+		assert.ok(retryAfterMs !== undefined && retryAfterMs > 0 && retryAfterMs <= 60000);
+		assert.strictEqual(server.getRecords()[1].promptTokens, 0);
+	});
+
+	test('Simulates failures, forced statuses and subscription keys', async () => {
+		assert.strictEqual((await post(`${url}/v1/chat/completions`, chatBody('Hi'), { 'x-mock-status': '503' })).status, 503);
+		server.options.errorRate = 1;
+		assert.strictEqual((await post(`${url}/v1/chat/completions`, chatBody('Hi'))).status, 500);
+		server.options.errorRate = 0;
+
+		server.options.subscriptionKeys = { 'good-key': 'team-alpha' };
+		assert.strictEqual((await post(`${url}/v1/chat/completions`, chatBody('Hi'))).status, 401);
+		assert.strictEqual((await post(`${url}/v1/chat/completions`, chatBody('Hi'), { 'api-key': 'good-key' })).status, 200);
+		assert.strictEqual(server.getRecords().pop()?.subscriptionName, 'team-alpha');
+	});
+
+	test('Serves similar non-streamed prompts from the simulated semantic cache', async () => {
+		server.options.cacheScoreThreshold = 0.2;
+		const miss = await post(`${url}/v1/chat/completions`, chatBody('What is the capital of France today'));
+		const hit = await post(`${url}/v1/chat/completions`, chatBody('what is the capital of France today?'));
+		const other = await post(`${url}/v1/chat/completions`, chatBody('Write a poem about the sea'));
+		assert.deepStrictEqual(
+			[miss, hit, other].map(response => response.headers.get('x-semantic-cache')),
+			['MISS', 'HIT', 'MISS']
+		);
+	});
+
+	test('Keeps only the most recent history', async () => {
+		server.options.historyLimit = 2;
+		const ids: string[] = [];
+		for (const prompt of ['one', 'two', 'three']) {
+			ids.push((await (await post(`${url}/v1/responses`, JSON.stringify({ model: 'gpt-4o', input: prompt }))).json()).id);
+		}
+
+		assert.deepStrictEqual(server.getRecords().map(record => record.prompt), ['two', 'three']);
+		assert.strictEqual((await fetch(`${url}/v1/responses/${ids[0]}`)).status, 404);
+		assert.strictEqual((await fetch(`${url}/v1/responses/${ids[2]}`)).status, 200);
+	});
+
+	test('Records a policy trace when debug tracing is requested', async () => {
+		const response = await post(`${url}/openai/deployments/gpt-4o/chat/completions`, chatBody('Hi'), { 'Apim-Debug-Authorization': 'token' });
+		const trace = server.getTrace(response.headers.get('apim-trace-id')!);
+		assert.strictEqual(trace.traceEntries.inbound[1].data.backendId, 'eastus.mock-openai.local');
+	});
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import { getSupportedParameters, toChatCompletionParameters, toResponsesParameters, validateModelParameters } from '../services/modelParameters';
+
+suite('Model Parameters Test Suite', () => {
+	test('Flags parameters the selected SDK cannot send', () => {
+		assert.ok(getSupportedParameters('azure-openai', 'Chat Completions').includes('n'));
+		assert.ok(!getSupportedParameters('azure-openai', 'Responses API').includes('n'));
+
+		const issues = validateModelParameters('azure-ai-inference', 'Chat Completions', { n: 2, reasoningEffort: 'low', stop: [] });
+		assert.deepStrictEqual(issues.map(issue => issue.parameter), ['n', 'reasoningEffort']);
+		assert.match(issues[0].message, /not supported by azure-ai-inference/);
+		assert.match(validateModelParameters('azure-openai', 'Responses API', { seed: 1 })[0].message, /not supported by Responses API/);
+	});
+
+	test('Checks ranges, whole numbers and conflicting limits', () => {
+		const messages = (parameters: Parameters<typeof validateModelParameters>[2]) =>
+			validateModelParameters('openai-compatible', 'Chat Completions', parameters).map(issue => issue.message);
+
+		assert.deepStrictEqual(messages({ temperature: 1, topP: 0.5, n: 2, seed: 7, stop: ['a', ''] }), []);
+		assert.deepStrictEqual(messages({ temperature: 2.5 }), ['Temperature must be between 0 and 2']);
+		assert.deepStrictEqual(messages({ topP: NaN }), ['Top P must be between 0 and 1']);
+		assert.deepStrictEqual(messages({ maxTokens: 1.5 }), ['Max tokens must be a positive whole number']);
+		assert.deepStrictEqual(messages({ n: 129 }), ['Choices (n) cannot be more than 128']);
+		assert.deepStrictEqual(messages({ seed: 0.5 }), ['Seed must be a whole number']);
+		assert.deepStrictEqual(messages({ stop: ['a', 'b', 'c', 'd', 'e'] }), ['At most 4 stop sequences are allowed']);
+		assert.deepStrictEqual(messages({ maxTokens: 10, maxCompletionTokens: 10 }), ['Set either max tokens or max completion tokens, not both']);
+	});
+
+	test('Maps parameters onto the Chat Completions and Responses wire formats', () => {
+		const parameters = { temperature: 0, topP: 0.9, maxCompletionTokens: 100, stop: ['', 'END'], n: 2, reasoningEffort: 'high' as const };
+
+		assert.deepStrictEqual(toChatCompletionParameters(parameters), {
+			temperature: 0,
+			top_p: 0.9,
+			max_completion_tokens: 100,
+			stop: ['END'],
+			n: 2,
+			reasoning_effort: 'high'
+		});
+		assert.deepStrictEqual(toChatCompletionParameters({ stop: [''] }), {});
+		assert.deepStrictEqual(toResponsesParameters(parameters), { temperature: 0, top_p: 0.9, max_output_tokens: 100, reasoning: { effort: 'high' } });
+	});
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import * as React from 'react';
+import { renderToString } from 'react-dom/server';
+import Playground from '../webview/components/Playground';
+
+// The webview API the panel's script provides as a global
+const webview = globalThis as typeof globalThis & { vscode?: Window['vscode'] };
+
+// Server rendering runs the component body without a webview, so a crash during render fails here instead of showing a blank panel
+suite('Playground Test Suite', () => {
+	setup(() => {
+		webview.vscode = { postMessage: () => undefined, getState: () => undefined, setState: () => undefined };
+	});
+
+	teardown(() => {
+		delete webview.vscode;
+	});
+
+	test('Renders the chat view', () => {
+		const html = renderToString(React.createElement(Playground));
+		assert.match(html, /Type your message here/);
+	});
+});
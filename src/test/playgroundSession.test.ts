@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { parsePlaygroundSession, redactSession, redactUrl } from '../services/playgroundSession';
+
+suite('Playground Session Test Suite', () => {
+	test('Rejects files without settings and messages', () => {
+		assert.ok(parsePlaygroundSession('{"messages":[]}').error);
+		assert.ok(parsePlaygroundSession('not json').error);
+	});
+
+	test('Redacts credentials from raw requests', () => {
+		const { session } = parsePlaygroundSession(JSON.stringify({
+			version: 1,
+			savedAt: '2025-01-01T00:00:00.000Z',
+			settings: {},
+			messages: [{
+				id: '1',
+				rawRequest: {
+					url: 'https://contoso.azure-api.net/openai/chat?api-version=1&subscription-key=secret',
+					headers: { 'Ocp-Apim-Subscription-Key': 'secret', 'Content-Type': 'application/json' }
+				},
+				requestSettings: { customHeaders: { Authorization: 'Bearer secret', 'x-tenant': 'a' }, queryParams: { 'api-key': 'secret' } }
+			}]
+		}));
+
+		const redacted = redactSession(session!);
+
+		assert.deepStrictEqual(redacted.messages[0].rawRequest.headers, {
+			'Ocp-Apim-Subscription-Key': '<redacted>',
+			'Content-Type': 'application/json'
+		});
+		assert.strictEqual(redacted.messages[0].rawRequest.url, 'https://contoso.azure-api.net/openai/chat?api-version=1&subscription-key=<redacted>');
+		assert.deepStrictEqual(redacted.messages[0].requestSettings.customHeaders, { Authorization: '<redacted>', 'x-tenant': 'a' });
+		assert.deepStrictEqual(redacted.messages[0].requestSettings.queryParams, { 'api-key': '<redacted>' });
+	});
+
+	test('Redacts credentials from custom headers, query parameters and raw HTTP drafts', () => {
+		const { session } = parsePlaygroundSession(JSON.stringify({
+			settings: {
+				customHeaders: [{ key: 'api-key', value: 'secret', enabled: true }, { key: 'x-priority', value: 'high', enabled: true }],
+				queryParams: [{ key: 'Subscription-Key', value: 'secret', enabled: false }],
+				rawHttp: { method: 'GET', path: '/models?api-key=secret#top', headers: [{ key: 'Authorization', value: 'Bearer secret', enabled: true }], body: '' }
+			},
+			messages: []
+		}));
+
+		const { settings } = redactSession(session!);
+
+		assert.deepStrictEqual(settings.customHeaders.map(pair => pair.value), ['<redacted>', 'high']);
+		assert.strictEqual(settings.queryParams[0].value, '<redacted>');
+		assert.strictEqual(settings.rawHttp?.path, '/models?api-key=<redacted>#top');
+		assert.strictEqual(settings.rawHttp?.headers[0].value, '<redacted>');
+	});
+
+	test('Leaves URLs without key parameters untouched', () => {
+		assert.strictEqual(redactUrl('/chat?api-version=2024-10-21&monkey=1'), '/chat?api-version=2024-10-21&monkey=1');
+		assert.strictEqual(redactUrl('/chat'), '/chat');
+	});
+});
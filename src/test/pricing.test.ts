@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { ModelPrice } from '../types';
+import { calculateCost, findModelPrice, formatCost, getCachedTokens, mergePriceCatalog, parsePriceFile, summarizeCosts } from '../services/pricing';
+
+const prices: ModelPrice[] = [
+	{ model: 'gpt-4o', inputPricePerMillion: 2.5, cachedInputPricePerMillion: 1.25, outputPricePerMillion: 10 },
+	{ model: 'gpt-4o', region: 'Sweden Central', inputPricePerMillion: 2.75, outputPricePerMillion: 11 },
+	{ model: 'gpt-4o-mini', inputPricePerMillion: 0.15, outputPricePerMillion: 0.6 }
+];
+
+suite('Pricing Test Suite', () => {
+	test('Matches the longest model prefix and prefers the region', () => {
+		assert.strictEqual(findModelPrice(prices, 'gpt-4o-mini-2024-07-18')?.inputPricePerMillion, 0.15);
+		assert.strictEqual(findModelPrice(prices, 'GPT-4o-2024-08-06')?.inputPricePerMillion, 2.5);
+		assert.strictEqual(findModelPrice(prices, 'gpt-4o', 'swedencentral')?.inputPricePerMillion, 2.75);
+		assert.strictEqual(findModelPrice(prices, 'gpt-4o', 'East US')?.inputPricePerMillion, 2.5);
+		assert.strictEqual(findModelPrice(prices, 'llama-3'), undefined);
+	});
+
+	test('Bills cached prompt tokens at the cached input price', () => {
+		assert.strictEqual(calculateCost(prices[0], { promptTokens: 1_000_000, completionTokens: 100_000 }), 3.5);
+		assert.strictEqual(calculateCost(prices[0], { promptTokens: 1_000_000, completionTokens: 0, cachedTokens: 400_000 }), 2);
+		assert.strictEqual(calculateCost(prices[1], { promptTokens: 1_000_000, completionTokens: 0, cachedTokens: 400_000 }), 2.75);
+		assert.strictEqual(getCachedTokens({ prompt_tokens_details: { cached_tokens: 5 } }), 5);
+		assert.strictEqual(getCachedTokens({ input_tokens_details: { cached_tokens: 7 } }), 7);
+		assert.strictEqual(getCachedTokens(undefined), undefined);
+	});
+
+	test('Validates the workspace price file', () => {
+		assert.deepStrictEqual(parsePriceFile('{"currency":"EUR","prices":[{"model":"gpt-4o","inputPricePerMillion":2,"outputPricePerMillion":8}]}').currency, 'EUR');
+		assert.match(parsePriceFile('{"prices":[{"model":"gpt-4o","inputPricePerMillion":-1}]}').error!, /inputPricePerMillion.*outputPricePerMillion/);
+		assert.match(parsePriceFile('[]').error!, /JSON object/);
+		assert.match(parsePriceFile('{').error!, /not valid JSON/);
+	});
+
+	test('Keeps file and settings prices apart when their currencies differ', () => {
+		const settings = { currency: 'USD', prices: [prices[2]] };
+		const filePrice: ModelPrice = { model: 'gpt-4o', inputPricePerMillion: 2.3, outputPricePerMillion: 9.2 };
+
+		assert.deepStrictEqual(mergePriceCatalog(settings, { currency: 'EUR', prices: [filePrice] }), { currency: 'EUR', prices: [filePrice] });
+		assert.deepStrictEqual(mergePriceCatalog(settings, { currency: 'USD', prices: [filePrice] }), { currency: 'USD', prices: [filePrice, prices[2]] });
+		assert.deepStrictEqual(mergePriceCatalog(settings, { prices: [filePrice] }), { currency: 'USD', prices: [filePrice, prices[2]] });
+	});
+
+	test('Sums costs per model, backend and subscription and lists unpriced models', () => {
+		const row = { region: 'East US', backendName: 'eastus', completionTokens: 0, requestCount: 1 };
+		const costs = summarizeCosts([
+			{ ...row, modelName: 'gpt-4o', subscriptionName: 'team-alpha', promptTokens: 1_000_000 },
+			{ ...row, modelName: 'gpt-4o-mini', subscriptionName: 'team-beta', promptTokens: 1_000_000 },
+			{ ...row, modelName: 'llama-3', subscriptionName: 'team-beta', promptTokens: 1_000_000 }
+		], prices);
+
+		assert.strictEqual(costs.total, 2.65);
+		assert.deepStrictEqual(costs.byModel, { 'gpt-4o': 2.5, 'gpt-4o-mini': 0.15 });
+		assert.strictEqual(costs.byBackend.eastus, 2.65);
+		assert.deepStrictEqual(costs.bySubscription.map(item => [item.subscriptionName, item.cost, item.requestCount]), [['team-alpha', 2.5, 1], ['team-beta', 0.15, 2]]);
+		assert.deepStrictEqual(costs.unpricedModels, ['llama-3']);
+	});
+
+	test('Formats costs with their currency', () => {
+		assert.strictEqual(formatCost(12.5, 'USD'), '$12.50');
+		assert.strictEqual(formatCost(0.000123, 'EUR'), '€0.000123');
+		assert.strictEqual(formatCost(1, 'credits'), '1.00 credits');
+	});
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { extractTemplateVariables, renderTemplate, parsePromptTemplate, toTemplateFileName } from '../services/promptTemplates';
+
+suite('Prompt Templates Test Suite', () => {
+	test('Extracts variables from instructions and prompt in order', () => {
+		const variables = extractTemplateVariables({
+			instructions: 'Answer in {{ language }}.',
+			prompt: 'Summarize {{ticket}} for {{language}}'
+		});
+
+		assert.deepStrictEqual(variables, ['language', 'ticket']);
+	});
+
+	test('Leaves unfilled placeholders in place', () => {
+		assert.strictEqual(renderTemplate('{{a}} and {{ b }}', { a: 'x', b: '' }), 'x and {{ b }}');
+	});
+
+	test('Requires a prompt and falls back to the file name', () => {
+		assert.ok(parsePromptTemplate('{"name":"x"}', 'file').error);
+		assert.strictEqual(parsePromptTemplate('{"prompt":"hi"}', 'file').template?.name, 'file');
+	});
+
+	test('Builds file names from template names', () => {
+		assert.strictEqual(toTemplateFileName('Summarize Ticket!'), 'summarize-ticket.prompt.json');
+	});
+});
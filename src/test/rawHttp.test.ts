@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { buildRawHttpUrl, fillExamplePath, formatRawBody } from '../services/rawHttp';
+
+suite('Raw HTTP Test Suite', () => {
+	test('Joins relative paths to the gateway URL', () => {
+		assert.strictEqual(
+			buildRawHttpUrl('https://contoso.azure-api.net/openai/', '/deployments/gpt-4o/embeddings?api-version=2024-10-21'),
+			'https://contoso.azure-api.net/openai/deployments/gpt-4o/embeddings?api-version=2024-10-21'
+		);
+		assert.throws(() => buildRawHttpUrl('https://contoso.azure-api.net/openai', 'https://example.com/steal'));
+	});
+
+	test('Fills example placeholders and formats bodies', () => {
+		assert.strictEqual(
+			fillExamplePath('deployments/{model}/embeddings?api-version={apiVersion}', 'text-embedding-3-small', '2024-10-21'),
+			'deployments/text-embedding-3-small/embeddings?api-version=2024-10-21'
+		);
+		assert.deepStrictEqual(formatRawBody('{"ok":true}'), { text: '{\n  "ok": true\n}', isJson: true });
+		assert.deepStrictEqual(formatRawBody('data: [DONE]'), { text: 'data: [DONE]', isJson: false });
+	});
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { appendQueryParams, removeHeaderPreset, toKeyValueRecord, upsertHeaderPreset, validateCustomHeaders } from '../services/requestOptions';
+
+suite('Request Options Test Suite', () => {
+	test('Sends only enabled entries with a key', () => {
+		assert.deepStrictEqual(toKeyValueRecord([
+			{ key: ' x-tenant-id ', value: 'contoso', enabled: true },
+			{ key: 'x-priority', value: 'high', enabled: false },
+			{ key: '', value: 'orphan', enabled: true }
+		]), { 'x-tenant-id': 'contoso' });
+		assert.strictEqual(toKeyValueRecord([]), undefined);
+	});
+
+	test('Flags invalid, reserved and duplicate headers', () => {
+		const errors = validateCustomHeaders([
+			{ key: 'bad header', value: '', enabled: true },
+			{ key: 'Content-Type', value: 'text/plain', enabled: true },
+			{ key: 'x-tier', value: 'a', enabled: true },
+			{ key: 'X-Tier', value: 'b', enabled: true }
+		]);
+		assert.strictEqual(errors.length, 3);
+	});
+
+	test('Appends query parameters to existing ones', () => {
+		assert.strictEqual(
+			appendQueryParams('https://contoso.azure-api.net/openai/responses?api-version=2025-03-01-preview', { tier: 'gold' }),
+			'https://contoso.azure-api.net/openai/responses?api-version=2025-03-01-preview&tier=gold'
+		);
+	});
+
+	test('Replaces presets by name and drops empty APIs', () => {
+		const preset = { name: 'gold', headers: [], queryParams: [] };
+		const presets = upsertHeaderPreset(upsertHeaderPreset({}, 'openai', preset), 'openai', { ...preset, headers: [{ key: 'x-tier', value: 'gold', enabled: true }] });
+		assert.strictEqual(presets.openai.length, 1);
+		assert.strictEqual(presets.openai[0].headers.length, 1);
+		assert.deepStrictEqual(removeHeaderPreset(presets, 'openai', 'gold'), {});
+	});
+});
@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { ChatMessage, PlaygroundRequest } from '../types';
+import { buildChatCompletionsPayload, buildResponsesPayload } from '../services/requestPayloads';
+
+// A conversation with a mid-conversation system message and a tool round trip
+const history: ChatMessage[] = [
+	{ role: 'user', content: 'What is the weather in Paris?' },
+	{ role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' }] },
+	{ role: 'tool', content: '{"temperature":21}', toolCallId: 'call_1' },
+	{ role: 'assistant', content: 'It is 21 degrees in Paris.' },
+	{ role: 'system', content: 'Answer in French from now on.' },
+	{ role: 'user', content: 'And tomorrow?' }
+];
+
+suite('Request Payloads Test Suite', () => {
+	const request: PlaygroundRequest = {
+		sdk: 'azure-openai',
+		apiId: 'openai',
+		modelName: 'gpt-4o',
+		subscriptionId: 'sub',
+		apiVersion: '2025-03-01-preview',
+		inferenceApiType: 'Chat Completions',
+		stream: false,
+		trace: false,
+		instructions: 'You are a weather assistant.',
+		messages: history
+	};
+
+	test('Sends the whole Chat Completions history in order after the instructions', () => {
+		const { messages } = buildChatCompletionsPayload(request);
+
+		assert.deepStrictEqual(messages.map((message: any) => message.role), ['system', 'user', 'assistant', 'tool', 'assistant', 'system', 'user']);
+		assert.deepStrictEqual(messages[0], { role: 'system', content: 'You are a weather assistant.' });
+		assert.deepStrictEqual(messages[2], {
+			role: 'assistant',
+			content: null,
+			tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+		});
+		assert.deepStrictEqual(messages[3], { role: 'tool', content: '{"temperature":21}', tool_call_id: 'call_1' });
+		assert.deepStrictEqual(messages[5], { role: 'system', content: 'Answer in French from now on.' });
+	});
+
+	test('Sends the whole Responses history as input items with the instructions alongside', () => {
+		const payload = buildResponsesPayload({ ...request, inferenceApiType: 'Responses API' });
+
+		assert.strictEqual(payload.instructions, 'You are a weather assistant.');
+		assert.deepStrictEqual(payload.input.map((item: any) => item.role || item.type), ['user', 'function_call', 'function_call_output', 'assistant', 'system', 'user']);
+		assert.deepStrictEqual(payload.input[1], { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' });
+		assert.deepStrictEqual(payload.input[2], { type: 'function_call_output', call_id: 'call_1', output: '{"temperature":21}' });
+	});
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { DEFAULT_RESPONSES_OPTIONS, extractResponsesOutput, findChainStart, toResponsesBuiltInTools, validateResponsesOptions } from '../services/responsesApi';
+
+suite('Responses API Test Suite', () => {
+	test('Reads text, reasoning and built-in tool calls from output items', () => {
+		const output = extractResponsesOutput({
+			object: 'response',
+			output: [
+				{ type: 'reasoning', summary: [{ type: 'summary_text', text: 'Looked up the forecast' }] },
+				{ type: 'web_search_call', id: 'ws_1', status: 'completed', action: { query: 'weather Lisbon' } },
+				{ type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{}' },
+				{ type: 'message', content: [{ type: 'output_text', text: 'Sunny, ' }, { type: 'output_text', text: '24°C' }] }
+			]
+		});
+		assert.strictEqual(output.content, 'Sunny, 24°C');
+		assert.deepStrictEqual(output.reasoningSummary, ['Looked up the forecast']);
+		assert.deepStrictEqual(output.builtInToolCalls, [{ type: 'web_search_call', id: 'ws_1', status: 'completed', detail: 'weather Lisbon' }]);
+	});
+
+	test('Chains from the latest stored assistant turn', () => {
+		const messages = [
+			{ role: 'user' },
+			{ role: 'assistant', responseId: 'resp_1' },
+			{ role: 'user' },
+			{ role: 'assistant' },
+			{ role: 'user' }
+		];
+		assert.deepStrictEqual(findChainStart(messages), { previousResponseId: 'resp_1', startIndex: 2 });
+		assert.deepStrictEqual(findChainStart([{ role: 'user' }]), { startIndex: 0 });
+	});
+
+	test('Builds built-in tools and checks their options', () => {
+		const options = { ...DEFAULT_RESPONSES_OPTIONS, builtInTools: ['file_search' as const, 'code_interpreter' as const], vectorStoreIds: ['vs_1', ' '] };
+		assert.deepStrictEqual(toResponsesBuiltInTools(options), [
+			{ type: 'file_search', vector_store_ids: ['vs_1'] },
+			{ type: 'code_interpreter', container: { type: 'auto' } }
+		]);
+		assert.strictEqual(validateResponsesOptions({ ...options, vectorStoreIds: [] }).length, 1);
+		assert.strictEqual(validateResponsesOptions({ ...DEFAULT_RESPONSES_OPTIONS, store: false, chainTurns: true }).length, 1);
+	});
+});
@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { RequestAttempt } from '../types';
+import { createHttpError, getRetryAfterMs, getRetryDelayMs, runWithRetries } from '../services/retryPolicy';
+
+suite('Retry Policy Test Suite', () => {
+	test('Prefers retry-after-ms over retry-after', () => {
+		assert.strictEqual(getRetryAfterMs({ 'retry-after-ms': '250', 'retry-after': '5' }), 250);
+		assert.strictEqual(getRetryAfterMs({ 'retry-after': '2' }), 2000);
+		assert.strictEqual(getRetryAfterMs({ 'retry-after': new Date(10_000).toUTCString() }, 7_000), 3000);
+		assert.strictEqual(getRetryAfterMs({ 'retry-after': 'soon' }), undefined);
+		assert.strictEqual(getRetryAfterMs(undefined), undefined);
+	});
+
+	test('Backs off exponentially without a retry-after header and caps the delay', () => {
+		assert.strictEqual(getRetryDelayMs(new Error('HTTP 503'), 0, 60_000), 1000);
+		assert.strictEqual(getRetryDelayMs(new Error('HTTP 503'), 3, 60_000), 8000);
+		assert.strictEqual(getRetryDelayMs(createHttpError(429, 'busy', { 'Retry-After': '120' }), 0, 30_000), 30_000);
+	});
+
+	test('Retries throttled calls and records every attempt', async () => {
+		const attempts: RequestAttempt[] = [];
+		let calls = 0;
+		const result = await runWithRetries(async () => {
+			calls++;
+			if (calls < 3) {
+				throw createHttpError(429, 'Rate limit exceeded', { 'retry-after-ms': '0' });
+			}
+			return 'ok';
+		}, { timeoutMs: 0, maxRetries: 3, maxDelayMs: 1000 }, new AbortController().signal, attempts);
+
+		assert.strictEqual(result, 'ok');
+		assert.deepStrictEqual(attempts.map(attempt => attempt.statusCode), [429, 429, 200]);
+		assert.strictEqual(attempts[0].retryDelayMs, 0);
+	});
+
+	test('Does not retry client errors or calls that may not be repeated', async () => {
+		const attempts: RequestAttempt[] = [];
+		await assert.rejects(
+			runWithRetries(async () => { throw createHttpError(400, 'Bad request'); }, { timeoutMs: 0, maxRetries: 3, maxDelayMs: 0 }, new AbortController().signal, attempts),
+			/HTTP 400/
+		);
+		assert.strictEqual(attempts.length, 1);
+
+		const streamed: RequestAttempt[] = [];
+		await assert.rejects(
+			runWithRetries(async () => { throw createHttpError(500, 'Oops'); }, { timeoutMs: 0, maxRetries: 3, maxDelayMs: 0 }, new AbortController().signal, streamed, () => false),
+			/HTTP 500/
+		);
+		assert.strictEqual(streamed.length, 1);
+	});
+
+	test('Aborts an attempt that runs past the timeout', async () => {
+		const attempts: RequestAttempt[] = [];
+		await assert.rejects(
+			runWithRetries(signal => new Promise((_, reject) => {
+				signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+			}), { timeoutMs: 20, maxRetries: 0, maxDelayMs: 0 }, new AbortController().signal, attempts),
+			/Timed out after/
+		);
+		assert.strictEqual(attempts.length, 1);
+	});
+
+	test('Stops the timeout once the response starts', async () => {
+		const result = await runWithRetries((signal, onResponseStart) => new Promise((resolve, reject) => {
+			signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+			onResponseStart();
+			setTimeout(() => resolve('streamed'), 60);
+		}), { timeoutMs: 20, maxRetries: 0, maxDelayMs: 0 }, new AbortController().signal, []);
+
+		assert.strictEqual(result, 'streamed');
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { SemanticCacheResult } from '../types';
+import { applyCacheLogRecords, buildThresholdReport, classifyByLatency, getCacheStatusFromHeaders, getCorrelationId, summarizeCacheRun } from '../services/semanticCache';
+
+const tokens = (total: number) => ({ prompt_tokens: total - 10, completion_tokens: 10, total_tokens: total });
+
+suite('Semantic Cache Test Suite', () => {
+	test('Reads the cache status and correlation ID from response headers', () => {
+		assert.strictEqual(getCacheStatusFromHeaders({ 'x-semantic-cache': 'HIT' }), 'hit');
+		assert.strictEqual(getCacheStatusFromHeaders({ 'x-cache-status': 'miss' }), 'miss');
+		assert.strictEqual(getCacheStatusFromHeaders({ 'cache-control': 'no-cache' }), undefined);
+		assert.strictEqual(getCorrelationId({ 'x-correlation-id': 'abc-123' }), 'abc-123');
+		assert.strictEqual(getCorrelationId(undefined), undefined);
+	});
+
+	test('Estimates hits from latency only against a baseline', () => {
+		assert.strictEqual(classifyByLatency(100, 1000), 'hit');
+		assert.strictEqual(classifyByLatency(900, 1000), 'miss');
+		assert.strictEqual(classifyByLatency(100, undefined), 'unknown');
+	});
+
+	test('Prefers gateway log records over estimates', () => {
+		const results: SemanticCacheResult[] = [
+			{ index: 1, prompt: 'a', latency: 900, correlationId: 'c1', cacheStatus: 'miss', cacheSource: 'latency' },
+			{ index: 2, prompt: 'b', latency: 100, correlationId: 'c2', cacheStatus: 'hit', cacheSource: 'latency' }
+		];
+		const updated = applyCacheLogRecords(results, [
+			{ correlationId: 'c1', backendTime: 0, promptTokens: 20, completionTokens: 5 },
+			{ correlationId: 'c2', cache: 'miss', backendTime: 80 }
+		]);
+		assert.deepStrictEqual(updated.map(result => [result.cacheStatus, result.cacheSource]), [['hit', 'log'], ['miss', 'log']]);
+		assert.deepStrictEqual(updated[0].tokens, { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 });
+	});
+
+	test('Summarizes latency saved and tokens avoided by hits', () => {
+		const summary = summarizeCacheRun([
+			{ index: 0, prompt: 'original', latency: 1000, tokens: tokens(50), cacheStatus: 'unknown' },
+			{ index: 1, prompt: 'hit', latency: 100, tokens: tokens(50), cacheStatus: 'hit' },
+			{ index: 2, prompt: 'miss', latency: 1100, tokens: tokens(48), cacheStatus: 'miss' },
+			{ index: 3, prompt: 'failed', cacheStatus: 'unknown', error: 'HTTP 500' }
+		]);
+		assert.deepStrictEqual(summary, { hits: 1, misses: 1, unknown: 0, latencySavedMs: 900, tokensAvoided: 50 });
+	});
+
+	test('Compares observed hits with the score threshold', () => {
+		const report = buildThresholdReport([
+			{ index: 0, prompt: 'original', similarity: 1, cacheStatus: 'miss' },
+			{ index: 1, prompt: 'close', similarity: 0.98, cacheStatus: 'hit' },
+			{ index: 2, prompt: 'far', similarity: 0.9, cacheStatus: 'miss' },
+			{ index: 3, prompt: 'closer than expected', similarity: 0.93, cacheStatus: 'hit' }
+		], 0.05);
+		assert.deepStrictEqual(report.rows.map(row => row.expectedHit), [true, false, false]);
+		assert.strictEqual(report.mismatches, 1);
+		assert.ok(Math.abs(report.largestHitDistance! - 0.07) < 1e-9);
+		assert.ok(Math.abs(report.smallestMissDistance! - 0.1) < 1e-9);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { SseParser, StreamAccumulator, extractAdditionalChoices } from '../services/streamParser';
+
+suite('Stream Parser Test Suite', () => {
+	test('Parses events split across network chunks', () => {
+		const parser = new SseParser();
+
+		assert.deepStrictEqual(parser.push('data: {"a"'), []);
+		const events = parser.push(':1}\r\n\r\nevent: done\ndata: [DONE]\n\n');
+
+		assert.strictEqual(events.length, 2);
+		assert.strictEqual(events[0].data, '{"a":1}');
+		assert.strictEqual(events[1].event, 'done');
+		assert.strictEqual(events[1].data, '[DONE]');
+	});
+
+	test('Flushes a trailing event without a blank line', () => {
+		const parser = new SseParser();
+		parser.push('data: tail');
+
+		assert.deepStrictEqual(parser.flush(), [{ event: undefined, data: 'tail', id: undefined }]);
+	});
+
+	test('Accumulates Chat Completions chunks and usage', () => {
+		const accumulator = new StreamAccumulator();
+
+		assert.strictEqual(accumulator.applyEvent({ data: '{"choices":[{"delta":{"content":"Hel"}}]}' }), 'Hel');
+		accumulator.applyEvent({ data: '{"choices":[{"delta":{"content":"lo"},"finish_reason":"stop"}]}' });
+		accumulator.applyEvent({ data: '{"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":2,"total_tokens":5}}' });
+		accumulator.applyEvent({ data: '[DONE]' });
+
+		assert.strictEqual(accumulator.content, 'Hello');
+		assert.strictEqual(accumulator.finishReason, 'stop');
+		assert.strictEqual(accumulator.usage.total_tokens, 5);
+		assert.strictEqual(accumulator.chunkCount, 2);
+	});
+
+	test('Keeps each choice separate when n > 1', () => {
+		const accumulator = new StreamAccumulator();
+
+		assert.strictEqual(accumulator.apply({ choices: [{ index: 1, delta: { content: 'B' } }] }), '');
+		assert.strictEqual(accumulator.apply({ choices: [{ index: 0, delta: { content: 'A' } }] }), 'A');
+		accumulator.apply({ choices: [{ index: 2, delta: { content: 'C' } }, { index: 1, delta: { content: 'b' } }] });
+
+		assert.strictEqual(accumulator.content, 'A');
+		assert.deepStrictEqual(accumulator.additionalChoices, ['Bb', 'C']);
+		assert.deepStrictEqual(extractAdditionalChoices({
+			choices: [{ index: 2, message: { content: 'C' } }, { index: 0, message: { content: 'A' } }, { index: 1, message: { content: 'B' } }]
+		}), ['B', 'C']);
+	});
+
+	test('Accumulates Responses API events', () => {
+		const accumulator = new StreamAccumulator();
+
+		accumulator.apply({ type: 'response.output_text.delta', delta: 'Hi' });
+		accumulator.apply({ type: 'response.completed', response: { status: 'completed', usage: { input_tokens: 4, output_tokens: 1 } } });
+
+		assert.strictEqual(accumulator.content, 'Hi');
+		assert.strictEqual(accumulator.response.status, 'completed');
+		assert.strictEqual(accumulator.usage.output_tokens, 1);
+	});
+
+	test('Throws on stream error events', () => {
+		const accumulator = new StreamAccumulator();
+
+		assert.throws(() => accumulator.apply({ type: 'error', message: 'rate limited' }), /rate limited/);
+	});
+});
@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { validateResponseFormat, validateStructuredOutput, toResponsesTextFormat } from '../services/structuredOutput';
+
+suite('Structured Output Test Suite', () => {
+	const format = {
+		type: 'json_schema' as const,
+		name: 'person',
+		strict: true,
+		schema: {
+			type: 'object',
+			properties: { name: { type: 'string' }, age: { type: 'integer' } },
+			required: ['name', 'age'],
+			additionalProperties: false
+		}
+	};
+
+	test('Accepts content matching the schema', () => {
+		assert.deepStrictEqual(validateStructuredOutput('{"name":"Ada","age":36}', format), { valid: true, violations: [] });
+	});
+
+	test('Reports schema violations with their paths', () => {
+		const result = validateStructuredOutput('{"name":"Ada","age":"old","extra":1}', format);
+
+		assert.strictEqual(result?.valid, false);
+		assert.ok(result?.violations.some(violation => violation.path === '/age'));
+		assert.ok(result?.violations.some(violation => violation.message.includes("'extra'")));
+	});
+
+	test('Validates a schema with an $id on every request', () => {
+		const withId = { ...format, schema: { ...format.schema, $id: 'https://example.com/person.json' } };
+
+		for (let send = 0; send < 2; send++) {
+			assert.deepStrictEqual(validateResponseFormat(withId), []);
+			assert.deepStrictEqual(validateStructuredOutput('{"name":"Ada","age":36}', withId), { valid: true, violations: [] });
+		}
+	});
+
+	test('Flags content that is not JSON', () => {
+		const result = validateStructuredOutput('Sure! Here is the JSON', { type: 'json_object' });
+
+		assert.strictEqual(result?.valid, false);
+		assert.strictEqual(result?.violations[0].path, '');
+	});
+
+	test('Skips validation for plain text', () => {
+		assert.strictEqual(validateStructuredOutput('hello', { type: 'text' }), undefined);
+	});
+
+	test('Rejects schemas without a valid name', () => {
+		assert.strictEqual(validateResponseFormat({ ...format, name: 'has spaces' }).length, 1);
+	});
+
+	test('Flattens json_schema for the Responses API', () => {
+		assert.deepStrictEqual(toResponsesTextFormat(format), {
+			format: { type: 'json_schema', name: 'person', schema: format.schema, strict: true }
+		});
+	});
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { addMessageTokens, countTextTokens, estimatePromptTokens, getEstimateDrift, getModelTokenProfile, getTokenBudgetWarnings } from '../services/tokenCount';
+
+suite('Token Count Test Suite', () => {
+	test('Matches model and deployment names to a tokenizer and context window', () => {
+		assert.deepStrictEqual(getModelTokenProfile('gpt-4o-mini'), { encoding: 'o200k_base', contextWindow: 128_000, approximate: false });
+		assert.strictEqual(getModelTokenProfile('prod-gpt-4.1').contextWindow, 1_047_576);
+		assert.strictEqual(getModelTokenProfile('o3-mini').contextWindow, 200_000);
+		assert.strictEqual(getModelTokenProfile('gpt-35-turbo').encoding, 'cl100k_base');
+		assert.strictEqual(getModelTokenProfile('gpt-4').contextWindow, 8_192);
+		assert.deepStrictEqual(getModelTokenProfile('Llama-3.3-70B-Instruct'), { encoding: 'o200k_base', approximate: true });
+	});
+
+	test('Counts text with each encoding and treats special tokens as text', () => {
+		assert.strictEqual(countTextTokens('hello world', 'o200k_base'), 2);
+		assert.strictEqual(countTextTokens('hello world', 'cl100k_base'), 2);
+		assert.ok(countTextTokens('a <|endoftext|>', 'o200k_base') > 1);
+	});
+
+	test('Adds chat overhead, instructions and tool definitions to the prompt estimate', () => {
+		const messages = [{ role: 'user' as const, content: 'hello world' }];
+		const bare = estimatePromptTokens('gpt-4o', undefined, messages);
+		assert.strictEqual(bare.tokens, 3 + 3 + countTextTokens('user', 'o200k_base') + 2);
+
+		const withInstructions = estimatePromptTokens('gpt-4o', 'Be brief', messages);
+		assert.ok(withInstructions.tokens > bare.tokens + 3);
+
+		const withTools = estimatePromptTokens('gpt-4o', undefined, messages, [{ name: 'get_weather', parameters: { type: 'object' } }]);
+		assert.ok(withTools.tokens > bare.tokens);
+
+		const image = { kind: 'image' as const, name: 'a.png', mimeType: 'image/png', dataUrl: 'data:image/png;base64,AAAA', size: 3 };
+		assert.strictEqual(estimatePromptTokens('gpt-4o', undefined, [{ ...messages[0], attachments: [image] }]).uncountedAttachments, 1);
+	});
+
+	test('Adds a draft message to an estimate as if it were counted with the conversation', () => {
+		const history = [{ role: 'user' as const, content: 'hello world' }, { role: 'assistant' as const, content: 'Hi there' }];
+		const draft = { role: 'user' as const, content: 'What is the AI Gateway?' };
+		const expected = estimatePromptTokens('gpt-4', 'Be brief', [...history, draft]);
+
+		assert.deepStrictEqual(addMessageTokens(estimatePromptTokens('gpt-4', 'Be brief', history), draft), expected);
+	});
+
+	test('Warns about the context window, the token limit and the remaining tokens', () => {
+		const estimate = { tokens: 5_000, encoding: 'cl100k_base' as const, contextWindow: 8_192, approximate: false, uncountedAttachments: 0 };
+		assert.deepStrictEqual(getTokenBudgetWarnings(estimate, {}), []);
+		assert.match(getTokenBudgetWarnings(estimate, { maxOutputTokens: 4_000 })[0], /plus max output \(4,000\) exceeds the 8,192-token context window/);
+		assert.match(getTokenBudgetWarnings(estimate, { tokenLimit: 1_000 })[0], /token limit of 1,000 per minute/);
+		assert.match(getTokenBudgetWarnings(estimate, { remainingTokens: 100 })[0], /last reported remaining/);
+		assert.strictEqual(getTokenBudgetWarnings(estimate, { tokenLimit: 1_000, remainingTokens: 100 }).length, 1);
+	});
+
+	test('Reports the estimate drift against actual usage', () => {
+		assert.strictEqual(getEstimateDrift(90, 100), 10);
+		assert.strictEqual(getEstimateDrift(110, 100), -10);
+		assert.strictEqual(getEstimateDrift(10, 0), undefined);
+	});
+});
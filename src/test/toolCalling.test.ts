@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import { extractToolCalls, parseToolDefinitions, toChatCompletionToolChoice, toChatCompletionTools, toResponsesToolChoice, toResponsesTools } from '../services/toolCalling';
+
+suite('Tool Calling Test Suite', () => {
+	test('Parses Chat Completions and flat Responses API tool definitions', () => {
+		const { tools, errors } = parseToolDefinitions(JSON.stringify([
+			{ type: 'function', function: { name: 'get_weather', description: 'Weather by city', parameters: { type: 'object' } } },
+			{ type: 'function', name: 'get-time', strict: true }
+		]));
+
+		assert.deepStrictEqual(errors, []);
+		assert.deepStrictEqual(tools, [
+			{ name: 'get_weather', description: 'Weather by city', parameters: { type: 'object' }, strict: undefined },
+			{ name: 'get-time', description: undefined, parameters: undefined, strict: true }
+		]);
+		assert.deepStrictEqual(parseToolDefinitions('  '), { tools: [], errors: [] });
+	});
+
+	test('Reports invalid tool definitions', () => {
+		assert.match(parseToolDefinitions('[').errors[0], /not valid JSON/);
+		assert.match(parseToolDefinitions('{}').errors[0], /must be a JSON array/);
+
+		const { tools, errors } = parseToolDefinitions(JSON.stringify([
+			1,
+			{ name: 'has space' },
+			{ name: 'a', parameters: [] },
+			{ name: 'b' },
+			{ name: 'b' }
+		]));
+		assert.deepStrictEqual(tools.map(tool => tool.name), ['b']);
+		assert.strictEqual(errors.length, 4);
+		assert.match(errors[0], /Tool #1 is not an object/);
+		assert.match(errors[1], /Tool #2 needs a name/);
+		assert.match(errors[2], /Tool 'a' parameters must be a JSON schema object/);
+		assert.match(errors[3], /Tool 'b' is defined more than once/);
+	});
+
+	test('Maps tools and tool choice onto each wire format', () => {
+		const tools = [{ name: 'lookup', parameters: { type: 'object' } }];
+
+		assert.deepStrictEqual(toChatCompletionTools(tools), [{ type: 'function', function: { name: 'lookup', parameters: { type: 'object' } } }]);
+		assert.deepStrictEqual(toResponsesTools(tools), [{ type: 'function', name: 'lookup', parameters: { type: 'object' } }]);
+		assert.strictEqual(toChatCompletionToolChoice('required'), 'required');
+		assert.strictEqual(toChatCompletionToolChoice(''), undefined);
+		assert.deepStrictEqual(toChatCompletionToolChoice('lookup'), { type: 'function', function: { name: 'lookup' } });
+		assert.strictEqual(toResponsesToolChoice('none'), 'none');
+		assert.deepStrictEqual(toResponsesToolChoice('lookup'), { type: 'function', name: 'lookup' });
+	});
+
+	test('Extracts tool calls from Chat Completions and Responses API results', () => {
+		assert.deepStrictEqual(extractToolCalls({
+			choices: [{ message: { tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":1}' } }] } }]
+		}), [{ id: 'call_1', name: 'lookup', arguments: '{"q":1}' }]);
+		assert.deepStrictEqual(extractToolCalls({
+			output: [{ type: 'message' }, { type: 'function_call', call_id: 'call_2', name: 'lookup' }]
+		}), [{ id: 'call_2', name: 'lookup', arguments: '' }]);
+		assert.deepStrictEqual(extractToolCalls({ choices: [{ message: { content: 'hi' } }] }), []);
+	});
+});
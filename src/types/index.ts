@@ -40,6 +40,7 @@ export interface ModelUsage {
     averageLatency: number;
     errorRate: number;
     successRate: number;
+    cost?: number; // Set by the dashboard when the price catalogue has a price for the model
 }
 
 export interface BackendUsage {
@@ -51,6 +52,18 @@ export interface BackendUsage {
     averageLatency: number;
     errorRate: number;
     successRate: number;
+    cost?: number;
+}
+
+// Token totals per model, region, backend and subscription, the level at which prices apply
+export interface TokenUsageBreakdown {
+    modelName: string;
+    region: string;
+    backendName: string;
+    subscriptionName: string;
+    promptTokens: number;
+    completionTokens: number;
+    requestCount: number;
 }
 
 export interface LogAnalyticsResult {
@@ -87,28 +100,491 @@ export interface AnalyticsSummary {
     completionTokens: number;
     averageLatency: number;
     errorRate: number;
+    cost?: number;
+}
+
+// Prices per million tokens; cached input falls back to the input price
+export interface ModelPrice {
+    model: string; // Matched against model and deployment names, longest prefix first
+    region?: string; // Azure region, e.g. "East US" or "eastus"; entries without one apply everywhere
+    inputPricePerMillion: number;
+    cachedInputPricePerMillion?: number;
+    outputPricePerMillion: number;
+}
+
+export interface PriceCatalog {
+    currency: string;
+    prices: ModelPrice[];
+    error?: string; // Why the workspace price file was skipped
+}
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    arguments: string; // JSON-encoded arguments exactly as returned by the model
+}
+
+export interface ToolDefinition {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>; // JSON schema of the function arguments
+    strict?: boolean;
+}
+
+export type AttachmentKind = 'image' | 'file';
+
+// Sent inline with a user message; files are only accepted by the Responses API
+export interface MessageAttachment {
+    kind: AttachmentKind;
+    name: string;
+    mimeType: string;
+    dataUrl: string; // data:<mime type>;base64,...
+    size: number; // Bytes before base64 encoding
+}
+
+export interface ChatMessage {
+    role: ChatRole;
+    content: string;
+    name?: string;
+    toolCallId?: string; // Required for tool messages, links the result to the originating call
+    toolCalls?: ToolCall[]; // Calls requested by an assistant message
+    attachments?: MessageAttachment[]; // User messages only
+}
+
+export type ReasoningEffort = 'minimal' | 'low' | 'medium' | 'high';
+
+// Sampling and generation controls; undefined values are left out of the request
+export interface ModelParameters {
+    temperature?: number;
+    topP?: number;
+    maxTokens?: number;
+    maxCompletionTokens?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    stop?: string[];
+    seed?: number;
+    n?: number;
+    reasoningEffort?: ReasoningEffort;
+}
+
+export interface ParameterIssue {
+    parameter: keyof ModelParameters;
+    message: string;
+}
+
+export type ResponseFormatType = 'text' | 'json_object' | 'json_schema';
+
+export interface ResponseFormat {
+    type: ResponseFormatType;
+    name?: string; // Required by json_schema
+    schema?: Record<string, any>;
+    strict?: boolean;
 }
 
+export interface SchemaViolation {
+    path: string; // JSON pointer to the offending value, empty for the document root
+    message: string;
+}
+
+export interface StructuredOutputValidation {
+    valid: boolean;
+    violations: SchemaViolation[];
+}
+
+// One row of the custom header / query parameter editor
+export interface KeyValuePair {
+    key: string;
+    value: string;
+    enabled: boolean;
+}
+
+// Named set of headers and query parameters, saved per API
+export interface HeaderPreset {
+    name: string;
+    headers: KeyValuePair[];
+    queryParams: KeyValuePair[];
+}
+
+export type ResponsesBuiltInTool = 'web_search_preview' | 'file_search' | 'code_interpreter' | 'image_generation';
+
+// Settings that only apply to the Responses API
+export interface ResponsesOptions {
+    store: boolean; // Keep responses on the service so they can be chained, retrieved and deleted
+    chainTurns: boolean; // Send only the new turns with previous_response_id instead of the full history
+    reasoningSummary: boolean;
+    builtInTools: ResponsesBuiltInTool[];
+    vectorStoreIds: string[]; // Searched by file_search
+}
+
+// A built-in tool call the service ran while producing a Responses API answer
+export interface ResponsesToolItem {
+    type: string; // e.g. 'web_search_call'
+    id?: string;
+    status?: string;
+    detail?: string;
+}
+
+// How Playground calls authenticate against the gateway
+export type PlaygroundAuthMode = 'subscription-key' | 'entra' | 'both' | 'none';
+
 export interface PlaygroundRequest {
+    sdk: string;
     apiId: string;
     modelName: string;
     subscriptionId: string;
+    authMode?: PlaygroundAuthMode; // Defaults to 'subscription-key'
+    entraAudience?: string; // Resource the Entra token is issued for, e.g. https://cognitiveservices.azure.com
+    apiVersion: string;
+    inferenceApiType: 'Chat Completions' | 'Responses API';
     stream: boolean;
     trace: boolean;
     instructions?: string;
+    messages: ChatMessage[]; // Full conversation history, oldest first
+    parameters?: ModelParameters;
+    tools?: ToolDefinition[];
+    toolChoice?: string; // 'auto', 'none', 'required' or the name of a single function
+    parallelToolCalls?: boolean;
+    responseFormat?: ResponseFormat;
+    responsesOptions?: ResponsesOptions;
+    previousResponseId?: string; // Set when chaining turns; messages then only hold the new turns
+    customHeaders?: Record<string, string>; // Sent on every SDK path, e.g. to drive policy routing
+    queryParams?: Record<string, string>;
+    requestId?: string; // Correlates streamed chunks and stop requests with the webview message
+}
+
+export type ApimTraceSectionName = 'inbound' | 'backend' | 'outbound' | 'on-error';
+
+export interface ApimTraceEntry {
+    source: string; // Policy or component that wrote the entry, e.g. 'set-backend-service'
+    elapsedMs?: number; // Time since the gateway received the request
+    message?: string;
+    data?: any;
+}
+
+export interface ApimTrace {
+    sections: Array<{ name: ApimTraceSectionName; entries: ApimTraceEntry[] }>;
+    totalMs?: number;
+    selectedBackend?: string;
+    rewrittenUrl?: string;
+    backendUrl?: string;
+}
+
+export interface TraceInfo {
+    requestId?: string;
+    traceId?: string; // Apim-Trace-Id response header, only present when debug tracing was authorized
+    timestamp: string;
+    apimTrace?: ApimTrace;
+    traceError?: string; // Why the policy trace could not be obtained
+}
+
+export type GatewayHeaderCategory = 'rate-limit' | 'retry' | 'routing' | 'cache' | 'usage' | 'tracing' | 'policy' | 'http';
+
+export interface GatewayHeader {
+    name: string;
+    value: string;
+    category: GatewayHeaderCategory;
+    label?: string; // Friendly name for recognized AI gateway headers
+    decoded?: string; // Human readable interpretation of the value
+}
+
+// Request edited in the Playground's Raw HTTP mode
+export interface RawHttpDraft {
+    method: string;
+    path: string; // Relative to the API's gateway URL
+    headers: KeyValuePair[];
+    body: string;
+}
+
+export interface RawHttpRequest extends Pick<PlaygroundRequest, 'apiId' | 'subscriptionId' | 'authMode' | 'entraAudience' | 'customHeaders' | 'queryParams'> {
+    requestId: string;
+    method: string;
+    path: string;
+    headers?: Record<string, string>;
+    body?: string;
+}
+
+export interface RawHttpResponse {
+    requestId: string;
+    url: string;
+    statusCode?: number;
+    headers: Record<string, string>;
+    body: string; // Exactly as received
+    latency: number;
+    error?: string; // Network or configuration failure, no response was received
+}
+
+// Embeddings mode: all inputs are embedded in a single request
+export interface EmbeddingsRequest extends Pick<PlaygroundRequest, 'sdk' | 'apiId' | 'subscriptionId' | 'modelName' | 'apiVersion' | 'authMode' | 'entraAudience' | 'customHeaders' | 'queryParams'> {
+    requestId: string;
+    inputs: string[];
+    dimensions?: number; // Only supported by text-embedding-3 and later models
+}
+
+export interface EmbeddingsResponse {
+    requestId: string;
+    vectors: number[][]; // In input order
+    tokens?: { prompt_tokens: number; total_tokens: number };
+    latency: number;
+    responseHeaders?: Record<string, string>;
+    attempts?: RequestAttempt[];
+    error?: string;
+}
+
+// Image generation and audio modes; only the Azure OpenAI and OpenAI-compatible APIs have these endpoints
+export interface ImageGenerationRequest extends Pick<PlaygroundRequest, 'sdk' | 'apiId' | 'subscriptionId' | 'modelName' | 'apiVersion' | 'authMode' | 'entraAudience' | 'customHeaders' | 'queryParams'> {
+    requestId: string;
     prompt: string;
+    size: string;
+    quality?: string;
+    n?: number;
+}
+
+export interface GeneratedImage {
+    b64Json?: string;
+    url?: string; // DALL·E deployments may return a URL instead of base64 data
+    revisedPrompt?: string;
+}
+
+export type AudioOperation = 'transcription' | 'speech';
+
+export interface AudioRequest extends Pick<PlaygroundRequest, 'sdk' | 'apiId' | 'subscriptionId' | 'modelName' | 'apiVersion' | 'authMode' | 'entraAudience' | 'customHeaders' | 'queryParams'> {
+    requestId: string;
+    operation: AudioOperation;
+    fileUri?: string; // Transcription: audio file picked in the workspace
+    language?: string;
+    input?: string; // Speech: text to read out
+    voice?: string;
+    format?: string;
+}
+
+export interface MediaResponse {
+    requestId: string;
+    images?: GeneratedImage[];
+    text?: string; // Transcription
+    audio?: { base64: string; mimeType: string }; // Speech
+    latency: number;
+    attempts?: RequestAttempt[];
+    error?: string;
+}
+
+// One try of a gateway call; retried calls record every attempt
+export interface RequestAttempt {
+    attempt: number; // 1-based
+    startedAt: string;
+    latency: number;
+    statusCode?: number;
+    error?: string;
+    retryDelayMs?: number; // Wait before the next attempt, from retry-after-ms / retry-after or the backoff
 }
 
 export interface PlaygroundResponse {
+    requestId?: string;
     content: string;
+    additionalChoices?: string[]; // Choices 2..n when n > 1; only the first choice is kept in the conversation
+    toolCalls?: ToolCall[];
+    structuredOutput?: StructuredOutputValidation; // Local check of the content against the requested response format
+    responseId?: string; // Responses API id, used to chain, retrieve or delete the stored response
+    reasoningSummary?: string[];
+    builtInToolCalls?: ResponsesToolItem[];
     rawRequest?: any;
     rawResponse?: any;
-    traceInfo?: any;
+    traceInfo?: TraceInfo;
+    responseHeaders?: Record<string, string>; // Lower-cased header names, as returned by the gateway
     latency: number;
     tokens?: {
-        prompt: number;
-        completion: number;
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+        cached_tokens?: number; // Part of prompt_tokens served from the model's prompt cache
     };
+    streamed?: boolean;
+    streamedChunks?: number;
+    stopped?: boolean; // True when the user aborted the request before it completed
+    attempts?: RequestAttempt[];
+    timeToFirstToken?: number; // Milliseconds until the first streamed token arrived
+    tokensPerSecond?: number;
+}
+
+export interface PlaygroundSessionSettings {
+    sdk: string;
+    apiId: string;
+    modelName: string;
+    subscriptionId: string;
+    authMode: PlaygroundAuthMode;
+    entraAudience: string;
+    customHeaders: KeyValuePair[];
+    queryParams: KeyValuePair[];
+    rawHttp?: RawHttpDraft;
+    apiVersion: string;
+    inferenceApiType: 'Chat Completions' | 'Responses API';
+    stream: boolean;
+    trace: boolean;
+    instructions: string;
+    parameters: ModelParameters;
+    toolsJson: string;
+    toolChoice: string;
+    parallelToolCalls: boolean;
+    toolMocksJson: string;
+    responseFormatType: ResponseFormatType;
+    schemaName: string;
+    schemaStrict: boolean;
+    schemaJson: string;
+    responsesOptions: ResponsesOptions;
+    tokenLimit?: number; // tokens-per-minute of the gateway's llm-token-limit policy, for prompt budget warnings
+}
+
+// Contents of a .aigw-chat.json file, also used as the persisted webview state
+export interface PlaygroundSession {
+    version: number;
+    savedAt: string;
+    settings: PlaygroundSessionSettings;
+    messages: any[]; // Playground messages including raw request/response data
+}
+
+// Stored as JSON under .aigateway/prompts so teams can version templates in git
+export interface PromptTemplate {
+    name: string;
+    description?: string;
+    instructions?: string;
+    prompt: string;
+    variables?: Record<string, string>; // Default values for {{variable}} placeholders
+    parameters?: ModelParameters;
+    target?: {
+        sdk?: string;
+        apiId?: string;
+        modelName?: string;
+        inferenceApiType?: 'Chat Completions' | 'Responses API';
+        apiVersion?: string;
+    };
+}
+
+export type BatchScorerType = 'exact' | 'contains' | 'regex' | 'json';
+
+export interface BatchScorerConfig {
+    type: BatchScorerType;
+    pattern?: string; // Regex scorer only; falls back to the row's expected answer when empty
+    ignoreCase?: boolean;
+}
+
+export interface BatchItem {
+    id: string;
+    prompt: string;
+    expected?: string;
+}
+
+export interface BatchScore {
+    scorer: BatchScorerType;
+    passed: boolean;
+    detail?: string;
+}
+
+export interface BatchResult {
+    id: string;
+    prompt: string;
+    expected?: string;
+    output: string;
+    statusCode?: number;
+    error?: string;
+    latency?: number;
+    attempts?: number; // Only set when the row was retried
+    tokens?: PlaygroundResponse['tokens'];
+    scores: BatchScore[];
+}
+
+export interface BatchRunRequest {
+    runId: string;
+    request: Omit<PlaygroundRequest, 'messages'>;
+    items: BatchItem[];
+    concurrency: number;
+    scorers: BatchScorerConfig[];
+}
+
+// Compare view: one prompt sent to two to four deployments side by side
+export interface CompareTarget {
+    sdk: string;
+    apiId: string;
+    modelName: string;
+    subscriptionId: string;
+    inputPricePerMillion?: number;
+    outputPricePerMillion?: number;
+}
+
+export interface CompareResult {
+    requestId: string;
+    status: 'running' | 'done' | 'error';
+    content: string;
+    error?: string;
+    latency?: number;
+    timeToFirstToken?: number;
+    attempts?: number;
+    tokens?: PlaygroundResponse['tokens'];
+}
+
+// Load tester for llm-token-limit / rate-limit policies
+export interface LoadTestConfig {
+    requestsPerSecond: number;
+    concurrency: number; // Most requests in flight at once
+    durationSeconds: number;
+    promptTokens: number; // Approximate prompt size
+    maxTokens?: number;
+    configuredTpm?: number; // The policy's tokens-per-minute, only used to annotate the results
+}
+
+export interface LoadTestRunRequest {
+    runId: string;
+    request: Omit<PlaygroundRequest, 'messages'>;
+    config: LoadTestConfig;
+    gatewayUrl?: string; // Sends to this URL instead of the selected API, e.g. a local stub gateway
+    gatewayKey?: string; // Subscription key for gatewayUrl
+}
+
+export interface LoadTestSample {
+    index: number;
+    offsetMs: number; // When the request was sent, from the start of the run
+    latency: number;
+    statusCode?: number;
+    totalTokens?: number;
+    remainingTokens?: number;
+    remainingRequests?: number;
+    retryAfterMs?: number;
+    error?: string;
+}
+
+// Semantic cache harness: a prompt followed by paraphrases that should be answered from the gateway cache
+export type CacheStatus = 'hit' | 'miss' | 'unknown';
+
+export interface SemanticCacheRunRequest {
+    runId: string;
+    request: Omit<PlaygroundRequest, 'messages'>;
+    prompt: string;
+    paraphrases: string[];
+    embeddingsModel?: string; // Deployment used to score paraphrase similarity, like the cache policy's embeddings backend
+}
+
+export interface SemanticCacheResult {
+    index: number; // 0 is the original prompt
+    prompt: string;
+    output?: string;
+    statusCode?: number;
+    latency?: number;
+    tokens?: PlaygroundResponse['tokens'];
+    correlationId?: string;
+    cacheStatus: CacheStatus;
+    cacheSource?: 'header' | 'log' | 'latency'; // How the status was decided, most reliable first
+    similarity?: number; // Cosine similarity to the original prompt
+    error?: string;
+}
+
+// One gateway log entry for a harness request, read by correlation ID
+export interface CacheLogRecord {
+    correlationId: string;
+    cache?: string;
+    backendTime?: number;
+    totalTime?: number;
+    promptTokens?: number;
+    completionTokens?: number;
 }
 
 export interface WebviewMessage {
@@ -14,6 +14,7 @@ import {
     Pie,
     Cell
 } from 'recharts';
+import { formatCost } from '../../services/pricing';
 
 interface AnalyticsData {
     summary: {
@@ -23,6 +24,7 @@ interface AnalyticsData {
         completionTokens: number;
         averageLatency: number;
         errorRate: number;
+        cost?: number;
     };
     usageTrend: Array<{
         time: string;
@@ -41,6 +43,7 @@ interface AnalyticsData {
         avgLatency: number;
         errorRate: number;
         successRate: number;
+        cost?: number;
     }>;
     logs: Array<{
         timestamp: string;
@@ -57,6 +60,14 @@ interface AnalyticsData {
         streamed: boolean;
         statusCode: number;
     }>;
+    // Costs from the price catalogue; models without a price count as zero
+    costs?: {
+        currency: string;
+        error?: string;
+        unpricedModels: string[];
+        backends: Array<{ backend: string; totalTokens: number; requestCount: number; cost?: number }>;
+        subscriptions: Array<{ subscriptionName: string; totalTokens: number; requestCount: number; cost: number }>;
+    };
 }
 
 interface Filters {
@@ -206,12 +217,14 @@ const AnalyticsDashboard: React.FC = () => {
             promptTokens: safeNumber(data.summary?.promptTokens),
             completionTokens: safeNumber(data.summary?.completionTokens),
             averageLatency: safeNumber(data.summary?.averageLatency),
-            errorRate: safeNumber(data.summary?.errorRate)
+            errorRate: safeNumber(data.summary?.errorRate),
+            cost: safeNumber(data.summary?.cost)
         },
         usageTrend: data.usageTrend || [],
         modelUsage: data.modelUsage || [],
         topModels: data.topModels || [],
-        logs: data.logs || []
+        logs: data.logs || [],
+        costs: data.costs
     } : {
         summary: {
             totalRequests: 0,
@@ -219,13 +232,17 @@ const AnalyticsDashboard: React.FC = () => {
             promptTokens: 0,
             completionTokens: 0,
             averageLatency: 0,
-            errorRate: 0
+            errorRate: 0,
+            cost: 0
         },
         usageTrend: [],
         modelUsage: [],
         topModels: [],
-        logs: []
+        logs: [],
+        costs: undefined
     };
+    const currency = safeData.costs?.currency || 'USD';
+    const renderCost = (cost: number | undefined) => cost !== undefined ? formatCost(cost, currency) : '—';
 
     console.log('Rendering AnalyticsDashboard, loading:', loading);
     
@@ -310,6 +327,18 @@ const AnalyticsDashboard: React.FC = () => {
                                 <span>Completion: {safeData.summary.completionTokens.toLocaleString()}</span>
                             </div>
                         </div>
+                        <div className="summary-card">
+                            <h3>Estimated Cost</h3>
+                            <div className="metric">{renderCost(safeData.summary.cost)}</div>
+                            <div className="sub-metrics">
+                                {safeData.costs?.error && <span title={safeData.costs.error}>Price file skipped</span>}
+                                {safeData.costs && safeData.costs.unpricedModels.length > 0 && (
+                                    <span title="Add them to the price catalogue with Edit Model Prices">
+                                        No price for: {safeData.costs.unpricedModels.join(', ')}
+                                    </span>
+                                )}
+                            </div>
+                        </div>
                     </div>
 
                     {/* Usage Trend Chart */}
@@ -370,6 +399,7 @@ const AnalyticsDashboard: React.FC = () => {
                                         <th>Avg Latency</th>
                                         <th>Error Rate</th>
                                         <th>Success Rate</th>
+                                        <th>Cost</th>
                                     </tr>
                                 </thead>
                                 <tbody>
@@ -380,6 +410,7 @@ const AnalyticsDashboard: React.FC = () => {
                                             <td>{model.avgLatency.toFixed(0)}ms</td>
                                             <td>{model.errorRate.toFixed(1)}%</td>
                                             <td>{model.successRate.toFixed(1)}%</td>
+                                            <td>{renderCost(model.cost)}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -387,6 +418,58 @@ const AnalyticsDashboard: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Cost Breakdown */}
+                    {safeData.costs && (
+                        <div className="charts-row">
+                            <div className="table-container half-width">
+                                <h3>Cost by Subscription</h3>
+                                <table className="performance-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Subscription</th>
+                                            <th>Requests</th>
+                                            <th>Total Tokens</th>
+                                            <th>Cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {safeData.costs.subscriptions.map((subscription, index) => (
+                                            <tr key={index}>
+                                                <td>{subscription.subscriptionName}</td>
+                                                <td>{subscription.requestCount.toLocaleString()}</td>
+                                                <td>{subscription.totalTokens.toLocaleString()}</td>
+                                                <td>{renderCost(subscription.cost)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className="table-container half-width">
+                                <h3>Cost by Backend</h3>
+                                <table className="performance-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Backend</th>
+                                            <th>Requests</th>
+                                            <th>Total Tokens</th>
+                                            <th>Cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {safeData.costs.backends.map((backend, index) => (
+                                            <tr key={index}>
+                                                <td>{backend.backend}</td>
+                                                <td>{backend.requestCount.toLocaleString()}</td>
+                                                <td>{backend.totalTokens.toLocaleString()}</td>
+                                                <td>{renderCost(backend.cost)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+
                     {/* Logs Table */}
                     <div className="logs-container">
                         <h3>Recent Logs</h3>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { MessageAttachment } from '../../types';
+import { formatBytes } from '../../services/attachments';
+
+interface AttachmentListProps {
+    attachments: MessageAttachment[];
+    onRemove?: (index: number) => void; // Only set while composing
+}
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => (
+    <div className="attachment-list">
+        {attachments.map((attachment, index) => (
+            <div key={index} className="attachment" title={`${attachment.name} · ${attachment.mimeType} · ${formatBytes(attachment.size)}`}>
+                {attachment.kind === 'image'
+                    ? <img src={attachment.dataUrl} alt={attachment.name} />
+                    : <span className="attachment-file">📄</span>}
+                <span className="attachment-name">{attachment.name}</span>
+                <span className="attachment-size">{formatBytes(attachment.size)}</span>
+                {onRemove && (
+                    <button className="message-action-button" onClick={() => onRemove(index)} title="Remove attachment">
+                        ✕
+                    </button>
+                )}
+            </div>
+        ))}
+    </div>
+);
+
+export default AttachmentList;
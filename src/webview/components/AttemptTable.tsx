@@ -0,0 +1,33 @@
+import React from 'react';
+import { RequestAttempt } from '../../types';
+
+interface AttemptTableProps {
+    attempts: RequestAttempt[];
+}
+
+const AttemptTable: React.FC<AttemptTableProps> = ({ attempts }) => (
+    <table className="attempt-table">
+        <thead>
+            <tr>
+                <th>#</th>
+                <th>Started</th>
+                <th>Status</th>
+                <th>Latency</th>
+                <th>Retried after</th>
+            </tr>
+        </thead>
+        <tbody>
+            {attempts.map(attempt => (
+                <tr key={attempt.attempt} className={attempt.error ? 'attempt-failed' : ''}>
+                    <td>{attempt.attempt}</td>
+                    <td>{new Date(attempt.startedAt).toLocaleTimeString()}</td>
+                    <td title={attempt.error}>{attempt.statusCode ?? '—'}{attempt.error ? ` · ${attempt.error}` : ''}</td>
+                    <td>{attempt.latency}ms</td>
+                    <td>{attempt.retryDelayMs !== undefined ? `${attempt.retryDelayMs}ms` : ''}</td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+export default AttemptTable;
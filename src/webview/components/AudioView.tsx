@@ -0,0 +1,214 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AudioOperation, MediaResponse } from '../../types';
+import { SPEECH_FORMATS, SPEECH_VOICES } from '../../services/mediaRequests';
+import { formatBytes } from '../../services/attachments';
+import AttemptTable from './AttemptTable';
+
+export const AUDIO_REQUEST_PREFIX = 'aud-';
+
+interface AudioViewProps {
+    canSend: boolean;
+    models: Array<{ modelName: string; displayName: string }>;
+    // SDK, API, subscription, auth mode and custom headers / query parameters from Settings
+    buildRequest: () => Record<string, any>;
+}
+
+const AudioView: React.FC<AudioViewProps> = ({ canSend, models, buildRequest }) => {
+    const [operation, setOperation] = useState<AudioOperation>('transcription');
+    const [modelName, setModelName] = useState('');
+    const [audioFile, setAudioFile] = useState<{ fileUri: string; fileName: string; size: number } | null>(null);
+    const [language, setLanguage] = useState('');
+    const [input, setInput] = useState('');
+    const [voice, setVoice] = useState(SPEECH_VOICES[0]);
+    const [format, setFormat] = useState('mp3');
+    const [requestId, setRequestId] = useState<string | null>(null);
+    const [response, setResponse] = useState<MediaResponse | null>(null);
+    // Read by the message listener, which is registered once
+    const requestIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'audioFilePicked':
+                    setAudioFile(message.data);
+                    break;
+                case 'mediaResponse':
+                    if (message.data.requestId === requestIdRef.current) {
+                        requestIdRef.current = null;
+                        setRequestId(null);
+                        setResponse(message.data);
+                    }
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const send = () => {
+        const settings = buildRequest();
+        const id = `${AUDIO_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        requestIdRef.current = id;
+        setRequestId(id);
+        setResponse(null);
+        vscode.postMessage({
+            type: 'sendAudio',
+            data: {
+                requestId: id,
+                sdk: settings.sdk,
+                apiId: settings.apiId,
+                subscriptionId: settings.subscriptionId,
+                authMode: settings.authMode,
+                entraAudience: settings.entraAudience,
+                customHeaders: settings.customHeaders,
+                queryParams: settings.queryParams,
+                apiVersion: settings.apiVersion,
+                modelName: modelName.trim(),
+                operation,
+                ...(operation === 'transcription'
+                    ? { fileUri: audioFile?.fileUri, language: language.trim() || undefined }
+                    : { input, voice, format })
+            }
+        });
+    };
+
+    const stop = () => {
+        if (requestId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId } });
+        }
+    };
+
+    const hasInput = operation === 'transcription' ? !!audioFile : !!input.trim();
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                <label className="batch-option">
+                    Operation
+                    <select
+                        value={operation}
+                        onChange={(e) => {
+                            setOperation(e.target.value as AudioOperation);
+                            setResponse(null);
+                        }}
+                    >
+                        <option value="transcription">Transcription</option>
+                        <option value="speech">Text to speech</option>
+                    </select>
+                </label>
+                <label className="batch-option">
+                    Deployment
+                    <input
+                        type="text"
+                        className="embeddings-input"
+                        list="audio-models"
+                        value={modelName}
+                        onChange={(e) => setModelName(e.target.value)}
+                        placeholder={operation === 'transcription' ? 'whisper' : 'tts'}
+                    />
+                    <datalist id="audio-models">
+                        {models.map(model => <option key={model.modelName} value={model.modelName}>{model.displayName}</option>)}
+                    </datalist>
+                </label>
+                {operation === 'transcription' ? (
+                    <>
+                        <button className="message-action-button" onClick={() => vscode.postMessage({ type: 'pickAudioFile' })} disabled={!!requestId}>
+                            Pick Audio File…
+                        </button>
+                        <span className="batch-dataset">
+                            {audioFile ? `${audioFile.fileName} · ${formatBytes(audioFile.size)}` : 'mp3, mp4, m4a, wav, webm, ogg or flac'}
+                        </span>
+                        <label className="batch-option">
+                            Language
+                            <input
+                                type="text"
+                                className="embeddings-input"
+                                value={language}
+                                onChange={(e) => setLanguage(e.target.value)}
+                                placeholder="Detect (e.g. en)"
+                            />
+                        </label>
+                    </>
+                ) : (
+                    <>
+                        <label className="batch-option">
+                            Voice
+                            <select value={voice} onChange={(e) => setVoice(e.target.value)}>
+                                {SPEECH_VOICES.map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        </label>
+                        <label className="batch-option">
+                            Format
+                            <select value={format} onChange={(e) => setFormat(e.target.value)}>
+                                {Object.keys(SPEECH_FORMATS).map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        </label>
+                    </>
+                )}
+            </div>
+            <span className="batch-dataset">Needs the Azure OpenAI SDK or the OpenAI SDK in Settings</span>
+
+            {response?.error && <div className="schema-violations">{response.error}</div>}
+            {response?.attempts && response.attempts.length > 1 && <AttemptTable attempts={response.attempts} />}
+            {response && !response.error && (
+                <div className="batch-summary">
+                    <span>Latency: {response.latency}ms</span>
+                </div>
+            )}
+
+            <div className="batch-results media-results">
+                {response?.text !== undefined && <pre>{response.text}</pre>}
+                {response?.audio && (
+                    <div className="generated-audio">
+                        <audio controls src={`data:${response.audio.mimeType};base64,${response.audio.base64}`} />
+                        <button
+                            className="message-action-button"
+                            onClick={() => vscode.postMessage({
+                                type: 'saveMedia',
+                                data: { fileName: `speech-${Date.now()}.${format}`, base64: response.audio?.base64 }
+                            })}
+                        >
+                            Save to Workspace
+                        </button>
+                    </div>
+                )}
+                {requestId && (
+                    <div className="loading-dots">
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                    </div>
+                )}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {operation === 'speech' && (
+                        <textarea
+                            value={input}
+                            onChange={(e) => setInput(e.target.value)}
+                            placeholder="Text to read out"
+                            rows={3}
+                        />
+                    )}
+                    {requestId ? (
+                        <button onClick={stop} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={send}
+                            disabled={!canSend || !modelName.trim() || !hasInput}
+                            className="send-button"
+                            title="Sends through the SDK, API and subscription selected in Settings"
+                        >
+                            {operation === 'transcription' ? 'Transcribe' : 'Speak'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AudioView;
@@ -0,0 +1,261 @@
+import React, { useState, useEffect } from 'react';
+import { BatchItem, BatchResult, BatchScorerConfig, BatchScorerType } from '../../types';
+
+export const BATCH_REQUEST_PREFIX = 'batch-';
+
+interface BatchViewProps {
+    canRun: boolean;
+    // Settings of the main selection (SDK, API, model, subscription, parameters, ...)
+    buildRequest: () => Record<string, any>;
+}
+
+const SCORER_LABELS: Record<BatchScorerType, string> = {
+    exact: 'Exact match',
+    contains: 'Contains',
+    regex: 'Regex',
+    json: 'Valid JSON'
+};
+
+const BatchView: React.FC<BatchViewProps> = ({ canRun, buildRequest }) => {
+    const [dataset, setDataset] = useState<{ fileName: string; items: BatchItem[]; errors: string[] } | null>(null);
+    const [concurrency, setConcurrency] = useState(4);
+    const [enabledScorers, setEnabledScorers] = useState<BatchScorerType[]>(['exact', 'contains']);
+    const [regexPattern, setRegexPattern] = useState('');
+    const [ignoreCase, setIgnoreCase] = useState(true);
+    const [runId, setRunId] = useState<string | null>(null);
+    const [runSettings, setRunSettings] = useState<Record<string, any> | null>(null);
+    const [results, setResults] = useState<Record<string, BatchResult>>({});
+    const [runError, setRunError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'datasetLoaded':
+                    setDataset(message.data);
+                    setResults({});
+                    break;
+                case 'batchResult':
+                    setResults(prev => ({ ...prev, [message.data.result.id]: message.data.result }));
+                    break;
+                case 'batchComplete':
+                    setRunId(current => current === message.data.runId ? null : current);
+                    break;
+                case 'error':
+                    if (message.data?.requestId?.startsWith(BATCH_REQUEST_PREFIX)) {
+                        setRunError(message.data.message);
+                    }
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const toggleScorer = (scorer: BatchScorerType) => {
+        setEnabledScorers(prev => prev.includes(scorer) ? prev.filter(s => s !== scorer) : [...prev, scorer]);
+    };
+
+    const runBatch = () => {
+        if (!dataset || dataset.items.length === 0 || !canRun) {
+            return;
+        }
+
+        const id = `${BATCH_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        const scorers: BatchScorerConfig[] = enabledScorers.map(type => ({
+            type,
+            pattern: type === 'regex' ? regexPattern || undefined : undefined,
+            ignoreCase
+        }));
+        const request = buildRequest();
+
+        setRunId(id);
+        setRunSettings(request);
+        setResults({});
+        setRunError(null);
+        vscode.postMessage({
+            type: 'runBatch',
+            data: { runId: id, request, items: dataset.items, concurrency, scorers }
+        });
+    };
+
+    const stopBatch = () => {
+        if (runId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId: runId } });
+        }
+    };
+
+    const exportResults = () => {
+        const completed = dataset?.items.map(item => results[item.id]).filter(result => result !== undefined) || [];
+        vscode.postMessage({
+            type: 'exportBatchResults',
+            data: {
+                results: completed,
+                // Stamped on every line so exports from different gateway configurations can be diffed
+                metadata: {
+                    dataset: dataset?.fileName,
+                    sdk: runSettings?.sdk,
+                    apiId: runSettings?.apiId,
+                    modelName: runSettings?.modelName,
+                    subscriptionId: runSettings?.subscriptionId,
+                    apiVersion: runSettings?.apiVersion,
+                    inferenceApiType: runSettings?.inferenceApiType,
+                    runAt: new Date().toISOString()
+                }
+            }
+        });
+    };
+
+    const completedResults = Object.values(results);
+    const succeeded = completedResults.filter(result => !result.error);
+    const averageLatency = succeeded.length > 0
+        ? Math.round(succeeded.reduce((sum, result) => sum + (result.latency || 0), 0) / succeeded.length)
+        : undefined;
+    const totalTokens = succeeded.reduce((sum, result) => sum + (result.tokens?.total_tokens || 0), 0);
+
+    const passRate = (scorer: BatchScorerType) => {
+        const scores = completedResults.flatMap(result => result.scores.filter(score => score.scorer === scorer));
+        return scores.length > 0 ? `${scores.filter(score => score.passed).length}/${scores.length}` : '—';
+    };
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                <button className="message-action-button" onClick={() => vscode.postMessage({ type: 'pickDataset' })} disabled={!!runId}>
+                    Load Dataset…
+                </button>
+                <span className="batch-dataset">
+                    {dataset ? `${dataset.fileName} · ${dataset.items.length} prompt(s)` : 'JSONL or CSV with a prompt column and an optional expected column'}
+                </span>
+                <label className="batch-option">
+                    Concurrency
+                    <input
+                        type="number"
+                        min="1"
+                        max="20"
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Math.min(20, Math.max(1, Number(e.target.value) || 1)))}
+                    />
+                </label>
+            </div>
+
+            <div className="batch-toolbar">
+                {(Object.keys(SCORER_LABELS) as BatchScorerType[]).map(scorer => (
+                    <label key={scorer} className="batch-option">
+                        <input
+                            type="checkbox"
+                            checked={enabledScorers.includes(scorer)}
+                            onChange={() => toggleScorer(scorer)}
+                        />
+                        {SCORER_LABELS[scorer]}
+                    </label>
+                ))}
+                {enabledScorers.includes('regex') && (
+                    <input
+                        type="text"
+                        className="batch-regex"
+                        value={regexPattern}
+                        onChange={(e) => setRegexPattern(e.target.value)}
+                        placeholder="Pattern (defaults to the expected answer)"
+                    />
+                )}
+                <label className="batch-option">
+                    <input type="checkbox" checked={ignoreCase} onChange={(e) => setIgnoreCase(e.target.checked)} />
+                    Ignore case
+                </label>
+            </div>
+
+            {dataset && dataset.errors.length > 0 && (
+                <ul className="parameter-issues">
+                    {dataset.errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+            )}
+            {runError && <div className="schema-violations">{runError}</div>}
+
+            <div className="batch-summary">
+                <span>Completed: {completedResults.length}/{dataset?.items.length || 0}</span>
+                <span>Errors: {completedResults.length - succeeded.length}</span>
+                <span>Avg latency: {averageLatency !== undefined ? `${averageLatency}ms` : '—'}</span>
+                <span>Tokens: {totalTokens}</span>
+                {enabledScorers.map(scorer => (
+                    <span key={scorer}>{SCORER_LABELS[scorer]}: {passRate(scorer)}</span>
+                ))}
+            </div>
+
+            <div className="batch-results">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>ID</th>
+                            <th>Prompt</th>
+                            <th>Expected</th>
+                            <th>Output</th>
+                            <th>Status</th>
+                            <th>Latency</th>
+                            <th>Tokens</th>
+                            <th>Scores</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {dataset?.items.map(item => {
+                            const result = results[item.id];
+                            return (
+                                <tr key={item.id} className={result?.error ? 'failed' : ''}>
+                                    <td>{item.id}</td>
+                                    <td title={item.prompt}>{item.prompt}</td>
+                                    <td title={item.expected}>{item.expected ?? ''}</td>
+                                    <td title={result?.error || result?.output}>
+                                        {result ? result.error || result.output : runId ? '…' : ''}
+                                    </td>
+                                    <td>{result?.statusCode ?? ''}</td>
+                                    <td title={result?.attempts ? `${result.attempts} attempts` : undefined}>
+                                        {result?.latency !== undefined ? `${result.latency}ms` : ''}{result?.attempts ? ` (×${result.attempts})` : ''}
+                                    </td>
+                                    <td>{result?.tokens?.total_tokens ?? ''}</td>
+                                    <td>
+                                        {result?.scores.map(score => (
+                                            <span
+                                                key={score.scorer}
+                                                className={score.passed ? 'schema-valid' : 'schema-invalid'}
+                                                title={score.detail}
+                                            >
+                                                {score.passed ? '✓' : '✗'} {SCORER_LABELS[score.scorer]}{' '}
+                                            </span>
+                                        ))}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {runId ? (
+                        <button onClick={stopBatch} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={runBatch}
+                            disabled={!dataset || dataset.items.length === 0 || !canRun}
+                            className="send-button"
+                            title="Runs against the API, model and subscription selected in Settings"
+                        >
+                            Run Batch
+                        </button>
+                    )}
+                    <button
+                        onClick={exportResults}
+                        disabled={!!runId || completedResults.length === 0}
+                        className="add-button"
+                    >
+                        Export JSONL
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BatchView;
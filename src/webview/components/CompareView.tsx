@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { CompareResult, CompareTarget, PriceCatalog } from '../../types';
+import { findModelPrice, formatCost } from '../../services/pricing';
+import { applyCompareMessage, buildCompareRequests } from '../../services/comparison';
+
+const MIN_TARGETS = 2;
+const MAX_TARGETS = 4;
+
+interface CompareViewProps {
+    apis: Array<{ id: string; name: string; displayName: string }>;
+    subscriptions: Array<{ id: string; name: string; displayName: string }>;
+    models: Array<{ modelName: string; displayName: string }>;
+    defaultTarget: CompareTarget;
+    priceCatalog: PriceCatalog | null; // Prefills the price inputs of each column's model
+    // Settings shared by every column (API version, stream, instructions, parameters, ...)
+    buildRequest: () => Record<string, any>;
+}
+
+const SDK_OPTIONS = [
+    { value: 'azure-openai', label: 'Azure OpenAI SDK' },
+    { value: 'azure-ai-inference', label: 'Azure AI Inference SDK' },
+    { value: 'openai-compatible', label: 'OpenAI SDK' }
+];
+
+const estimateCost = (target: CompareTarget, result?: CompareResult): number | undefined => {
+    if (!result?.tokens || (target.inputPricePerMillion === undefined && target.outputPricePerMillion === undefined)) {
+        return undefined;
+    }
+    return (result.tokens.prompt_tokens * (target.inputPricePerMillion || 0) +
+        result.tokens.completion_tokens * (target.outputPricePerMillion || 0)) / 1_000_000;
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ apis, subscriptions, models, defaultTarget, priceCatalog, buildRequest }) => {
+    const [targets, setTargets] = useState<CompareTarget[]>([{ ...defaultTarget }, { ...defaultTarget }]);
+    const [prompt, setPrompt] = useState('');
+    const [results, setResults] = useState<Record<number, CompareResult>>({});
+
+    const isRunning = Object.values(results).some(result => result.status === 'running');
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            setResults(prev => applyCompareMessage(prev, event.data));
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const getCatalogPrices = (modelName: string): Partial<CompareTarget> => {
+        const price = priceCatalog && modelName ? findModelPrice(priceCatalog.prices, modelName) : undefined;
+        return price ? { inputPricePerMillion: price.inputPricePerMillion, outputPricePerMillion: price.outputPricePerMillion } : {};
+    };
+
+    // The main selection and the price catalogue usually arrive after mount, so fill in whatever columns left empty
+    useEffect(() => {
+        setTargets(prev => prev.map(target => {
+            const filled = {
+                ...target,
+                apiId: target.apiId || defaultTarget.apiId,
+                modelName: target.modelName || defaultTarget.modelName,
+                subscriptionId: target.subscriptionId || defaultTarget.subscriptionId
+            };
+            return filled.inputPricePerMillion === undefined && filled.outputPricePerMillion === undefined
+                ? { ...filled, ...getCatalogPrices(filled.modelName) }
+                : filled;
+        }));
+    }, [defaultTarget.apiId, defaultTarget.modelName, defaultTarget.subscriptionId, priceCatalog]);
+
+    const updateTarget = (index: number, update: Partial<CompareTarget>) => {
+        setTargets(prev => prev.map((target, i) => i === index ? { ...target, ...update } : target));
+    };
+
+    const isTargetComplete = (target: CompareTarget) => !!(target.sdk && target.apiId && target.modelName && target.subscriptionId);
+
+    // Every column goes through the regular sendMessage path in parallel
+    const runComparison = () => {
+        if (!prompt.trim() || !targets.every(isTargetComplete)) {
+            return;
+        }
+
+        const requests = buildCompareRequests(buildRequest(), targets, prompt, Date.now().toString(36));
+        requests.forEach(request => vscode.postMessage({ type: 'sendMessage', data: request }));
+        setResults(Object.fromEntries(requests.map((request, index) => [index, { requestId: request.requestId, status: 'running', content: '' }])));
+    };
+
+    const stopComparison = () => {
+        Object.values(results)
+            .filter(result => result.status === 'running')
+            .forEach(result => vscode.postMessage({ type: 'stopMessage', data: { requestId: result.requestId } }));
+    };
+
+    const parsePrice = (value: string) => value === '' ? undefined : Number(value);
+
+    return (
+        <div className="compare-view">
+            <div className="compare-columns">
+                {targets.map((target, index) => {
+                    const result = results[index];
+                    const cost = estimateCost(target, result);
+                    return (
+                        <div key={index} className="compare-column">
+                            <div className="compare-column-header">
+                                <span className="message-type">Target {index + 1}</span>
+                                {targets.length > MIN_TARGETS && (
+                                    <button
+                                        className="message-action-button"
+                                        onClick={() => setTargets(prev => prev.filter((_, i) => i !== index))}
+                                        disabled={isRunning}
+                                    >
+                                        Remove
+                                    </button>
+                                )}
+                            </div>
+                            <div className="config-group">
+                                <select value={target.sdk} onChange={(e) => updateTarget(index, { sdk: e.target.value })} title="SDK">
+                                    {SDK_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                                <select value={target.apiId} onChange={(e) => updateTarget(index, { apiId: e.target.value })} title="API">
+                                    <option value="">Select API</option>
+                                    {apis.map(api => (
+                                        <option key={api.id} value={api.id}>{api.displayName}</option>
+                                    ))}
+                                </select>
+                                <select value={target.modelName} onChange={(e) => updateTarget(index, { modelName: e.target.value, ...getCatalogPrices(e.target.value) })} title="Model">
+                                    <option value="">Select Model</option>
+                                    {models.map(model => (
+                                        <option key={model.modelName} value={model.modelName}>{model.displayName}</option>
+                                    ))}
+                                </select>
+                                <select value={target.subscriptionId} onChange={(e) => updateTarget(index, { subscriptionId: e.target.value })} title="Subscription">
+                                    <option value="">Select Subscription</option>
+                                    {subscriptions.map(sub => (
+                                        <option key={sub.id} value={sub.id}>{sub.displayName}</option>
+                                    ))}
+                                </select>
+                                <div className="compare-prices">
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={target.inputPricePerMillion ?? ''}
+                                        onChange={(e) => updateTarget(index, { inputPricePerMillion: parsePrice(e.target.value) })}
+                                        placeholder={`${priceCatalog?.currency || '$'} / 1M input`}
+                                        title="Price per million input tokens"
+                                    />
+                                    <input
+                                        type="number"
+                                        step="0.01"
+                                        value={target.outputPricePerMillion ?? ''}
+                                        onChange={(e) => updateTarget(index, { outputPricePerMillion: parsePrice(e.target.value) })}
+                                        placeholder={`${priceCatalog?.currency || '$'} / 1M output`}
+                                        title="Price per million output tokens"
+                                    />
+                                </div>
+                            </div>
+                            <div className="compare-stats">
+                                <span>Latency: {result?.latency !== undefined ? `${result.latency}ms` : '—'}</span>
+                                {result?.timeToFirstToken !== undefined && <span>TTFT: {result.timeToFirstToken}ms</span>}
+                                {result?.attempts !== undefined && result.attempts > 1 && <span>Attempts: {result.attempts}</span>}
+                                <span>Tokens: {result?.tokens ? `${result.tokens.prompt_tokens} + ${result.tokens.completion_tokens} = ${result.tokens.total_tokens}` : '—'}</span>
+                                <span>Cost: {cost !== undefined ? (priceCatalog ? formatCost(cost, priceCatalog.currency) : `$${cost.toFixed(6)}`) : '—'}</span>
+                            </div>
+                            <div className={`compare-output ${result?.status || ''}`}>
+                                {result?.status === 'running' && !result.content && (
+                                    <div className="loading-dots">
+                                        <span></span>
+                                        <span></span>
+                                        <span></span>
+                                    </div>
+                                )}
+                                {result?.status === 'error'
+                                    ? <pre className="compare-error">{result.error}</pre>
+                                    : <pre>{result?.content}</pre>}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder="Prompt sent to every target..."
+                        rows={3}
+                        disabled={isRunning}
+                    />
+                    {isRunning ? (
+                        <button onClick={stopComparison} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={runComparison}
+                            disabled={!prompt.trim() || !targets.every(isTargetComplete)}
+                            className="send-button"
+                        >
+                            Compare
+                        </button>
+                    )}
+                    <button
+                        onClick={() => setTargets(prev => [...prev, { ...defaultTarget, ...getCatalogPrices(defaultTarget.modelName) }])}
+                        disabled={isRunning || targets.length >= MAX_TARGETS}
+                        className="add-button"
+                    >
+                        Add Target
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CompareView;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { HeaderPreset, KeyValuePair } from '../../types';
+import { validateCustomHeaders } from '../../services/requestOptions';
+
+interface CustomHeadersEditorProps {
+    apiId: string;
+    headers: KeyValuePair[];
+    queryParams: KeyValuePair[];
+    presets: HeaderPreset[]; // Presets saved for the selected API
+    onChange: (update: { headers?: KeyValuePair[]; queryParams?: KeyValuePair[] }) => void;
+}
+
+export const KeyValueRows: React.FC<{
+    label: string;
+    pairs: KeyValuePair[];
+    keyPlaceholder: string;
+    onChange: (pairs: KeyValuePair[]) => void;
+}> = ({ label, pairs, keyPlaceholder, onChange }) => {
+    const updatePair = (index: number, update: Partial<KeyValuePair>) => {
+        onChange(pairs.map((pair, i) => i === index ? { ...pair, ...update } : pair));
+    };
+
+    return (
+        <div className="key-value-editor">
+            {pairs.map((pair, index) => (
+                <div key={index} className="key-value-row">
+                    <input
+                        type="checkbox"
+                        checked={pair.enabled}
+                        onChange={(e) => updatePair(index, { enabled: e.target.checked })}
+                        title="Send this entry"
+                    />
+                    <input
+                        type="text"
+                        value={pair.key}
+                        onChange={(e) => updatePair(index, { key: e.target.value })}
+                        placeholder={keyPlaceholder}
+                    />
+                    <input
+                        type="text"
+                        value={pair.value}
+                        onChange={(e) => updatePair(index, { value: e.target.value })}
+                        placeholder="Value"
+                    />
+                    <button
+                        className="message-action-button"
+                        onClick={() => onChange(pairs.filter((_, i) => i !== index))}
+                        title="Remove"
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            <button
+                className="message-action-button"
+                onClick={() => onChange([...pairs, { key: '', value: '', enabled: true }])}
+            >
+                Add {label}
+            </button>
+        </div>
+    );
+};
+
+const CustomHeadersEditor: React.FC<CustomHeadersEditorProps> = ({ apiId, headers, queryParams, presets, onChange }) => {
+    const [selectedPreset, setSelectedPreset] = useState('');
+    const errors = validateCustomHeaders(headers);
+    const preset = presets.find(item => item.name === selectedPreset);
+
+    return (
+        <div className="custom-headers">
+            <div className="config-group">
+                <label htmlFor="header-preset-select">Preset:</label>
+                <div className="preset-controls">
+                    <select
+                        id="header-preset-select"
+                        value={preset ? selectedPreset : ''}
+                        onChange={(e) => setSelectedPreset(e.target.value)}
+                        disabled={!apiId}
+                    >
+                        <option value="">{presets.length > 0 ? 'Select Preset' : 'No presets for this API'}</option>
+                        {presets.map(item => (
+                            <option key={item.name} value={item.name}>{item.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        className="message-action-button"
+                        onClick={() => preset && onChange({ headers: preset.headers, queryParams: preset.queryParams })}
+                        disabled={!preset}
+                    >
+                        Load
+                    </button>
+                    <button
+                        className="message-action-button"
+                        onClick={() => vscode.postMessage({
+                            type: 'saveHeaderPreset',
+                            data: { apiId, preset: { name: preset?.name || '', headers, queryParams } }
+                        })}
+                        disabled={!apiId}
+                        title="Save the current headers and query parameters for the selected API"
+                    >
+                        Save
+                    </button>
+                    <button
+                        className="message-action-button"
+                        onClick={() => vscode.postMessage({ type: 'deleteHeaderPreset', data: { apiId, name: selectedPreset } })}
+                        disabled={!preset}
+                    >
+                        Delete
+                    </button>
+                </div>
+            </div>
+
+            <label>Headers:</label>
+            <KeyValueRows
+                label="Header"
+                pairs={headers}
+                keyPlaceholder="x-tenant-id"
+                onChange={(pairs) => onChange({ headers: pairs })}
+            />
+
+            <label>Query Parameters:</label>
+            <KeyValueRows
+                label="Query Parameter"
+                pairs={queryParams}
+                keyPlaceholder="tier"
+                onChange={(pairs) => onChange({ queryParams: pairs })}
+            />
+
+            {errors.length > 0 && (
+                <ul className="parameter-issues">
+                    {errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default CustomHeadersEditor;
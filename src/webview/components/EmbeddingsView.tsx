@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EmbeddingsResponse } from '../../types';
+import { similarityMatrix, validateEmbeddingsRequest } from '../../services/embeddings';
+import AttemptTable from './AttemptTable';
+
+export const EMBEDDINGS_REQUEST_PREFIX = 'emb-';
+
+// Leading values shown per vector; the full vectors are in the copied JSON
+const PREVIEW_VALUES = 6;
+
+interface EmbeddingsViewProps {
+    canSend: boolean;
+    models: Array<{ modelName: string; displayName: string }>;
+    // SDK, API, subscription, auth mode and custom headers / query parameters from Settings
+    buildRequest: () => Record<string, any>;
+}
+
+const EmbeddingsView: React.FC<EmbeddingsViewProps> = ({ canSend, models, buildRequest }) => {
+    const [inputsText, setInputsText] = useState('');
+    const [modelName, setModelName] = useState('');
+    const [dimensions, setDimensions] = useState('');
+    const [requestId, setRequestId] = useState<string | null>(null);
+    const [response, setResponse] = useState<{ inputs: string[]; result: EmbeddingsResponse } | null>(null);
+    // Read by the message listener, which is registered once
+    const pendingRef = useRef<{ requestId: string; inputs: string[] } | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            const pending = pendingRef.current;
+            if (message.type === 'embeddingsResponse' && pending && message.data.requestId === pending.requestId) {
+                pendingRef.current = null;
+                setRequestId(null);
+                setResponse({ inputs: pending.inputs, result: message.data });
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    // One input per line
+    const inputs = inputsText.split('\n').map(line => line.trim()).filter(line => line !== '');
+    const parsedDimensions = dimensions.trim() === '' ? undefined : Number(dimensions);
+    const errors = inputsText.trim() === '' ? [] : validateEmbeddingsRequest({ inputs, dimensions: parsedDimensions });
+
+    const send = () => {
+        const settings = buildRequest();
+        const id = `${EMBEDDINGS_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        pendingRef.current = { requestId: id, inputs };
+        setRequestId(id);
+        setResponse(null);
+        vscode.postMessage({
+            type: 'sendEmbeddings',
+            data: {
+                requestId: id,
+                sdk: settings.sdk,
+                apiId: settings.apiId,
+                subscriptionId: settings.subscriptionId,
+                authMode: settings.authMode,
+                entraAudience: settings.entraAudience,
+                customHeaders: settings.customHeaders,
+                queryParams: settings.queryParams,
+                apiVersion: settings.apiVersion,
+                modelName: modelName.trim(),
+                inputs,
+                dimensions: parsedDimensions
+            }
+        });
+    };
+
+    const stop = () => {
+        if (requestId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId } });
+        }
+    };
+
+    const result = response?.result;
+    const vectors = result && !result.error ? result.vectors : [];
+    const matrix = vectors.length > 1 ? similarityMatrix(vectors) : [];
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                <label className="batch-option">
+                    Deployment
+                    <input
+                        type="text"
+                        className="embeddings-input"
+                        list="embeddings-models"
+                        value={modelName}
+                        onChange={(e) => setModelName(e.target.value)}
+                        placeholder="text-embedding-3-small"
+                    />
+                    <datalist id="embeddings-models">
+                        {models.map(model => <option key={model.modelName} value={model.modelName}>{model.displayName}</option>)}
+                    </datalist>
+                </label>
+                <label className="batch-option">
+                    Dimensions
+                    <input
+                        type="number"
+                        min="1"
+                        value={dimensions}
+                        onChange={(e) => setDimensions(e.target.value)}
+                        placeholder="Default"
+                    />
+                </label>
+            </div>
+
+            <textarea
+                className="embeddings-inputs"
+                value={inputsText}
+                onChange={(e) => setInputsText(e.target.value)}
+                placeholder="One input per line"
+                rows={6}
+            />
+            {errors.length > 0 && (
+                <ul className="parameter-issues">
+                    {errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+            )}
+            {result?.error && <div className="schema-violations">{result.error}</div>}
+            {result?.attempts && result.attempts.length > 1 && <AttemptTable attempts={result.attempts} />}
+
+            {result && !result.error && (
+                <div className="batch-summary">
+                    <span>Inputs: {vectors.length}</span>
+                    <span>Dimensions: {vectors[0]?.length ?? '—'}</span>
+                    <span>Tokens: {result.tokens?.prompt_tokens ?? '—'}</span>
+                    <span>Latency: {result.latency}ms</span>
+                    <button
+                        className="message-action-button"
+                        onClick={() => navigator.clipboard.writeText(JSON.stringify(vectors))}
+                    >
+                        Copy Vectors
+                    </button>
+                </div>
+            )}
+
+            <div className="batch-results">
+                {matrix.length > 0 && (
+                    <table className="similarity-matrix">
+                        <thead>
+                            <tr>
+                                <th>Cosine similarity</th>
+                                {matrix.map((_, index) => <th key={index} title={response?.inputs[index]}>#{index + 1}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {matrix.map((row, i) => (
+                                <tr key={i}>
+                                    <th title={response?.inputs[i]}>#{i + 1} {response?.inputs[i]}</th>
+                                    {row.map((value, j) => (
+                                        <td
+                                            key={j}
+                                            className="similarity-cell"
+                                            // Shade by similarity so the closest pairs stand out
+                                            style={{ backgroundColor: `rgba(55, 148, 255, ${Math.max(0, value) * 0.6})` }}
+                                        >
+                                            {value.toFixed(3)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {vectors.length > 0 && (
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>#</th>
+                                <th>Input</th>
+                                <th>Vector</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {vectors.map((vector, index) => (
+                                <tr key={index}>
+                                    <td>{index + 1}</td>
+                                    <td title={response?.inputs[index]}>{response?.inputs[index]}</td>
+                                    <td>[{vector.slice(0, PREVIEW_VALUES).map(value => value.toFixed(4)).join(', ')}{vector.length > PREVIEW_VALUES ? ', …' : ''}]</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {requestId ? (
+                        <button onClick={stop} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={send}
+                            disabled={!canSend || !modelName.trim() || inputs.length === 0 || errors.length > 0}
+                            className="send-button"
+                            title="Sends through the SDK, API and subscription selected in Settings"
+                        >
+                            Embed
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EmbeddingsView;
@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { GatewayHeaderCategory } from '../../types';
+import { describeGatewayHeaders } from '../../services/gatewayHeaders';
+
+interface HeaderInspectorProps {
+    headers: Record<string, string>;
+}
+
+const CATEGORY_LABELS: Record<GatewayHeaderCategory, string> = {
+    'rate-limit': 'Rate limit',
+    'retry': 'Retry',
+    'usage': 'Usage',
+    'cache': 'Cache',
+    'routing': 'Routing',
+    'tracing': 'Tracing',
+    'policy': 'Policy',
+    'http': 'HTTP'
+};
+
+const HeaderInspector: React.FC<HeaderInspectorProps> = ({ headers }) => {
+    const [showHttpHeaders, setShowHttpHeaders] = useState(false);
+    const described = describeGatewayHeaders(headers);
+    const visible = showHttpHeaders ? described : described.filter(header => header.category !== 'http');
+    const hiddenCount = described.length - visible.length;
+
+    return (
+        <div className="header-inspector">
+            <table>
+                <tbody>
+                    {visible.map(header => (
+                        <tr key={header.name} className={`header-row ${header.category}`}>
+                            <td><span className="header-category">{CATEGORY_LABELS[header.category]}</span></td>
+                            <td className="header-name" title={header.label}>{header.name}</td>
+                            <td className="header-value">
+                                {header.value}
+                                {header.decoded && <span className="header-decoded">{header.decoded}</span>}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {(hiddenCount > 0 || showHttpHeaders) && (
+                <button className="message-action-button" onClick={() => setShowHttpHeaders(!showHttpHeaders)}>
+                    {showHttpHeaders ? 'Hide standard HTTP headers' : `Show ${hiddenCount} standard HTTP header(s)`}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default HeaderInspector;
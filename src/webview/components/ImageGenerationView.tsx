@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MediaResponse } from '../../types';
+import { IMAGE_QUALITIES, IMAGE_SIZES } from '../../services/mediaRequests';
+import AttemptTable from './AttemptTable';
+
+export const IMAGE_REQUEST_PREFIX = 'img-';
+
+interface ImageGenerationViewProps {
+    canSend: boolean;
+    models: Array<{ modelName: string; displayName: string }>;
+    // SDK, API, subscription, auth mode and custom headers / query parameters from Settings
+    buildRequest: () => Record<string, any>;
+}
+
+const ImageGenerationView: React.FC<ImageGenerationViewProps> = ({ canSend, models, buildRequest }) => {
+    const [prompt, setPrompt] = useState('');
+    const [modelName, setModelName] = useState('');
+    const [size, setSize] = useState(IMAGE_SIZES[0]);
+    const [quality, setQuality] = useState(IMAGE_QUALITIES[0]);
+    const [count, setCount] = useState(1);
+    const [requestId, setRequestId] = useState<string | null>(null);
+    const [response, setResponse] = useState<MediaResponse | null>(null);
+    // Read by the message listener, which is registered once
+    const requestIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (message.type === 'mediaResponse' && message.data.requestId === requestIdRef.current) {
+                requestIdRef.current = null;
+                setRequestId(null);
+                setResponse(message.data);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const generate = () => {
+        const settings = buildRequest();
+        const id = `${IMAGE_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        requestIdRef.current = id;
+        setRequestId(id);
+        setResponse(null);
+        vscode.postMessage({
+            type: 'generateImage',
+            data: {
+                requestId: id,
+                sdk: settings.sdk,
+                apiId: settings.apiId,
+                subscriptionId: settings.subscriptionId,
+                authMode: settings.authMode,
+                entraAudience: settings.entraAudience,
+                customHeaders: settings.customHeaders,
+                queryParams: settings.queryParams,
+                apiVersion: settings.apiVersion,
+                modelName: modelName.trim(),
+                prompt,
+                size,
+                // 'auto' is the service default, so it is not sent to older DALL·E deployments
+                quality: quality === 'auto' ? undefined : quality,
+                n: count > 1 ? count : undefined
+            }
+        });
+    };
+
+    const stop = () => {
+        if (requestId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId } });
+        }
+    };
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                <label className="batch-option">
+                    Deployment
+                    <input
+                        type="text"
+                        className="embeddings-input"
+                        list="image-models"
+                        value={modelName}
+                        onChange={(e) => setModelName(e.target.value)}
+                        placeholder="gpt-image-1"
+                    />
+                    <datalist id="image-models">
+                        {models.map(model => <option key={model.modelName} value={model.modelName}>{model.displayName}</option>)}
+                    </datalist>
+                </label>
+                <label className="batch-option">
+                    Size
+                    <select value={size} onChange={(e) => setSize(e.target.value)}>
+                        {IMAGE_SIZES.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </label>
+                <label className="batch-option">
+                    Quality
+                    <select value={quality} onChange={(e) => setQuality(e.target.value)}>
+                        {IMAGE_QUALITIES.map(option => <option key={option} value={option}>{option}</option>)}
+                    </select>
+                </label>
+                <label className="batch-option">
+                    Images
+                    <input
+                        type="number"
+                        min="1"
+                        max="10"
+                        value={count}
+                        onChange={(e) => setCount(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                    />
+                </label>
+            </div>
+            <span className="batch-dataset">Needs the Azure OpenAI SDK or the OpenAI SDK in Settings</span>
+
+            {response?.error && <div className="schema-violations">{response.error}</div>}
+            {response?.attempts && response.attempts.length > 1 && <AttemptTable attempts={response.attempts} />}
+            {response && !response.error && (
+                <div className="batch-summary">
+                    <span>Images: {response.images?.length ?? 0}</span>
+                    <span>Latency: {response.latency}ms</span>
+                </div>
+            )}
+
+            <div className="batch-results media-results">
+                {response?.images?.map((image, index) => (
+                    <div key={index} className="generated-image">
+                        <img src={image.b64Json ? `data:image/png;base64,${image.b64Json}` : image.url} alt={image.revisedPrompt || prompt} />
+                        {image.revisedPrompt && <div className="attachment-size">Revised prompt: {image.revisedPrompt}</div>}
+                        <button
+                            className="message-action-button"
+                            onClick={() => vscode.postMessage({
+                                type: 'saveMedia',
+                                data: { fileName: `image-${Date.now()}-${index + 1}.png`, base64: image.b64Json, url: image.url }
+                            })}
+                        >
+                            Save to Workspace
+                        </button>
+                    </div>
+                ))}
+                {requestId && (
+                    <div className="loading-dots">
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                    </div>
+                )}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        placeholder="Describe the image to generate"
+                        rows={3}
+                    />
+                    {requestId ? (
+                        <button onClick={stop} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={generate}
+                            disabled={!canSend || !modelName.trim() || !prompt.trim()}
+                            className="send-button"
+                            title="Sends through the SDK, API and subscription selected in Settings"
+                        >
+                            Generate
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ImageGenerationView;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LoadTestConfig, LoadTestSample } from '../../types';
+import { DEFAULT_LOAD_TEST_CONFIG, MAX_REQUESTS_PER_SECOND, bucketLoadTestSamples, summarizeLoadTest, validateLoadTestConfig } from '../../services/loadTest';
+
+export const LOAD_TEST_REQUEST_PREFIX = 'load-';
+
+interface LoadTestViewProps {
+    canRun: boolean; // Whether the selected API can be used; a gateway URL override does not need one
+    canRunStub: boolean; // Whether the SDK settings allow a run against a gateway URL override
+    // Settings of the main selection (SDK, API, model, subscription, parameters, ...)
+    buildRequest: () => Record<string, any>;
+}
+
+const LoadTestView: React.FC<LoadTestViewProps> = ({ canRun, canRunStub, buildRequest }) => {
+    const [config, setConfig] = useState<LoadTestConfig>(DEFAULT_LOAD_TEST_CONFIG);
+    const [gatewayUrl, setGatewayUrl] = useState('');
+    const [gatewayKey, setGatewayKey] = useState('');
+    const [runId, setRunId] = useState<string | null>(null);
+    const [samples, setSamples] = useState<LoadTestSample[]>([]);
+    const [skipped, setSkipped] = useState(0);
+    const [runError, setRunError] = useState<string | null>(null);
+    // Read by the message listener, which is registered once
+    const runIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            switch (message.type) {
+                case 'loadTestSample':
+                    if (message.data.runId === runIdRef.current) {
+                        setSamples(prev => [...prev, message.data.sample]);
+                    }
+                    break;
+                case 'loadTestComplete':
+                    if (message.data.runId === runIdRef.current) {
+                        setRunId(null);
+                        setSkipped(message.data.skipped);
+                    }
+                    break;
+                case 'error':
+                    if (message.data?.requestId && message.data.requestId === runIdRef.current) {
+                        setRunError(message.data.message);
+                    }
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const errors = validateLoadTestConfig(config);
+    const usesStub = gatewayUrl.trim() !== '';
+
+    const updateConfig = (update: Partial<LoadTestConfig>) => setConfig(prev => ({ ...prev, ...update }));
+    const parseOptional = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+    const startTest = () => {
+        const id = `${LOAD_TEST_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        runIdRef.current = id;
+        setRunId(id);
+        setSamples([]);
+        setSkipped(0);
+        setRunError(null);
+        vscode.postMessage({
+            type: 'runLoadTest',
+            data: {
+                runId: id,
+                request: buildRequest(),
+                config,
+                gatewayUrl: usesStub ? gatewayUrl.trim() : undefined,
+                gatewayKey: usesStub ? gatewayKey : undefined
+            }
+        });
+    };
+
+    const stopTest = () => {
+        if (runId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId: runId } });
+        }
+    };
+
+    const buckets = bucketLoadTestSamples(samples);
+    const summary = summarizeLoadTest(samples, skipped);
+    const expectedRequests = Math.floor(config.durationSeconds * config.requestsPerSecond);
+    const renderNumber = (label: string, key: keyof LoadTestConfig, min: number, max?: number, step = '1', title?: string) => (
+        <label className="batch-option" title={title}>
+            {label}
+            <input
+                type="number"
+                min={min}
+                max={max}
+                step={step}
+                value={config[key] ?? ''}
+                onChange={(e) => updateConfig({ [key]: parseOptional(e.target.value) } as Partial<LoadTestConfig>)}
+                disabled={!!runId}
+            />
+        </label>
+    );
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                {renderNumber('Requests/s', 'requestsPerSecond', 0.1, MAX_REQUESTS_PER_SECOND, '0.1')}
+                {renderNumber('Concurrency', 'concurrency', 1, undefined, '1', 'Most requests in flight; ticks that find every slot busy are skipped')}
+                {renderNumber('Duration (s)', 'durationSeconds', 1)}
+                {renderNumber('Prompt tokens', 'promptTokens', 1, undefined, '1', 'Approximate prompt size')}
+                {renderNumber('Max tokens', 'maxTokens', 1)}
+                {renderNumber('Configured TPM', 'configuredTpm', 1, undefined, '1', 'tokens-per-minute of the llm-token-limit policy, to compare with where 429s start')}
+            </div>
+            <div className="batch-toolbar">
+                <label className="batch-option">
+                    Gateway URL
+                    <input
+                        type="text"
+                        className="embeddings-input load-test-url"
+                        value={gatewayUrl}
+                        onChange={(e) => setGatewayUrl(e.target.value)}
+                        placeholder="Selected API (or e.g. http://localhost:8080/openai for a stub)"
+                        disabled={!!runId}
+                    />
+                </label>
+                {usesStub && (
+                    <label className="batch-option">
+                        Key
+                        <input
+                            type="password"
+                            className="embeddings-input"
+                            value={gatewayKey}
+                            onChange={(e) => setGatewayKey(e.target.value)}
+                            placeholder="Optional"
+                            disabled={!!runId}
+                        />
+                    </label>
+                )}
+            </div>
+
+            {errors.length > 0 && (
+                <ul className="parameter-issues">
+                    {errors.map((error, index) => <li key={index}>{error}</li>)}
+                </ul>
+            )}
+            {runError && <div className="schema-violations">{runError}</div>}
+
+            <div className="batch-summary">
+                <span>Sent: {summary.sent}/{expectedRequests}</span>
+                <span>Accepted: {summary.accepted}</span>
+                <span className={summary.throttled > 0 ? 'schema-invalid' : ''}>429: {summary.throttled}</span>
+                <span>Errors: {summary.errors}</span>
+                {summary.skipped > 0 && <span title="Ticks skipped because every concurrency slot was busy">Skipped: {summary.skipped}</span>}
+                <span>Achieved: {summary.achievedRps ?? '—'} req/s</span>
+                <span>p50 / p95: {summary.p50LatencyMs ?? '—'} / {summary.p95LatencyMs ?? '—'}ms</span>
+            </div>
+            {summary.sent > 0 && (
+                <div className="batch-summary">
+                    <span>
+                        {summary.firstThrottleSecond !== undefined
+                            ? `First 429 after ${summary.firstThrottleSecond}s and ${summary.tokensBeforeFirstThrottle.toLocaleString('en-US')} accepted tokens`
+                            : `No 429 yet; ${summary.tokensBeforeFirstThrottle.toLocaleString('en-US')} tokens accepted`}
+                    </span>
+                    {config.configuredTpm !== undefined && (
+                        <span>Configured: {config.configuredTpm.toLocaleString('en-US')} tokens/min</span>
+                    )}
+                </div>
+            )}
+
+            <div className="batch-results load-test-charts">
+                {buckets.length > 0 && (
+                    <>
+                        <h4>Responses per second</h4>
+                        <ResponsiveContainer width="100%" height={180}>
+                            <BarChart data={buckets}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="second" unit="s" />
+                                <YAxis allowDecimals={false} />
+                                <Tooltip />
+                                <Legend />
+                                <Bar dataKey="accepted" stackId="responses" fill="#06d6a0" name="Accepted" />
+                                <Bar dataKey="throttled" stackId="responses" fill="#ef476f" name="429" />
+                                <Bar dataKey="errors" stackId="responses" fill="#f7931e" name="Other errors" />
+                            </BarChart>
+                        </ResponsiveContainer>
+
+                        <h4>Rate limit headers</h4>
+                        <ResponsiveContainer width="100%" height={180}>
+                            <LineChart data={buckets}>
+                                <CartesianGrid strokeDasharray="3 3" />
+                                <XAxis dataKey="second" unit="s" />
+                                <YAxis yAxisId="tokens" />
+                                <YAxis yAxisId="retry" orientation="right" unit="s" />
+                                <Tooltip />
+                                <Legend />
+                                <Line yAxisId="tokens" type="stepAfter" dataKey="remainingTokens" stroke="#0078d4" name="Remaining tokens" connectNulls dot={false} />
+                                <Line yAxisId="retry" type="stepAfter" dataKey="retryAfterSeconds" stroke="#ef476f" name="Retry after" connectNulls />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </>
+                )}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {runId ? (
+                        <button onClick={stopTest} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={startTest}
+                            disabled={errors.length > 0 || !(usesStub ? canRunStub : canRun)}
+                            className="send-button"
+                            title="Sends through the SDK, model, parameters and custom headers selected in Settings"
+                        >
+                            Start Load Test
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LoadTestView;
@@ -1,75 +1,198 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import OpenAI, { AzureOpenAI } from "openai";
 import ModelClient, { isUnexpected } from "@azure-rest/ai-inference";
 import { AzureKeyCredential } from "@azure/core-auth";
+import { ModelParameters, ReasoningEffort, ToolCall, ResponseFormat, ResponseFormatType, StructuredOutputValidation, PromptTemplate, PlaygroundRequest, PlaygroundSession, PlaygroundSessionSettings, PlaygroundAuthMode, KeyValuePair, HeaderPreset, RawHttpDraft, MessageAttachment, ResponsesOptions, ResponsesToolItem, RequestAttempt, PriceCatalog } from '../../types';
+import { validateModelParameters, getSupportedParameters } from '../../services/modelParameters';
+import { TOOL_CHOICE_KEYWORDS, parseToolDefinitions } from '../../services/toolCalling';
+import { renderTemplate } from '../../services/promptTemplates';
+import { SESSION_VERSION, redactSession } from '../../services/playgroundSession';
+import { AUTH_MODES, DEFAULT_ENTRA_AUDIENCE, usesEntraToken, usesSubscriptionKey } from '../../services/gatewayAuth';
+import { toKeyValueRecord, validateCustomHeaders } from '../../services/requestOptions';
+import { RAW_HTTP_SDK } from '../../services/rawHttp';
+import { supportsMediaEndpoints } from '../../services/mediaRequests';
+import { DEFAULT_RESPONSES_OPTIONS, RESPONSES_BUILT_IN_TOOLS, findChainStart, validateResponsesOptions } from '../../services/responsesApi';
+import { IMAGE_MIME_TYPES, formatBytes, getAttachmentKind, supportsFileAttachments, validateAttachments } from '../../services/attachments';
+import { addMessageTokens, estimatePromptTokens, getEstimateDrift, getTokenBudgetWarnings } from '../../services/tokenCount';
+import { calculateCost, findModelPrice, formatCost } from '../../services/pricing';
+import ToolCallPanel from './ToolCallPanel';
+import CompareView from './CompareView';
+import BatchView from './BatchView';
+import SemanticCacheView from './SemanticCacheView';
+import LoadTestView from './LoadTestView';
+import PromptTemplateForm from './PromptTemplateForm';
+import TraceTimeline from './TraceTimeline';
+import HeaderInspector from './HeaderInspector';
+import CustomHeadersEditor from './CustomHeadersEditor';
+import RawHttpView from './RawHttpView';
+import EmbeddingsView from './EmbeddingsView';
+import AttachmentList from './AttachmentList';
+import ImageGenerationView from './ImageGenerationView';
+import AudioView from './AudioView';
+import AttemptTable from './AttemptTable';
 
 // Declare global vscode API (provided by webview)
 declare global {
     interface Window {
         vscode: {
             postMessage(message: any): void;
+            getState(): any;
+            setState(state: any): void;
         };
     }
     const vscode: {
         postMessage(message: any): void;
+        getState(): any;
+        setState(state: any): void;
     };
 }
 
+type MessageRole = 'system' | 'user' | 'assistant' | 'tool';
+
 interface PlaygroundMessage {
     id: string;
-    type: 'user' | 'assistant';
+    type: MessageRole;
     content: string;
+    additionalChoices?: string[]; // Shown for n > 1, never sent back to the model
+    toolCallId?: string;
+    toolCalls?: ToolCall[];
+    attachments?: MessageAttachment[];
+    structuredOutput?: StructuredOutputValidation;
+    responseId?: string; // Cleared once the stored response is deleted
+    reasoningSummary?: string[];
+    builtInToolCalls?: ResponsesToolItem[];
+    storedResponse?: { response?: any; error?: string };
     timestamp: Date;
     tokens?: {
         prompt_tokens: number;
         completion_tokens: number;
         total_tokens: number;
+        cached_tokens?: number;
     };
+    modelName?: string; // Model the reply was requested from, for pricing
+    requestSettings?: Omit<PlaygroundRequest, 'messages'>; // Settings the reply was requested with, for export as code
+    estimatedPromptTokens?: number; // Local tokenizer count of the request, to compare with usage
     latency?: number;
+    timeToFirstToken?: number;
+    tokensPerSecond?: number;
+    isStreaming?: boolean;
+    stopped?: boolean;
+    error?: string; // Failed requests stay in the chat but are not sent back to the model
+    attempts?: RequestAttempt[];
     rawRequest?: any;
     rawResponse?: any;
     traceInfo?: any;
+    responseHeaders?: Record<string, string>;
 }
 
+type PlaygroundMode = 'chat' | 'compare' | 'batch' | 'load' | 'cache' | 'embeddings' | 'images' | 'audio';
+
 interface PlaygroundState {
     messages: PlaygroundMessage[];
     sdk: string;
     apiId: string;
     modelName: string;
     subscriptionId: string;
+    authMode: PlaygroundAuthMode;
+    entraAudience: string;
+    customHeaders: KeyValuePair[];
+    queryParams: KeyValuePair[];
+    headerPresets: Record<string, HeaderPreset[]>; // Keyed by API id
+    rawHttp: RawHttpDraft;
     apiVersion: string;
     inferenceApiType: 'Chat Completions' | 'Responses API';
     stream: boolean;
     trace: boolean;
     instructions: string;
+    parameters: ModelParameters;
+    toolsJson: string;
+    toolChoice: string;
+    parallelToolCalls: boolean;
+    toolMocksJson: string;
+    responseFormatType: ResponseFormatType;
+    schemaName: string;
+    schemaStrict: boolean;
+    schemaJson: string;
+    responsesOptions: ResponsesOptions;
+    tokenLimit?: number;
     currentPrompt: string;
     isLoading: boolean;
+    activeRequestId: string | null;
     apis: Array<{ id: string; name: string; displayName: string }>;
     subscriptions: Array<{ id: string; name: string; displayName: string }>;
     models: Array<{ modelName: string; displayName: string; usage?: number }>;
 }
 
+const CHAT_REQUEST_PREFIX = 'req-';
+
+const EXAMPLE_TOOLS = [
+    {
+        type: 'function',
+        function: {
+            name: 'get_weather',
+            description: 'Get the current weather for a city',
+            parameters: {
+                type: 'object',
+                properties: {
+                    city: { type: 'string', description: 'City name' },
+                    unit: { type: 'string', enum: ['celsius', 'fahrenheit'] }
+                },
+                required: ['city']
+            }
+        }
+    }
+];
+
 const Playground: React.FC = () => {
     const messagesContainerRef = useRef<HTMLDivElement>(null);
     const [isSettingsPanelCollapsed, setIsSettingsPanelCollapsed] = useState(false);
+    const [mode, setMode] = useState<PlaygroundMode>('chat');
     const [state, setState] = useState<PlaygroundState>({
         messages: [],
         sdk: 'azure-openai',
         apiId: '',
         modelName: '',
         subscriptionId: '',
+        authMode: 'subscription-key',
+        entraAudience: DEFAULT_ENTRA_AUDIENCE,
+        customHeaders: [],
+        queryParams: [],
+        headerPresets: {},
+        rawHttp: { method: 'POST', path: '', headers: [], body: '' },
         apiVersion: '2025-03-01-preview',
         inferenceApiType: 'Chat Completions',
         stream: false,
         trace: false,
         instructions: 'You are an AI assistant that helps developers use the AI Gateway in Azure API Management.',
+        parameters: {},
+        toolsJson: '',
+        toolChoice: 'auto',
+        parallelToolCalls: true,
+        toolMocksJson: '',
+        responseFormatType: 'text',
+        schemaName: 'response',
+        schemaStrict: true,
+        schemaJson: '',
+        responsesOptions: DEFAULT_RESPONSES_OPTIONS,
         currentPrompt: '',
         isLoading: false,
+        activeRequestId: null,
         apis: [],
         subscriptions: [],
         models: []
     });
     const [expandedMessage, setExpandedMessage] = useState<string | null>(null);
+    const [composerRole, setComposerRole] = useState<'user' | 'system' | 'assistant'>('user');
+    const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+    const attachmentInputRef = useRef<HTMLInputElement>(null);
+    const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+    const [editDraft, setEditDraft] = useState('');
+    const [toolResultDrafts, setToolResultDrafts] = useState<Record<string, string>>({});
+    const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+    const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+    // Model, settings and local prompt token estimate of each request, attached to the reply when it arrives
+    const pendingRequestsRef = useRef<Record<string, Pick<PlaygroundMessage, 'modelName' | 'requestSettings' | 'estimatedPromptTokens'>>>({});
+    const [priceCatalog, setPriceCatalog] = useState<PriceCatalog | null>(null);
 
     // Function to scroll to the bottom of the messages container
     const scrollToBottom = () => {
@@ -82,7 +205,15 @@ const Playground: React.FC = () => {
         // Listen for messages from the extension
         const handleMessage = (event: MessageEvent) => {
             const message = event.data;
+            // Comparison and batch runs are handled by their own views
+            const requestId = message.data?.requestId;
+            if (requestId && !requestId.startsWith(CHAT_REQUEST_PREFIX)) {
+                return;
+            }
             switch (message.type) {
+                case 'messageChunk':
+                    handleMessageChunk(message.data);
+                    break;
                 case 'messageResponse':
                     handleMessageResponse(message.data);
                     break;
@@ -111,6 +242,10 @@ const Playground: React.FC = () => {
                         modelName: prev.modelName || (message.data.length > 0 ? message.data[0].modelName : '')
                     }));
                     break;
+                // Sent by commands that open a specific mode, e.g. Run Load Test
+                case 'setMode':
+                    setMode(message.data.mode as PlaygroundMode);
+                    break;
                 case 'setSelection':
                     console.log('[Playground] Received setSelection:', message.data);
                     setState(prev => ({
@@ -120,6 +255,24 @@ const Playground: React.FC = () => {
                         modelName: message.data.modelName || prev.modelName
                     }));
                     break;
+                case 'storedResponse':
+                    handleStoredResponse(message.data);
+                    break;
+                case 'headerPresetsData':
+                    setState(prev => ({ ...prev, headerPresets: message.data }));
+                    break;
+                case 'priceCatalogData':
+                    setPriceCatalog(message.data);
+                    break;
+                case 'loadPromptTemplate':
+                    loadPromptTemplate(message.data);
+                    break;
+                case 'requestSession':
+                    vscode.postMessage({ type: 'saveSession', data: sessionRef.current });
+                    break;
+                case 'loadSession':
+                    applySession(message.data);
+                    break;
                 case 'setFilters':
                     console.log('[Playground] Received setFilters:', message.data);
                     // Apply filters to playground state
@@ -132,21 +285,91 @@ const Playground: React.FC = () => {
                     break;
                 case 'error':
                     console.error('Playground error:', message.data.message);
-                    setState(prev => ({ ...prev, isLoading: false }));
+                    handleMessageError(message.data);
                     break;
             }
         };
 
         window.addEventListener('message', handleMessage);
+
+        // Restore the conversation after the panel was hidden, closed by a reload or deserialized
+        const persistedSession = vscode.getState();
+        if (persistedSession) {
+            applySession(persistedSession);
+        }
         
         // Request initial data
         vscode.postMessage({ type: 'getApis' });
         vscode.postMessage({ type: 'getSubscriptions' });
         vscode.postMessage({ type: 'getModels' });
+        vscode.postMessage({ type: 'getHeaderPresets' });
+        vscode.postMessage({ type: 'getPriceCatalog' });
 
         return () => window.removeEventListener('message', handleMessage);
     }, []);
 
+    // Persist the session whenever it changes; skipped mid-request to avoid serializing every streamed chunk
+    const buildSession = (): PlaygroundSession => {
+        const settings: PlaygroundSessionSettings = {
+            sdk: state.sdk,
+            apiId: state.apiId,
+            modelName: state.modelName,
+            subscriptionId: state.subscriptionId,
+            authMode: state.authMode,
+            entraAudience: state.entraAudience,
+            customHeaders: state.customHeaders,
+            queryParams: state.queryParams,
+            rawHttp: state.rawHttp,
+            apiVersion: state.apiVersion,
+            inferenceApiType: state.inferenceApiType,
+            stream: state.stream,
+            trace: state.trace,
+            instructions: state.instructions,
+            parameters: state.parameters,
+            toolsJson: state.toolsJson,
+            toolChoice: state.toolChoice,
+            parallelToolCalls: state.parallelToolCalls,
+            toolMocksJson: state.toolMocksJson,
+            responseFormatType: state.responseFormatType,
+            schemaName: state.schemaName,
+            schemaStrict: state.schemaStrict,
+            schemaJson: state.schemaJson,
+            responsesOptions: state.responsesOptions,
+            tokenLimit: state.tokenLimit
+        };
+        return {
+            version: SESSION_VERSION,
+            savedAt: new Date().toISOString(),
+            settings,
+            messages: state.messages.map(message => ({ ...message, isStreaming: false }))
+        };
+    };
+
+    const sessionRef = useRef<PlaygroundSession | null>(null);
+    useEffect(() => {
+        if (state.isLoading) {
+            return;
+        }
+        sessionRef.current = buildSession();
+        // Webview state is written to disk by VS Code, so request credentials are left out as in saved sessions
+        vscode.setState(redactSession(sessionRef.current));
+    }, [state]);
+
+    const applySession = (session: PlaygroundSession) => {
+        setState(prev => ({
+            ...prev,
+            ...session.settings,
+            rawHttp: session.settings.rawHttp || prev.rawHttp,
+            responsesOptions: session.settings.responsesOptions || prev.responsesOptions,
+            // Timestamps come back from JSON as strings
+            messages: (session.messages || []).map((message: any) => ({ ...message, timestamp: new Date(message.timestamp) })),
+            isLoading: false,
+            activeRequestId: null
+        }));
+        setEditingMessageId(null);
+        setMode('chat');
+    };
+
     // Auto-scroll when messages change
     useEffect(() => {
         // Use setTimeout to ensure the DOM has updated before scrolling
@@ -157,43 +380,245 @@ const Playground: React.FC = () => {
         return () => clearTimeout(timeoutId);
     }, [state.messages.length, state.isLoading]);
 
+    // Streamed deltas grow an assistant message keyed by the request id
+    const handleMessageChunk = (chunk: { requestId: string; delta: string }) => {
+        setState(prev => {
+            if (prev.activeRequestId !== chunk.requestId) {
+                return prev;
+            }
+
+            const existing = prev.messages.find(m => m.id === chunk.requestId);
+            if (existing) {
+                return {
+                    ...prev,
+                    messages: prev.messages.map(m =>
+                        m.id === chunk.requestId ? { ...m, content: m.content + chunk.delta } : m
+                    )
+                };
+            }
+
+            const streamingMessage: PlaygroundMessage = {
+                id: chunk.requestId,
+                type: 'assistant',
+                content: chunk.delta,
+                timestamp: new Date(),
+                isStreaming: true
+            };
+            return { ...prev, messages: [...prev.messages, streamingMessage] };
+        });
+    };
+
+    // Errors of the active request end it; errors of no request, such as a failed lookup, are shown without
+    // touching it, and errors of earlier requests are dropped like their chunks
+    const handleMessageError = (data: { requestId?: string; message: string; attempts?: RequestAttempt[] }) => {
+        if (data.requestId) {
+            delete pendingRequestsRef.current[data.requestId];
+        }
+        setState(prev => {
+            if (!data.requestId) {
+                const notice: PlaygroundMessage = { id: `${Date.now()}`, type: 'assistant', content: '', timestamp: new Date(), error: data.message };
+                return { ...prev, messages: [...prev.messages, notice] };
+            }
+            if (data.requestId !== prev.activeRequestId) {
+                return prev;
+            }
+
+            const messages = prev.messages.map(m => m.isStreaming ? { ...m, isStreaming: false } : m);
+            const failed = { error: data.message, attempts: data.attempts };
+            const exists = messages.some(m => m.id === data.requestId);
+            return {
+                ...prev,
+                isLoading: false,
+                activeRequestId: null,
+                messages: exists
+                    ? messages.map(m => m.id === data.requestId ? { ...m, ...failed } : m)
+                    : [...messages, { id: data.requestId, type: 'assistant', content: '', timestamp: new Date(), ...failed }]
+            };
+        });
+    };
+
     const handleMessageResponse = (response: any) => {
         const assistantMessage: PlaygroundMessage = {
-            id: Date.now().toString(),
+            id: response.requestId,
             type: 'assistant',
             content: response.content,
+            additionalChoices: response.additionalChoices,
+            toolCalls: response.toolCalls,
+            structuredOutput: response.structuredOutput,
+            responseId: response.responseId,
+            reasoningSummary: response.reasoningSummary,
+            builtInToolCalls: response.builtInToolCalls,
             timestamp: new Date(),
             tokens: response.tokens,
+            ...pendingRequestsRef.current[response.requestId],
             latency: response.latency,
+            timeToFirstToken: response.timeToFirstToken,
+            tokensPerSecond: response.tokensPerSecond,
+            isStreaming: false,
+            stopped: response.stopped,
+            attempts: response.attempts,
             rawRequest: response.rawRequest,
             rawResponse: response.rawResponse,
-            traceInfo: response.traceInfo
+            traceInfo: response.traceInfo,
+            responseHeaders: response.responseHeaders
         };
+        delete pendingRequestsRef.current[response.requestId];
 
+        setState(prev => {
+            // A late reply to an earlier request must not end the current one
+            if (response.requestId !== prev.activeRequestId) {
+                return prev;
+            }
+
+            const exists = prev.messages.some(m => m.id === assistantMessage.id);
+            return {
+                ...prev,
+                messages: exists
+                    ? prev.messages.map(m => m.id === assistantMessage.id ? { ...assistantMessage, timestamp: m.timestamp } : m)
+                    : [...prev.messages, assistantMessage],
+                isLoading: false,
+                activeRequestId: null
+            };
+        });
+    };
+
+    // A deleted response can no longer be chained from, so its id is dropped
+    const handleStoredResponse = (data: { messageId: string; action: 'retrieve' | 'delete'; response?: any; error?: string }) => {
         setState(prev => ({
             ...prev,
-            messages: [...prev.messages, assistantMessage],
-            isLoading: false
+            messages: prev.messages.map(message => {
+                if (message.id !== data.messageId) {
+                    return message;
+                }
+                if (data.error) {
+                    return { ...message, storedResponse: { error: data.error } };
+                }
+                return data.action === 'delete'
+                    ? { ...message, responseId: undefined, storedResponse: undefined }
+                    : { ...message, storedResponse: { response: data.response } };
+            })
         }));
+        if (data.action === 'retrieve' || data.error) {
+            setExpandedMessage(data.messageId);
+        }
     };
 
-    const sendMessage = () => {
-        if (!state.currentPrompt.trim() || !state.sdk || !state.apiId || !state.subscriptionId || !state.modelName.trim()) {
+    const parameterIssues = validateModelParameters(state.sdk, state.inferenceApiType, state.parameters);
+    const supportedParameters = getSupportedParameters(state.sdk, state.inferenceApiType);
+
+    const toRequestMessages = (history: PlaygroundMessage[]) => history.filter(message => !message.error).map(message => ({
+        role: message.type,
+        content: message.content,
+        toolCallId: message.toolCallId,
+        toolCalls: message.toolCalls,
+        attachments: message.attachments
+    }));
+
+    const { tools, errors: toolErrors } = parseToolDefinitions(state.toolsJson);
+    if (!TOOL_CHOICE_KEYWORDS.includes(state.toolChoice) && !tools.some(tool => tool.name === state.toolChoice)) {
+        toolErrors.push(`Tool choice '${state.toolChoice}' does not match any defined tool`);
+    }
+
+    // The schema itself is compiled by the extension; here we only need it to be a JSON object
+    const buildResponseFormat = (): { responseFormat?: ResponseFormat; error?: string } => {
+        if (state.responseFormatType !== 'json_schema') {
+            return { responseFormat: { type: state.responseFormatType } };
+        }
+
+        try {
+            const schema = JSON.parse(state.schemaJson);
+            if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+                return { error: 'JSON schema must be an object' };
+            }
+            if (!/^[a-zA-Z0-9_-]{1,64}$/.test(state.schemaName)) {
+                return { error: 'Schema name must be made of letters, digits, \'_\' or \'-\'' };
+            }
+            return { responseFormat: { type: 'json_schema', name: state.schemaName, schema, strict: state.schemaStrict } };
+        } catch (error) {
+            return { error: `JSON schema is not valid JSON: ${error instanceof Error ? error.message : error}` };
+        }
+    };
+    const { responseFormat, error: responseFormatError } = buildResponseFormat();
+
+    // API and credentials only; the raw HTTP and embeddings views bring their own path or deployment
+    const hasGateway = () => !!(state.apiId && (state.subscriptionId || !usesSubscriptionKey(state.authMode)));
+    const hasTarget = () => !!(state.sdk && hasGateway() && state.modelName.trim());
+    const headerErrors = validateCustomHeaders(state.customHeaders);
+
+    const isRawHttp = state.sdk === RAW_HTTP_SDK;
+    const isResponsesApi = state.sdk === 'azure-openai' && state.inferenceApiType === 'Responses API';
+    const responsesErrors = isResponsesApi ? validateResponsesOptions(state.responsesOptions) : [];
+    const filesSupported = supportsFileAttachments(state);
+    // Checked against the current SDK, so switching away from the Responses API flags files already in the conversation
+    const attachmentErrors = validateAttachments({
+        sdk: state.sdk,
+        inferenceApiType: state.inferenceApiType,
+        messages: [...toRequestMessages(state.messages), { role: composerRole, content: '', attachments: pendingAttachments }]
+    });
+    // A message with attachments may have no text
+    const hasComposedMessage = !!state.currentPrompt.trim() || pendingAttachments.length > 0;
+    // Counts the conversation plus whatever is in the composer; attachments are reported but not counted.
+    // The conversation is counted once per change, so typing only counts the draft
+    const historyEstimate = useMemo(
+        () => estimatePromptTokens(state.modelName, state.instructions, toRequestMessages(state.messages), tools),
+        [state.modelName, state.instructions, state.messages, state.toolsJson]
+    );
+    const promptEstimate = useMemo(
+        () => hasComposedMessage ? addMessageTokens(historyEstimate, { role: composerRole, content: state.currentPrompt, attachments: pendingAttachments }) : historyEstimate,
+        [historyEstimate, hasComposedMessage, state.currentPrompt, composerRole, pendingAttachments]
+    );
+    const lastRemainingTokens = [...state.messages].reverse().find(message => message.responseHeaders?.['x-ratelimit-remaining-tokens'])?.responseHeaders?.['x-ratelimit-remaining-tokens'];
+    const tokenBudgetWarnings = getTokenBudgetWarnings(promptEstimate, {
+        maxOutputTokens: state.parameters.maxCompletionTokens ?? state.parameters.maxTokens,
+        tokenLimit: state.tokenLimit,
+        remainingTokens: lastRemainingTokens !== undefined ? Number(lastRemainingTokens) : undefined
+    });
+
+    const canSend = () => hasTarget() && headerErrors.length === 0 && parameterIssues.length === 0 && toolErrors.length === 0 && !responseFormatError && responsesErrors.length === 0;
+
+    const setParameter = <K extends keyof ModelParameters>(parameter: K, value: ModelParameters[K]) => {
+        setState(prev => ({ ...prev, parameters: { ...prev.parameters, [parameter]: value } }));
+    };
+
+    // Empty numeric inputs clear the parameter so it is not sent at all
+    const renderNumberParameter = (parameter: keyof ModelParameters, label: string, step: string, placeholder: string) => {
+        const value = state.parameters[parameter] as number | undefined;
+        const hasIssue = parameterIssues.some(issue => issue.parameter === parameter);
+        return (
+            <div className={`config-group parameter-group ${hasIssue ? 'invalid' : ''} ${supportedParameters.includes(parameter) ? '' : 'unsupported'}`}>
+                <label htmlFor={`param-${parameter}`}>{label}:</label>
+                <input
+                    id={`param-${parameter}`}
+                    type="number"
+                    step={step}
+                    value={value ?? ''}
+                    placeholder={placeholder}
+                    onChange={(e) => setParameter(parameter, e.target.value === '' ? undefined : Number(e.target.value))}
+                />
+            </div>
+        );
+    };
+
+    // Sends the given conversation history to the extension and waits for the assistant reply
+    const requestCompletion = (history: PlaygroundMessage[]) => {
+        if (!canSend() || history.length === 0) {
             return;
         }
 
-        const userMessage: PlaygroundMessage = {
-            id: Date.now().toString(),
-            type: 'user',
-            content: state.currentPrompt,
-            timestamp: new Date()
+        const requestId = `${CHAT_REQUEST_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        const requestSettings = buildRequestSettings();
+        // Chained turns send less, but usage still counts the whole conversation
+        pendingRequestsRef.current[requestId] = {
+            modelName: state.modelName,
+            requestSettings,
+            estimatedPromptTokens: estimatePromptTokens(state.modelName, state.instructions, toRequestMessages(history), tools).tokens
         };
 
         setState(prev => ({
             ...prev,
-            messages: [...prev.messages, userMessage],
+            messages: history,
             isLoading: true,
-            currentPrompt: ''
+            activeRequestId: requestId
         }));
 
         const selectedApi = state.apis.find(api => api.id === state.apiId);
@@ -211,26 +636,320 @@ const Playground: React.FC = () => {
             console.warn('[Playground] No API selected or API not found for id:', state.apiId);
         }
 
+        // Chained turns only send what the stored response has not seen yet
+        const chain = isResponsesApi && state.responsesOptions.chainTurns
+            ? findChainStart(history.map(message => ({ role: message.type, responseId: message.responseId })))
+            : { startIndex: 0, previousResponseId: undefined };
+
         // Send message to extension
         vscode.postMessage({
             type: 'sendMessage',
             data: {
+                ...requestSettings,
+                requestId,
+                messages: toRequestMessages(history.slice(chain.startIndex)),
+                previousResponseId: chain.previousResponseId
+            }
+        });
+    };
+
+    // Request settings shared by the chat and the comparison columns
+    const buildRequestSettings = () => ({
+        sdk: state.sdk,
+        apiId: state.apiId,
+        modelName: state.modelName,
+        subscriptionId: state.subscriptionId,
+        authMode: state.authMode,
+        entraAudience: usesEntraToken(state.authMode) ? state.entraAudience : undefined,
+        customHeaders: toKeyValueRecord(state.customHeaders),
+        queryParams: toKeyValueRecord(state.queryParams),
+        apiVersion: state.apiVersion,
+        inferenceApiType: state.inferenceApiType,
+        stream: state.stream,
+        trace: state.trace,
+        instructions: state.instructions,
+        parameters: state.parameters,
+        tools: tools.length > 0 ? tools : undefined,
+        toolChoice: tools.length > 0 ? state.toolChoice : undefined,
+        // Only sent when disabled, models default to parallel calls
+        parallelToolCalls: tools.length > 0 && !state.parallelToolCalls ? false : undefined,
+        responseFormat: responseFormat?.type === 'text' ? undefined : responseFormat,
+        responsesOptions: isResponsesApi ? state.responsesOptions : undefined
+    });
+
+    const manageStoredResponse = (message: PlaygroundMessage, action: 'retrieve' | 'delete') => {
+        const settings = buildRequestSettings();
+        vscode.postMessage({
+            type: action === 'retrieve' ? 'retrieveResponse' : 'deleteResponse',
+            data: {
+                apiId: settings.apiId,
+                subscriptionId: settings.subscriptionId,
+                authMode: settings.authMode,
+                entraAudience: settings.entraAudience,
+                apiVersion: settings.apiVersion,
+                customHeaders: settings.customHeaders,
+                queryParams: settings.queryParams,
+                messageId: message.id,
+                responseId: message.responseId
+            }
+        });
+    };
+
+    const setResponsesOption = <K extends keyof ResponsesOptions>(option: K, value: ResponsesOptions[K]) => {
+        setState(prev => ({ ...prev, responsesOptions: { ...prev.responsesOptions, [option]: value } }));
+    };
+
+    const stopMessage = () => {
+        if (state.activeRequestId) {
+            vscode.postMessage({
+                type: 'stopMessage',
+                data: { requestId: state.activeRequestId }
+            });
+        }
+    };
+
+    const createMessage = (type: MessageRole, content: string, attachments?: MessageAttachment[]): PlaygroundMessage => ({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        type,
+        content,
+        attachments: attachments && attachments.length > 0 ? attachments : undefined,
+        timestamp: new Date()
+    });
+
+    const sendMessage = () => {
+        if (!hasComposedMessage || !canSend() || attachmentErrors.length > 0) {
+            return;
+        }
+
+        const history = [...state.messages, createMessage(composerRole, state.currentPrompt, pendingAttachments)];
+        setState(prev => ({ ...prev, currentPrompt: '' }));
+        setPendingAttachments([]);
+        requestCompletion(history);
+    };
+
+    // Appends the composed message to the conversation without calling the model
+    const addMessage = () => {
+        if (!hasComposedMessage) {
+            return;
+        }
+
+        const message = createMessage(composerRole, state.currentPrompt, pendingAttachments);
+        setState(prev => ({
+            ...prev,
+            messages: [...prev.messages, message],
+            currentPrompt: ''
+        }));
+        setPendingAttachments([]);
+    };
+
+    // Files are inlined as data URLs, so the request size grows by about a third over the file size
+    const attachFiles = (files: FileList | null) => {
+        Array.from(files || []).forEach(file => {
+            const reader = new FileReader();
+            reader.onload = () => {
+                const attachment: MessageAttachment = {
+                    kind: getAttachmentKind(file.type),
+                    name: file.name,
+                    mimeType: file.type || 'application/octet-stream',
+                    dataUrl: reader.result as string,
+                    size: file.size
+                };
+                setPendingAttachments(prev => [...prev, attachment]);
+            };
+            reader.readAsDataURL(file);
+        });
+    };
+
+    const deleteMessage = (messageId: string) => {
+        setState(prev => ({ ...prev, messages: prev.messages.filter(message => message.id !== messageId) }));
+        if (editingMessageId === messageId) {
+            setEditingMessageId(null);
+        }
+    };
+
+    const startEditing = (message: PlaygroundMessage) => {
+        setEditingMessageId(message.id);
+        setEditDraft(message.content);
+    };
+
+    const saveEdit = () => {
+        setState(prev => ({
+            ...prev,
+            messages: prev.messages.map(message =>
+                message.id === editingMessageId ? { ...message, content: editDraft } : message
+            )
+        }));
+        setEditingMessageId(null);
+    };
+
+    // Regenerating an assistant turn replaces it; any other turn keeps it and drops what follows
+    const regenerateFrom = (messageId: string) => {
+        const index = state.messages.findIndex(message => message.id === messageId);
+        if (index < 0) {
+            return;
+        }
+
+        const message = state.messages[index];
+        const history = state.messages.slice(0, message.type === 'assistant' ? index : index + 1);
+        setEditingMessageId(null);
+        requestCompletion(history);
+    };
+
+    // Exports the request that produced an assistant message with the settings it was sent with; replies
+    // from sessions saved before those were kept fall back to the current settings
+    const exportAsCode = (messageId: string) => {
+        const index = state.messages.findIndex(message => message.id === messageId);
+        if (index < 0) {
+            return;
+        }
+
+        vscode.postMessage({
+            type: 'exportCode',
+            data: {
+                ...(state.messages[index].requestSettings || buildRequestSettings()),
+                messages: toRequestMessages(state.messages.slice(0, index))
+            }
+        });
+    };
+
+    // Priced by the backend region the gateway reports, falling back to the model's global price
+    const getMessageCost = (message: PlaygroundMessage): number | undefined => {
+        const price = priceCatalog && message.tokens && message.modelName
+            ? findModelPrice(priceCatalog.prices, message.modelName, message.responseHeaders?.['x-ms-region'])
+            : undefined;
+        return price && message.tokens ? calculateCost(price, {
+            promptTokens: message.tokens.prompt_tokens,
+            completionTokens: message.tokens.completion_tokens,
+            cachedTokens: message.tokens.cached_tokens
+        }) : undefined;
+    };
+    const messageCosts = state.messages.map(getMessageCost).filter((cost): cost is number => cost !== undefined);
+
+    const formatPromptEstimate = (estimated: number, actual: number) => {
+        const drift = getEstimateDrift(estimated, actual);
+        return `Prompt: est. ${estimated} / actual ${actual}${drift !== undefined ? ` (${drift > 0 ? '+' : ''}${drift}%)` : ''}`;
+    };
+
+    const getRoleLabel = (type: MessageRole) => {
+        switch (type) {
+            case 'user':
+                return 'You';
+            case 'assistant':
+                return 'Assistant';
+            case 'system':
+                return 'System';
+            case 'tool':
+                return 'Tool';
+        }
+    };
+
+    // Mock results are configured as a JSON object keyed by tool name; unknown tools get an echo stub
+    const mockToolResult = (toolCall: ToolCall) => {
+        let mocks: Record<string, any> = {};
+        try {
+            mocks = state.toolMocksJson.trim() ? JSON.parse(state.toolMocksJson) : {};
+        } catch (error) {
+            console.warn('[Playground] Mock results are not valid JSON:', error);
+        }
+
+        let result: string;
+        if (mocks[toolCall.name] !== undefined) {
+            const mock = mocks[toolCall.name];
+            result = typeof mock === 'string' ? mock : JSON.stringify(mock);
+        } else {
+            let args: any = toolCall.arguments;
+            try {
+                args = JSON.parse(toolCall.arguments);
+            } catch {
+                // Keep the raw arguments string
+            }
+            result = JSON.stringify({ tool: toolCall.name, arguments: args, result: 'mock result' });
+        }
+
+        setToolResultDrafts(prev => ({ ...prev, [toolCall.id]: result }));
+    };
+
+    const getAnsweredToolCallIds = () => state.messages
+        .filter(message => message.type === 'tool' && message.toolCallId)
+        .map(message => message.toolCallId as string);
+
+    // Appends a tool message for every pending call of the assistant turn and continues the conversation
+    const submitToolResults = (messageId: string) => {
+        const assistantMessage = state.messages.find(message => message.id === messageId);
+        if (!assistantMessage?.toolCalls) {
+            return;
+        }
+
+        const answered = getAnsweredToolCallIds();
+        const toolMessages = assistantMessage.toolCalls
+            .filter(toolCall => !answered.includes(toolCall.id))
+            .map(toolCall => ({
+                ...createMessage('tool', toolResultDrafts[toolCall.id] || ''),
+                toolCallId: toolCall.id
+            }));
+
+        setToolResultDrafts(prev => {
+            const next = { ...prev };
+            toolMessages.forEach(message => delete next[message.toolCallId]);
+            return next;
+        });
+        requestCompletion([...state.messages, ...toolMessages]);
+    };
+
+    // Applies the template's target and parameters; placeholders are filled in through the form
+    const loadPromptTemplate = (template: PromptTemplate) => {
+        const target = template.target || {};
+        setState(prev => ({
+            ...prev,
+            sdk: target.sdk || prev.sdk,
+            apiId: target.apiId || prev.apiId,
+            modelName: target.modelName || prev.modelName,
+            inferenceApiType: target.inferenceApiType || prev.inferenceApiType,
+            apiVersion: target.apiVersion || prev.apiVersion,
+            parameters: template.parameters || prev.parameters
+        }));
+        setActiveTemplate(template);
+        setTemplateValues({ ...(template.variables || {}) });
+        setMode('chat');
+    };
+
+    const applyPromptTemplate = () => {
+        if (!activeTemplate) {
+            return;
+        }
+        setState(prev => ({
+            ...prev,
+            currentPrompt: renderTemplate(activeTemplate.prompt, templateValues),
+            instructions: activeTemplate.instructions !== undefined
+                ? renderTemplate(activeTemplate.instructions, templateValues)
+                : prev.instructions
+        }));
+    };
+
+    // The extension asks for the name and writes the file under .aigateway/prompts
+    const savePromptTemplate = () => {
+        const lastUserMessage = [...state.messages].reverse().find(message => message.type === 'user');
+        const template: PromptTemplate = {
+            name: activeTemplate?.name || '',
+            description: activeTemplate?.description,
+            instructions: state.instructions,
+            prompt: state.currentPrompt || lastUserMessage?.content || '',
+            variables: Object.keys(templateValues).length > 0 ? templateValues : undefined,
+            parameters: state.parameters,
+            target: {
                 sdk: state.sdk,
                 apiId: state.apiId,
                 modelName: state.modelName,
-                subscriptionId: state.subscriptionId,
-                apiVersion: state.apiVersion,
                 inferenceApiType: state.inferenceApiType,
-                stream: state.stream,
-                trace: state.trace,
-                instructions: state.instructions,
-                prompt: state.currentPrompt
+                apiVersion: state.apiVersion
             }
-        });
+        };
+        vscode.postMessage({ type: 'savePromptTemplate', data: template });
     };
 
     const clearConversation = () => {
         setState(prev => ({ ...prev, messages: [] }));
+        setEditingMessageId(null);
     };
 
     const toggleMessageExpansion = (messageId: string) => {
@@ -251,8 +970,95 @@ const Playground: React.FC = () => {
             <div className="main-content">
                 <div className="playground-header">
                     <h1>AI Gateway Playground</h1>
+                    <div className="mode-tabs">
+                        <button className={`mode-tab ${mode === 'chat' ? 'active' : ''}`} onClick={() => setMode('chat')}>
+                            Chat
+                        </button>
+                        <button className={`mode-tab ${mode === 'compare' ? 'active' : ''}`} onClick={() => setMode('compare')}>
+                            Compare
+                        </button>
+                        <button className={`mode-tab ${mode === 'batch' ? 'active' : ''}`} onClick={() => setMode('batch')}>
+                            Batch
+                        </button>
+                        <button className={`mode-tab ${mode === 'load' ? 'active' : ''}`} onClick={() => setMode('load')}>
+                            Load Test
+                        </button>
+                        <button className={`mode-tab ${mode === 'cache' ? 'active' : ''}`} onClick={() => setMode('cache')}>
+                            Semantic Cache
+                        </button>
+                        <button className={`mode-tab ${mode === 'embeddings' ? 'active' : ''}`} onClick={() => setMode('embeddings')}>
+                            Embeddings
+                        </button>
+                        <button className={`mode-tab ${mode === 'images' ? 'active' : ''}`} onClick={() => setMode('images')}>
+                            Images
+                        </button>
+                        <button className={`mode-tab ${mode === 'audio' ? 'active' : ''}`} onClick={() => setMode('audio')}>
+                            Audio
+                        </button>
+                    </div>
+                </div>
+                {/* Both views stay mounted so switching tabs keeps conversations and results */}
+                <div className={`compare-area ${mode === 'compare' ? '' : 'hidden'}`}>
+                    <CompareView
+                        apis={state.apis}
+                        subscriptions={state.subscriptions}
+                        models={state.models}
+                        defaultTarget={{
+                            sdk: isRawHttp ? 'azure-openai' : state.sdk,
+                            apiId: state.apiId,
+                            modelName: state.modelName,
+                            subscriptionId: state.subscriptionId
+                        }}
+                        priceCatalog={priceCatalog}
+                        buildRequest={buildRequestSettings}
+                    />
+                </div>
+                <div className={`compare-area ${mode === 'batch' ? '' : 'hidden'}`}>
+                    <BatchView canRun={canSend() && !isRawHttp} buildRequest={buildRequestSettings} />
+                </div>
+                <div className={`compare-area ${mode === 'load' ? '' : 'hidden'}`}>
+                    <LoadTestView
+                        canRun={canSend() && !isRawHttp}
+                        // A gateway URL override replaces the API and subscription, everything else still applies
+                        canRunStub={!!state.sdk && !isRawHttp && !!state.modelName.trim() && headerErrors.length === 0 && parameterIssues.length === 0}
+                        buildRequest={buildRequestSettings}
+                    />
+                </div>
+                <div className={`compare-area ${mode === 'cache' ? '' : 'hidden'}`}>
+                    <SemanticCacheView canRun={canSend() && !isRawHttp} models={state.models} buildRequest={buildRequestSettings} />
+                </div>
+                <div className={`compare-area ${mode === 'embeddings' ? '' : 'hidden'}`}>
+                    <EmbeddingsView
+                        canSend={!!state.sdk && !isRawHttp && hasGateway() && headerErrors.length === 0}
+                        models={state.models}
+                        buildRequest={buildRequestSettings}
+                    />
                 </div>
-                <div className="conversation-area">
+                <div className={`compare-area ${mode === 'images' ? '' : 'hidden'}`}>
+                    <ImageGenerationView
+                        canSend={supportsMediaEndpoints(state.sdk) && hasGateway() && headerErrors.length === 0}
+                        models={state.models}
+                        buildRequest={buildRequestSettings}
+                    />
+                </div>
+                <div className={`compare-area ${mode === 'audio' ? '' : 'hidden'}`}>
+                    <AudioView
+                        canSend={supportsMediaEndpoints(state.sdk) && hasGateway() && headerErrors.length === 0}
+                        models={state.models}
+                        buildRequest={buildRequestSettings}
+                    />
+                </div>
+                <div className={`compare-area ${mode === 'chat' && isRawHttp ? '' : 'hidden'}`}>
+                    <RawHttpView
+                        draft={state.rawHttp}
+                        onChange={(rawHttp) => setState(prev => ({ ...prev, rawHttp }))}
+                        canSend={hasGateway() && headerErrors.length === 0}
+                        modelName={state.modelName}
+                        apiVersion={state.apiVersion}
+                        buildRequest={buildRequestSettings}
+                    />
+                </div>
+                <div className={`conversation-area ${mode === 'chat' && !isRawHttp ? '' : 'hidden'}`}>
                     <div className="messages-container" ref={messagesContainerRef}>
                     {state.messages.length === 0 ? (
                         <div className="empty-state">
@@ -263,7 +1069,10 @@ const Playground: React.FC = () => {
                             <div key={message.id} className={`message ${message.type}`}>
                                 <div className="message-header">
                                     <span className="message-type">
-                                        {message.type === 'user' ? 'You' : 'Assistant'}
+                                        {getRoleLabel(message.type)}
+                                        {message.type === 'tool' && message.toolCallId && (
+                                            <span className="tool-call-id"> · {message.toolCallId}</span>
+                                        )}
                                     </span>
                                     <span className="message-timestamp">
                                         {message.timestamp.toLocaleTimeString()}
@@ -273,9 +1082,46 @@ const Playground: React.FC = () => {
                                             {message.tokens && (
                                                 <span>Tokens: {message.tokens.total_tokens}</span>
                                             )}
+                                            {message.tokens && message.estimatedPromptTokens !== undefined && (
+                                                <span title="Local tokenizer estimate vs. prompt tokens reported in usage; positive drift means the estimate was low">
+                                                    {formatPromptEstimate(message.estimatedPromptTokens, message.tokens.prompt_tokens)}
+                                                </span>
+                                            )}
+                                            {priceCatalog && getMessageCost(message) !== undefined && (
+                                                <span title={message.tokens?.cached_tokens ? `${message.tokens.cached_tokens} cached prompt tokens at the cached input price` : undefined}>
+                                                    Cost: {formatCost(getMessageCost(message)!, priceCatalog.currency)}
+                                                </span>
+                                            )}
                                             {message.latency && (
                                                 <span>Latency: {message.latency}ms</span>
                                             )}
+                                            {message.timeToFirstToken !== undefined && (
+                                                <span>TTFT: {message.timeToFirstToken}ms</span>
+                                            )}
+                                            {message.tokensPerSecond !== undefined && (
+                                                <span>{message.tokensPerSecond} tok/s</span>
+                                            )}
+                                            {message.responseHeaders?.['x-ratelimit-remaining-tokens'] && (
+                                                <span className="header-highlight" title="x-ratelimit-remaining-tokens">
+                                                    {Number(message.responseHeaders['x-ratelimit-remaining-tokens']).toLocaleString('en-US')} tokens left
+                                                </span>
+                                            )}
+                                            {message.isStreaming && (
+                                                <span className="streaming-indicator">Streaming…</span>
+                                            )}
+                                            {message.stopped && (
+                                                <span className="stopped-indicator">Stopped</span>
+                                            )}
+                                            {message.attempts && message.attempts.length > 1 && (
+                                                <span title="Retried after a timeout or a retryable status">{message.attempts.length} attempts</span>
+                                            )}
+                                            {message.structuredOutput && (
+                                                <span className={message.structuredOutput.valid ? 'schema-valid' : 'schema-invalid'}>
+                                                    {message.structuredOutput.valid
+                                                        ? '✓ Schema valid'
+                                                        : `✗ ${message.structuredOutput.violations.length} violation(s)`}
+                                                </span>
+                                            )}
                                             <button
                                                 onClick={() => toggleMessageExpansion(message.id)}
                                                 className="expand-button"
@@ -284,10 +1130,127 @@ const Playground: React.FC = () => {
                                             </button>
                                         </div>
                                     )}
+                                    <div className="message-actions">
+                                        <button
+                                            onClick={() => startEditing(message)}
+                                            className="message-action-button"
+                                            title="Edit message"
+                                            disabled={state.isLoading}
+                                        >
+                                            Edit
+                                        </button>
+                                        <button
+                                            onClick={() => regenerateFrom(message.id)}
+                                            className="message-action-button"
+                                            title="Regenerate from here"
+                                            disabled={state.isLoading || !canSend()}
+                                        >
+                                            Regenerate
+                                        </button>
+                                        {message.responseId && state.sdk === 'azure-openai' && (
+                                            <>
+                                                <button
+                                                    onClick={() => manageStoredResponse(message, 'retrieve')}
+                                                    className="message-action-button"
+                                                    title={`Retrieve stored response ${message.responseId}`}
+                                                    disabled={!hasGateway()}
+                                                >
+                                                    Retrieve
+                                                </button>
+                                                <button
+                                                    onClick={() => manageStoredResponse(message, 'delete')}
+                                                    className="message-action-button"
+                                                    title={`Delete stored response ${message.responseId}`}
+                                                    disabled={state.isLoading || !hasGateway()}
+                                                >
+                                                    Delete Stored
+                                                </button>
+                                            </>
+                                        )}
+                                        {message.type === 'assistant' && (
+                                            <button
+                                                onClick={() => exportAsCode(message.id)}
+                                                className="message-action-button"
+                                                title="Export the request as curl, Python, TypeScript, C# or .http"
+                                                disabled={!message.requestSettings && !canSend()}
+                                            >
+                                                Code
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => deleteMessage(message.id)}
+                                            className="message-action-button"
+                                            title="Delete message"
+                                            disabled={state.isLoading}
+                                        >
+                                            Delete
+                                        </button>
+                                    </div>
                                 </div>
                                 
                                 <div className="message-content">
-                                    <pre>{message.content}</pre>
+                                    {editingMessageId === message.id ? (
+                                        <div className="message-editor">
+                                            <textarea
+                                                value={editDraft}
+                                                onChange={(e) => setEditDraft(e.target.value)}
+                                                rows={4}
+                                            />
+                                            <div className="message-editor-actions">
+                                                <button onClick={saveEdit} className="message-action-button">Save</button>
+                                                <button onClick={() => setEditingMessageId(null)} className="message-action-button">Cancel</button>
+                                            </div>
+                                        </div>
+                                    ) : (
+                                        message.content && <pre>{message.content}</pre>
+                                    )}
+                                    {message.error && <div className="schema-violations">{message.error}</div>}
+                                    {message.additionalChoices?.map((text, index) => (
+                                        <details key={index} className="additional-choice">
+                                            <summary>Choice {index + 2}</summary>
+                                            <pre>{text}</pre>
+                                        </details>
+                                    ))}
+                                    {message.reasoningSummary && message.reasoningSummary.length > 0 && (
+                                        <details className="reasoning-summary">
+                                            <summary>Reasoning</summary>
+                                            {message.reasoningSummary.map((text, index) => <p key={index}>{text}</p>)}
+                                        </details>
+                                    )}
+                                    {message.builtInToolCalls && message.builtInToolCalls.length > 0 && (
+                                        <ul className="built-in-tool-calls">
+                                            {message.builtInToolCalls.map((item, index) => (
+                                                <li key={item.id || index}>
+                                                    <code>{item.type}</code>
+                                                    {item.status && <span className="attachment-size"> {item.status}</span>}
+                                                    {item.detail && <span title={item.detail}> · {item.detail}</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {message.attachments && message.attachments.length > 0 && (
+                                        <AttachmentList attachments={message.attachments} />
+                                    )}
+                                    {message.structuredOutput && !message.structuredOutput.valid && (
+                                        <ul className="schema-violations">
+                                            {message.structuredOutput.violations.map((violation, index) => (
+                                                <li key={index}>
+                                                    <code>{violation.path || '(root)'}</code> {violation.message}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {message.type === 'assistant' && message.toolCalls && message.toolCalls.length > 0 && !message.isStreaming && (
+                                        <ToolCallPanel
+                                            toolCalls={message.toolCalls}
+                                            answeredIds={getAnsweredToolCallIds()}
+                                            drafts={toolResultDrafts}
+                                            disabled={state.isLoading}
+                                            onDraftChange={(toolCallId, value) => setToolResultDrafts(prev => ({ ...prev, [toolCallId]: value }))}
+                                            onMock={mockToolResult}
+                                            onSubmit={() => submitToolResults(message.id)}
+                                        />
+                                    )}
                                 </div>
                                 
                                 {expandedMessage === message.id && message.type === 'assistant' && (
@@ -306,10 +1269,33 @@ const Playground: React.FC = () => {
                                             </div>
                                         )}
                                         
+                                        {message.attempts && message.attempts.length > 0 && (
+                                            <div className="detail-section">
+                                                <h4>Attempts</h4>
+                                                <AttemptTable attempts={message.attempts} />
+                                            </div>
+                                        )}
+                                        
+                                        {message.responseHeaders && Object.keys(message.responseHeaders).length > 0 && (
+                                            <div className="detail-section">
+                                                <h4>Response Headers</h4>
+                                                <HeaderInspector headers={message.responseHeaders} />
+                                            </div>
+                                        )}
+                                        
+                                        {message.storedResponse && (
+                                            <div className="detail-section">
+                                                <h4>Stored Response</h4>
+                                                {message.storedResponse.error
+                                                    ? <div className="schema-violations">{message.storedResponse.error}</div>
+                                                    : <pre>{JSON.stringify(message.storedResponse.response, null, 2)}</pre>}
+                                            </div>
+                                        )}
+                                        
                                         {message.traceInfo && (
                                             <div className="detail-section">
                                                 <h4>Trace Information</h4>
-                                                <pre>{JSON.stringify(message.traceInfo, null, 2)}</pre>
+                                                <TraceTimeline traceInfo={message.traceInfo} />
                                             </div>
                                         )}
                                     </div>
@@ -318,7 +1304,7 @@ const Playground: React.FC = () => {
                         ))
                     )}
                     
-                    {state.isLoading && (
+                    {state.isLoading && !state.messages.some(m => m.id === state.activeRequestId) && (
                         <div className="message assistant loading">
                             <div className="message-header">
                                 <span className="message-type">Assistant</span>
@@ -333,23 +1319,111 @@ const Playground: React.FC = () => {
                         </div>
                     )}
                 </div>
+
+                {activeTemplate && (
+                    <PromptTemplateForm
+                        template={activeTemplate}
+                        values={templateValues}
+                        onChange={(variable, value) => setTemplateValues(prev => ({ ...prev, [variable]: value }))}
+                        onApply={applyPromptTemplate}
+                        onClose={() => setActiveTemplate(null)}
+                    />
+                )}
                 
                 <div className="input-area">
+                    {pendingAttachments.length > 0 && (
+                        <div className="pending-attachments">
+                            <AttachmentList
+                                attachments={pendingAttachments}
+                                onRemove={(index) => setPendingAttachments(prev => prev.filter((_, i) => i !== index))}
+                            />
+                            <span className="attachment-size">
+                                Adds {formatBytes(pendingAttachments.reduce((sum, attachment) => sum + attachment.dataUrl.length, 0))} to the request
+                            </span>
+                        </div>
+                    )}
+                    {attachmentErrors.length > 0 && (
+                        <ul className="parameter-issues">
+                            {attachmentErrors.map((error, index) => <li key={index}>{error}</li>)}
+                        </ul>
+                    )}
+                    {(state.messages.length > 0 || hasComposedMessage) && (
+                        <div className="token-estimate" title="Counted locally with the tokenizer of the model family, including instructions and tool definitions">
+                            ~{promptEstimate.tokens.toLocaleString('en-US')} prompt tokens ({promptEstimate.encoding}{promptEstimate.approximate ? ', unknown model family' : ''})
+                            {promptEstimate.contextWindow !== undefined && ` · ${Math.ceil(promptEstimate.tokens / promptEstimate.contextWindow * 100)}% of the ${promptEstimate.contextWindow.toLocaleString('en-US')}-token context window`}
+                            {promptEstimate.uncountedAttachments > 0 && ` · ${promptEstimate.uncountedAttachments} attachment(s) not counted`}
+                            {priceCatalog && messageCosts.length > 0 && ` · Conversation cost: ${formatCost(messageCosts.reduce((sum, cost) => sum + cost, 0), priceCatalog.currency)} over ${messageCosts.length} priced repl${messageCosts.length === 1 ? 'y' : 'ies'}`}
+                        </div>
+                    )}
+                    {(tokenBudgetWarnings.length > 0 || priceCatalog?.error) && (
+                        <ul className="parameter-issues">
+                            {tokenBudgetWarnings.map((warning, index) => <li key={index}>{warning}</li>)}
+                            {priceCatalog?.error && <li>{priceCatalog.error}</li>}
+                        </ul>
+                    )}
                     <div className="input-container">
+                        <select
+                            className="role-select"
+                            value={composerRole}
+                            onChange={(e) => setComposerRole(e.target.value as 'user' | 'system' | 'assistant')}
+                            title="Role of the next message"
+                        >
+                            <option value="user">User</option>
+                            <option value="assistant">Assistant</option>
+                            <option value="system">System</option>
+                        </select>
                         <textarea
                             value={state.currentPrompt}
                             onChange={(e) => setState(prev => ({ ...prev, currentPrompt: e.target.value }))}
                             onKeyPress={handleKeyPress}
                             placeholder="Type your message here... (Shift+Enter for new line, Enter to send)"
                             rows={3}
-                            disabled={state.isLoading || !state.sdk || !state.apiId || !state.subscriptionId || !state.modelName.trim()}
+                            disabled={state.isLoading || !hasTarget()}
+                        />
+                        <input
+                            ref={attachmentInputRef}
+                            type="file"
+                            className="hidden"
+                            multiple
+                            accept={filesSupported ? undefined : IMAGE_MIME_TYPES.join(',')}
+                            onChange={(e) => {
+                                attachFiles(e.target.files);
+                                e.target.value = '';
+                            }}
                         />
                         <button
-                            onClick={sendMessage}
-                            disabled={state.isLoading || !state.currentPrompt.trim() || !state.sdk || !state.apiId || !state.subscriptionId || !state.modelName.trim()}
-                            className="send-button"
+                            onClick={() => attachmentInputRef.current?.click()}
+                            disabled={state.isLoading || composerRole !== 'user'}
+                            className="add-button"
+                            title={filesSupported ? 'Attach images or files to the message' : 'Attach images to the message (files need the Responses API)'}
                         >
-                            {state.isLoading ? 'Sending...' : 'Send'}
+                            Attach
+                        </button>
+                        {state.isLoading ? (
+                            <button
+                                onClick={stopMessage}
+                                disabled={!state.activeRequestId}
+                                className="send-button stop-button"
+                                title="Abort the in-flight request"
+                            >
+                                Stop
+                            </button>
+                        ) : (
+                            <button
+                                onClick={sendMessage}
+                                disabled={!hasComposedMessage || !canSend() || attachmentErrors.length > 0}
+                                className="send-button"
+                            >
+                                Send
+                            </button>
+                        )}
+                        <button
+                            onClick={addMessage}
+                            disabled={state.isLoading || !hasComposedMessage}
+                            className="add-button"
+                            title="Add to the conversation without sending"
+                        >
+                            Add
                         </button>
                     </div>
                 </div>
@@ -381,6 +1455,7 @@ const Playground: React.FC = () => {
                                 <option value="azure-openai">Azure OpenAI SDK</option>
                                 <option value="azure-ai-inference">Azure AI Inference SDK</option>
                                 <option value="openai-compatible">OpenAI SDK</option>
+                                <option value={RAW_HTTP_SDK}>Raw HTTP</option>
                             </select>
                         </div>
                         
@@ -453,6 +1528,33 @@ const Playground: React.FC = () => {
                                 ))}
                             </select>
                         </div>
+
+                        <div className="config-group">
+                            <label htmlFor="auth-mode-select">Authentication:</label>
+                            <select
+                                id="auth-mode-select"
+                                value={state.authMode}
+                                onChange={(e) => setState(prev => ({ ...prev, authMode: e.target.value as PlaygroundAuthMode }))}
+                                title="Entra ID tokens are requested through the VS Code Microsoft account for the connected tenant"
+                            >
+                                {AUTH_MODES.map(option => (
+                                    <option key={option.mode} value={option.mode}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        {usesEntraToken(state.authMode) && (
+                            <div className="config-group">
+                                <label htmlFor="entra-audience-input">Token Audience:</label>
+                                <input
+                                    id="entra-audience-input"
+                                    type="text"
+                                    value={state.entraAudience}
+                                    onChange={(e) => setState(prev => ({ ...prev, entraAudience: e.target.value }))}
+                                    placeholder={DEFAULT_ENTRA_AUDIENCE}
+                                />
+                            </div>
+                        )}
                         
                         <div className="config-group checkbox">
                             <input
@@ -485,6 +1587,297 @@ const Playground: React.FC = () => {
                             />
                         </div>
                         
+                        <div className="parameters-section">
+                            <div className="parameters-header">
+                                <h3>Headers &amp; Query</h3>
+                            </div>
+                            <CustomHeadersEditor
+                                apiId={state.apiId}
+                                headers={state.customHeaders}
+                                queryParams={state.queryParams}
+                                presets={state.headerPresets[state.apiId] || []}
+                                onChange={(update) => setState(prev => ({
+                                    ...prev,
+                                    customHeaders: update.headers ?? prev.customHeaders,
+                                    queryParams: update.queryParams ?? prev.queryParams
+                                }))}
+                            />
+                        </div>
+
+                        <div className="parameters-section">
+                            <div className="parameters-header">
+                                <h3>Tools</h3>
+                                <button
+                                    className="message-action-button"
+                                    onClick={() => setState(prev => ({ ...prev, toolsJson: JSON.stringify(EXAMPLE_TOOLS, null, 2) }))}
+                                    title="Insert an example tool definition"
+                                >
+                                    Example
+                                </button>
+                            </div>
+                            <div className={`config-group parameter-group ${toolErrors.length > 0 ? 'invalid' : ''}`}>
+                                <label htmlFor="tools-json">Function Definitions (JSON array):</label>
+                                <textarea
+                                    id="tools-json"
+                                    className="code-editor"
+                                    value={state.toolsJson}
+                                    onChange={(e) => setState(prev => ({ ...prev, toolsJson: e.target.value }))}
+                                    placeholder='[{ "type": "function", "function": { "name": "...", "parameters": { ... } } }]'
+                                    rows={6}
+                                />
+                            </div>
+                            <div className="config-group">
+                                <label htmlFor="tool-choice-select">Tool Choice:</label>
+                                <select
+                                    id="tool-choice-select"
+                                    value={state.toolChoice}
+                                    onChange={(e) => setState(prev => ({ ...prev, toolChoice: e.target.value }))}
+                                    disabled={tools.length === 0}
+                                >
+                                    <option value="auto">Auto</option>
+                                    <option value="none">None</option>
+                                    <option value="required">Required</option>
+                                    {tools.map(tool => (
+                                        <option key={tool.name} value={tool.name}>Function: {tool.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="config-group checkbox">
+                                <input
+                                    id="parallel-tool-calls-checkbox"
+                                    type="checkbox"
+                                    checked={state.parallelToolCalls}
+                                    onChange={(e) => setState(prev => ({ ...prev, parallelToolCalls: e.target.checked }))}
+                                    disabled={tools.length === 0}
+                                />
+                                <label htmlFor="parallel-tool-calls-checkbox">Parallel tool calls</label>
+                            </div>
+                            <div className="config-group">
+                                <label htmlFor="tool-mocks-json">Mock Results (JSON object by tool name):</label>
+                                <textarea
+                                    id="tool-mocks-json"
+                                    className="code-editor"
+                                    value={state.toolMocksJson}
+                                    onChange={(e) => setState(prev => ({ ...prev, toolMocksJson: e.target.value }))}
+                                    placeholder='{ "get_weather": { "temperature": 21 } }'
+                                    rows={3}
+                                />
+                            </div>
+                            {toolErrors.length > 0 && (
+                                <ul className="parameter-issues">
+                                    {toolErrors.map((error, index) => (
+                                        <li key={index}>{error}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        {isResponsesApi && (
+                            <div className="parameters-section">
+                                <div className="parameters-header">
+                                    <h3>Responses API</h3>
+                                </div>
+                                <div className="config-group checkbox">
+                                    <input
+                                        id="store-responses-checkbox"
+                                        type="checkbox"
+                                        checked={state.responsesOptions.store}
+                                        onChange={(e) => setResponsesOption('store', e.target.checked)}
+                                    />
+                                    <label htmlFor="store-responses-checkbox">Store responses</label>
+                                </div>
+                                <div className="config-group checkbox">
+                                    <input
+                                        id="chain-turns-checkbox"
+                                        type="checkbox"
+                                        checked={state.responsesOptions.chainTurns}
+                                        onChange={(e) => setResponsesOption('chainTurns', e.target.checked)}
+                                    />
+                                    <label htmlFor="chain-turns-checkbox" title="Send only new turns with previous_response_id">Chain turns with previous_response_id</label>
+                                </div>
+                                <div className="config-group checkbox">
+                                    <input
+                                        id="reasoning-summary-checkbox"
+                                        type="checkbox"
+                                        checked={state.responsesOptions.reasoningSummary}
+                                        onChange={(e) => setResponsesOption('reasoningSummary', e.target.checked)}
+                                    />
+                                    <label htmlFor="reasoning-summary-checkbox">Reasoning summaries</label>
+                                </div>
+                                <label>Built-in Tools:</label>
+                                {RESPONSES_BUILT_IN_TOOLS.map(tool => (
+                                    <div key={tool.type} className="config-group checkbox">
+                                        <input
+                                            id={`built-in-tool-${tool.type}`}
+                                            type="checkbox"
+                                            checked={state.responsesOptions.builtInTools.includes(tool.type)}
+                                            onChange={(e) => setResponsesOption('builtInTools', e.target.checked
+                                                ? [...state.responsesOptions.builtInTools, tool.type]
+                                                : state.responsesOptions.builtInTools.filter(type => type !== tool.type))}
+                                        />
+                                        <label htmlFor={`built-in-tool-${tool.type}`}>{tool.label}</label>
+                                    </div>
+                                ))}
+                                {state.responsesOptions.builtInTools.includes('file_search') && (
+                                    <div className="config-group">
+                                        <label htmlFor="vector-store-ids-input">Vector Store IDs (comma-separated):</label>
+                                        <input
+                                            id="vector-store-ids-input"
+                                            type="text"
+                                            value={state.responsesOptions.vectorStoreIds.join(',')}
+                                            // Kept as typed; blanks and spaces are dropped when the request is built
+                                            onChange={(e) => setResponsesOption('vectorStoreIds', e.target.value.split(','))}
+                                            placeholder="vs_..."
+                                        />
+                                    </div>
+                                )}
+                                {responsesErrors.length > 0 && (
+                                    <ul className="parameter-issues">
+                                        {responsesErrors.map((error, index) => <li key={index}>{error}</li>)}
+                                    </ul>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="parameters-section">
+                            <div className="parameters-header">
+                                <h3>Response Format</h3>
+                            </div>
+                            <div className="config-group">
+                                <label htmlFor="response-format-select">Format:</label>
+                                <select
+                                    id="response-format-select"
+                                    value={state.responseFormatType}
+                                    onChange={(e) => setState(prev => ({ ...prev, responseFormatType: e.target.value as ResponseFormatType }))}
+                                >
+                                    <option value="text">Text</option>
+                                    <option value="json_object">JSON object</option>
+                                    <option value="json_schema">JSON schema</option>
+                                </select>
+                            </div>
+                            {state.responseFormatType === 'json_schema' && (
+                                <>
+                                    <div className="config-group">
+                                        <label htmlFor="schema-name-input">Schema Name:</label>
+                                        <input
+                                            id="schema-name-input"
+                                            type="text"
+                                            value={state.schemaName}
+                                            onChange={(e) => setState(prev => ({ ...prev, schemaName: e.target.value }))}
+                                        />
+                                    </div>
+                                    <div className="config-group checkbox">
+                                        <input
+                                            id="schema-strict-checkbox"
+                                            type="checkbox"
+                                            checked={state.schemaStrict}
+                                            onChange={(e) => setState(prev => ({ ...prev, schemaStrict: e.target.checked }))}
+                                        />
+                                        <label htmlFor="schema-strict-checkbox">Strict</label>
+                                    </div>
+                                    <div className={`config-group parameter-group ${responseFormatError ? 'invalid' : ''}`}>
+                                        <label htmlFor="schema-json">JSON Schema:</label>
+                                        <textarea
+                                            id="schema-json"
+                                            className="code-editor"
+                                            value={state.schemaJson}
+                                            onChange={(e) => setState(prev => ({ ...prev, schemaJson: e.target.value }))}
+                                            placeholder='{ "type": "object", "properties": { ... }, "required": [...], "additionalProperties": false }'
+                                            rows={8}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                            {responseFormatError && (
+                                <ul className="parameter-issues">
+                                    <li>{responseFormatError}</li>
+                                </ul>
+                            )}
+                        </div>
+
+                        <div className="parameters-section">
+                            <div className="parameters-header">
+                                <h3>Model Parameters</h3>
+                                <button
+                                    className="message-action-button"
+                                    onClick={() => setState(prev => ({ ...prev, parameters: {} }))}
+                                    title="Clear all parameters"
+                                >
+                                    Reset
+                                </button>
+                            </div>
+                            {renderNumberParameter('temperature', 'Temperature', '0.1', '0 - 2')}
+                            {renderNumberParameter('topP', 'Top P', '0.05', '0 - 1')}
+                            {renderNumberParameter('maxTokens', 'Max Tokens', '1', 'max_tokens')}
+                            {renderNumberParameter('maxCompletionTokens', 'Max Completion Tokens', '1', 'max_completion_tokens')}
+                            {renderNumberParameter('presencePenalty', 'Presence Penalty', '0.1', '-2 - 2')}
+                            {renderNumberParameter('frequencyPenalty', 'Frequency Penalty', '0.1', '-2 - 2')}
+                            {renderNumberParameter('seed', 'Seed', '1', 'Any whole number')}
+                            {renderNumberParameter('n', 'Choices (n)', '1', '1')}
+                            <div className={`config-group parameter-group ${parameterIssues.some(issue => issue.parameter === 'stop') ? 'invalid' : ''} ${supportedParameters.includes('stop') ? '' : 'unsupported'}`}>
+                                <label htmlFor="param-stop">Stop Sequences (one per line):</label>
+                                <textarea
+                                    id="param-stop"
+                                    value={(state.parameters.stop || []).join('\n')}
+                                    onChange={(e) => {
+                                        const stop = e.target.value.split('\n');
+                                        setParameter('stop', stop.some(sequence => sequence !== '') ? stop : undefined);
+                                    }}
+                                    rows={2}
+                                />
+                            </div>
+                            <div className={`config-group parameter-group ${parameterIssues.some(issue => issue.parameter === 'reasoningEffort') ? 'invalid' : ''} ${supportedParameters.includes('reasoningEffort') ? '' : 'unsupported'}`}>
+                                <label htmlFor="param-reasoning-effort">Reasoning Effort:</label>
+                                <select
+                                    id="param-reasoning-effort"
+                                    value={state.parameters.reasoningEffort || ''}
+                                    onChange={(e) => setParameter('reasoningEffort', (e.target.value || undefined) as ReasoningEffort | undefined)}
+                                >
+                                    <option value="">Model default</option>
+                                    <option value="minimal">Minimal</option>
+                                    <option value="low">Low</option>
+                                    <option value="medium">Medium</option>
+                                    <option value="high">High</option>
+                                </select>
+                            </div>
+                            {parameterIssues.length > 0 && (
+                                <ul className="parameter-issues">
+                                    {parameterIssues.map((issue, index) => (
+                                        <li key={index}>{issue.message}</li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+
+                        <div className="config-group">
+                            <label htmlFor="token-limit">Gateway Token Limit (TPM):</label>
+                            <input
+                                id="token-limit"
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={state.tokenLimit ?? ''}
+                                placeholder="tokens-per-minute"
+                                title="tokens-per-minute of the llm-token-limit policy; with estimate-prompt-tokens, larger prompts are rejected before reaching the model"
+                                onChange={(e) => setState(prev => ({ ...prev, tokenLimit: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                            />
+                        </div>
+                        
+                        <div className="config-group session-buttons">
+                            <button onClick={() => vscode.postMessage({ type: 'saveSession', data: buildSession() })} className="clear-button" title="Save messages, settings and raw request/response data to a .aigw-chat.json file">
+                                Save Session
+                            </button>
+                            <button onClick={() => vscode.postMessage({ type: 'openSession' })} className="clear-button" title="Open a .aigw-chat.json session file">
+                                Open Session
+                            </button>
+                        </div>
+
+                        <div className="config-group">
+                            <button onClick={savePromptTemplate} className="clear-button" title="Save the prompt, instructions, parameters and target as a workspace template">
+                                Save as Template
+                            </button>
+                        </div>
+
                         <div className="config-group">
                             <button onClick={clearConversation} className="clear-button">
                                 Clear Conversation
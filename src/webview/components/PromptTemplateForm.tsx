@@ -0,0 +1,52 @@
+import React from 'react';
+import { PromptTemplate } from '../../types';
+import { extractTemplateVariables } from '../../services/promptTemplates';
+
+interface PromptTemplateFormProps {
+    template: PromptTemplate;
+    values: Record<string, string>;
+    onChange: (variable: string, value: string) => void;
+    onApply: () => void;
+    onClose: () => void;
+}
+
+const PromptTemplateForm: React.FC<PromptTemplateFormProps> = ({ template, values, onChange, onApply, onClose }) => {
+    const variables = extractTemplateVariables(template);
+    const missing = variables.filter(variable => !values[variable]);
+
+    return (
+        <div className="template-form">
+            <div className="template-form-header">
+                <span className="message-type" title={template.description}>Template: {template.name}</span>
+                <button className="message-action-button" onClick={onClose} title="Close the template form">
+                    Close
+                </button>
+            </div>
+            {variables.length > 0 && (
+                <div className="template-variables">
+                    {variables.map(variable => (
+                        <div key={variable} className="template-variable">
+                            <label htmlFor={`template-${variable}`}>{variable}</label>
+                            <input
+                                id={`template-${variable}`}
+                                type="text"
+                                value={values[variable] || ''}
+                                onChange={(e) => onChange(variable, e.target.value)}
+                                placeholder={`{{${variable}}}`}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button
+                className="message-action-button"
+                onClick={onApply}
+                title={missing.length > 0 ? `Unfilled: ${missing.join(', ')}` : 'Fill the composer and instructions from the template'}
+            >
+                Use Template
+            </button>
+        </div>
+    );
+};
+
+export default PromptTemplateForm;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RawHttpDraft, RawHttpResponse } from '../../types';
+import { RAW_HTTP_EXAMPLES, RAW_HTTP_METHODS, fillExamplePath, formatRawBody } from '../../services/rawHttp';
+import { toKeyValueRecord } from '../../services/requestOptions';
+import { KeyValueRows } from './CustomHeadersEditor';
+import HeaderInspector from './HeaderInspector';
+
+export const RAW_HTTP_REQUEST_PREFIX = 'raw-';
+
+interface RawHttpViewProps {
+    draft: RawHttpDraft;
+    onChange: (draft: RawHttpDraft) => void;
+    canSend: boolean;
+    modelName: string;
+    apiVersion: string;
+    // API, subscription, auth mode and custom headers / query parameters from Settings
+    buildRequest: () => Record<string, any>;
+}
+
+const RawHttpView: React.FC<RawHttpViewProps> = ({ draft, onChange, canSend, modelName, apiVersion, buildRequest }) => {
+    const [requestId, setRequestId] = useState<string | null>(null);
+    const [response, setResponse] = useState<RawHttpResponse | null>(null);
+    // Read by the message listener, which is registered once
+    const requestIdRef = useRef<string | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (message.type === 'rawHttpResponse' && message.data.requestId === requestIdRef.current) {
+                requestIdRef.current = null;
+                setRequestId(null);
+                setResponse(message.data);
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    const bodyError = (() => {
+        if (!draft.body.trim()) {
+            return undefined;
+        }
+        try {
+            JSON.parse(draft.body);
+            return undefined;
+        } catch (error) {
+            return `Body is not valid JSON: ${error instanceof Error ? error.message : error}`;
+        }
+    })();
+
+    const applyExample = (label: string) => {
+        const example = RAW_HTTP_EXAMPLES.find(item => item.label === label);
+        if (example) {
+            onChange({
+                ...draft,
+                method: example.method,
+                path: fillExamplePath(example.path, modelName, apiVersion),
+                body: example.body ? JSON.stringify(example.body, null, 2) : ''
+            });
+        }
+    };
+
+    const send = () => {
+        const settings = buildRequest();
+        const id = `${RAW_HTTP_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        requestIdRef.current = id;
+        setRequestId(id);
+        setResponse(null);
+        vscode.postMessage({
+            type: 'sendRawHttp',
+            data: {
+                requestId: id,
+                apiId: settings.apiId,
+                subscriptionId: settings.subscriptionId,
+                authMode: settings.authMode,
+                entraAudience: settings.entraAudience,
+                customHeaders: settings.customHeaders,
+                queryParams: settings.queryParams,
+                method: draft.method,
+                path: draft.path,
+                headers: toKeyValueRecord(draft.headers),
+                body: draft.body
+            }
+        });
+    };
+
+    const stop = () => {
+        if (requestId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId } });
+        }
+    };
+
+    const formattedBody = response ? formatRawBody(response.body) : undefined;
+    const isSuccess = !!response?.statusCode && response.statusCode >= 200 && response.statusCode < 300;
+
+    return (
+        <div className="raw-http-view">
+            <div className="raw-http-request">
+                <div className="raw-http-line">
+                    <select
+                        value={draft.method}
+                        onChange={(e) => onChange({ ...draft, method: e.target.value })}
+                        title="Method"
+                    >
+                        {RAW_HTTP_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={draft.path}
+                        onChange={(e) => onChange({ ...draft, path: e.target.value })}
+                        placeholder="Path relative to the API gateway URL, e.g. deployments/gpt-4o/embeddings?api-version=2024-10-21"
+                    />
+                    <select value="" onChange={(e) => applyExample(e.target.value)} title="Fill from an example">
+                        <option value="">Examples</option>
+                        {RAW_HTTP_EXAMPLES.map(example => <option key={example.label} value={example.label}>{example.label}</option>)}
+                    </select>
+                </div>
+
+                <label>Headers (the subscription key is sent as Ocp-Apim-Subscription-Key unless overridden):</label>
+                <KeyValueRows
+                    label="Header"
+                    pairs={draft.headers}
+                    keyPlaceholder="api-key"
+                    onChange={(headers) => onChange({ ...draft, headers })}
+                />
+
+                <label>Body (JSON):</label>
+                <textarea
+                    value={draft.body}
+                    onChange={(e) => onChange({ ...draft, body: e.target.value })}
+                    rows={8}
+                    spellCheck={false}
+                    disabled={draft.method === 'GET'}
+                    placeholder={draft.method === 'GET' ? 'GET requests have no body' : '{ }'}
+                />
+                {bodyError && draft.method !== 'GET' && <div className="schema-violations">{bodyError}</div>}
+            </div>
+
+            <div className="raw-http-response">
+                {response && (
+                    <>
+                        <div className="raw-http-status">
+                            {response.error
+                                ? <span className="schema-invalid">{response.error}</span>
+                                : <span className={isSuccess ? 'schema-valid' : 'schema-invalid'}>HTTP {response.statusCode}</span>}
+                            <span>{response.latency}ms</span>
+                            {response.url && <span className="raw-http-url" title={response.url}>{response.url}</span>}
+                        </div>
+                        {Object.keys(response.headers).length > 0 && <HeaderInspector headers={response.headers} />}
+                        {formattedBody && formattedBody.text && <pre>{formattedBody.text}</pre>}
+                    </>
+                )}
+                {requestId && (
+                    <div className="loading-dots">
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                    </div>
+                )}
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {requestId ? (
+                        <button onClick={stop} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={send}
+                            disabled={!canSend || !draft.path.trim() || (!!bodyError && draft.method !== 'GET')}
+                            className="send-button"
+                            title="Sends through the API and subscription selected in Settings"
+                        >
+                            Send
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RawHttpView;
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CacheLogRecord, SemanticCacheResult } from '../../types';
+import { CORRELATION_ID_POLICY, DEFAULT_SCORE_THRESHOLD, applyCacheLogRecords, buildThresholdReport, summarizeCacheRun } from '../../services/semanticCache';
+
+export const CACHE_REQUEST_PREFIX = 'cache-';
+
+interface SemanticCacheViewProps {
+    canRun: boolean;
+    models: Array<{ modelName: string; displayName: string }>;
+    // Settings of the main selection (SDK, API, model, subscription, parameters, ...)
+    buildRequest: () => Record<string, any>;
+}
+
+const SOURCE_LABELS: Record<NonNullable<SemanticCacheResult['cacheSource']>, string> = {
+    header: 'response header',
+    log: 'gateway log',
+    latency: 'estimated from latency'
+};
+
+const SemanticCacheView: React.FC<SemanticCacheViewProps> = ({ canRun, models, buildRequest }) => {
+    const [prompt, setPrompt] = useState('');
+    const [paraphrasesText, setParaphrasesText] = useState('');
+    const [embeddingsModel, setEmbeddingsModel] = useState('');
+    const [scoreThreshold, setScoreThreshold] = useState(DEFAULT_SCORE_THRESHOLD);
+    const [runId, setRunId] = useState<string | null>(null);
+    const [results, setResults] = useState<SemanticCacheResult[]>([]);
+    const [runError, setRunError] = useState<string | null>(null);
+    const [logLookup, setLogLookup] = useState<{ pending: boolean; matched?: number; error?: string } | null>(null);
+    // Read by the message listener, which is registered once; kept after the run for the log lookup
+    const lastRunRef = useRef<{ runId: string; startedAt: string } | null>(null);
+
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            const message = event.data;
+            if (message.data?.runId && message.data.runId !== lastRunRef.current?.runId) {
+                return;
+            }
+            switch (message.type) {
+                case 'semanticCacheResult':
+                    setResults(prev => [...prev.filter(result => result.index !== message.data.result.index), message.data.result]
+                        .sort((a, b) => a.index - b.index));
+                    break;
+                case 'semanticCacheSimilarity':
+                    setResults(prev => prev.map(result => ({ ...result, similarity: message.data.similarities[result.index] })));
+                    break;
+                case 'semanticCacheComplete':
+                    setRunId(null);
+                    if (message.data.similarityError) {
+                        setRunError(message.data.similarityError);
+                    }
+                    break;
+                case 'cacheLogs':
+                    setResults(prev => applyCacheLogRecords(prev, message.data.records as CacheLogRecord[]));
+                    setLogLookup({ pending: false, matched: message.data.records.length, error: message.data.error });
+                    break;
+                case 'error':
+                    if (message.data?.requestId?.startsWith(CACHE_REQUEST_PREFIX) && message.data.requestId === lastRunRef.current?.runId) {
+                        setRunError(message.data.message);
+                    }
+                    break;
+            }
+        };
+
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    // One paraphrase per line
+    const paraphrases = paraphrasesText.split('\n').map(line => line.trim()).filter(line => line !== '');
+
+    const runTest = () => {
+        const id = `${CACHE_REQUEST_PREFIX}${Date.now().toString(36)}`;
+        lastRunRef.current = { runId: id, startedAt: new Date().toISOString() };
+        setRunId(id);
+        setResults([]);
+        setRunError(null);
+        setLogLookup(null);
+        vscode.postMessage({
+            type: 'runSemanticCacheTest',
+            data: {
+                runId: id,
+                request: buildRequest(),
+                prompt: prompt.trim(),
+                paraphrases,
+                embeddingsModel: embeddingsModel.trim() || undefined
+            }
+        });
+    };
+
+    const stopTest = () => {
+        if (runId) {
+            vscode.postMessage({ type: 'stopMessage', data: { requestId: runId } });
+        }
+    };
+
+    const correlationIds = results.map(result => result.correlationId).filter((id): id is string => !!id);
+
+    const lookupLogs = () => {
+        if (!lastRunRef.current) {
+            return;
+        }
+        setLogLookup({ pending: true });
+        vscode.postMessage({
+            type: 'lookupCacheLogs',
+            data: { runId: lastRunRef.current.runId, correlationIds, since: lastRunRef.current.startedAt }
+        });
+    };
+
+    const summary = summarizeCacheRun(results);
+    const report = buildThresholdReport(results, scoreThreshold);
+    const completed = results.filter(result => result.index > 0).length;
+
+    return (
+        <div className="batch-view">
+            <div className="batch-toolbar">
+                <label className="batch-option">
+                    Embeddings deployment
+                    <input
+                        type="text"
+                        className="embeddings-input"
+                        list="cache-embeddings-models"
+                        value={embeddingsModel}
+                        onChange={(e) => setEmbeddingsModel(e.target.value)}
+                        placeholder="Optional, for similarity"
+                        title="Use the deployment the semantic cache policy embeds with to compare similarity against score-threshold"
+                    />
+                    <datalist id="cache-embeddings-models">
+                        {models.map(model => <option key={model.modelName} value={model.modelName}>{model.displayName}</option>)}
+                    </datalist>
+                </label>
+                <label className="batch-option" title="score-threshold of azure-openai-semantic-cache-lookup; lower values need closer prompts">
+                    Score threshold
+                    <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={scoreThreshold}
+                        onChange={(e) => setScoreThreshold(Math.min(1, Math.max(0, Number(e.target.value) || 0)))}
+                    />
+                </label>
+            </div>
+
+            <textarea
+                className="embeddings-inputs"
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                placeholder="Original prompt, sent first so its answer is cached"
+                rows={2}
+            />
+            <textarea
+                className="embeddings-inputs"
+                value={paraphrasesText}
+                onChange={(e) => setParaphrasesText(e.target.value)}
+                placeholder="Paraphrases, one per line"
+                rows={5}
+            />
+            <span className="batch-dataset">
+                Cache status comes from a response header containing "cache", then from the gateway logs, otherwise it is estimated from latency
+            </span>
+
+            {runError && <div className="schema-violations">{runError}</div>}
+            {results.length > 0 && !runId && correlationIds.length === 0 && (
+                <div className="parameter-issues">
+                    No correlation ID was returned, so gateway logs cannot be matched. Add this to the API's outbound policy: <code>{CORRELATION_ID_POLICY}</code>
+                </div>
+            )}
+            {logLookup?.error && <div className="schema-violations">{logLookup.error}</div>}
+
+            <div className="batch-summary">
+                <span>Paraphrases: {completed}/{paraphrases.length}</span>
+                <span>Hits: {summary.hits}</span>
+                <span>Misses: {summary.misses}</span>
+                {summary.unknown > 0 && <span>Unknown: {summary.unknown}</span>}
+                <span>Latency saved: {summary.latencySavedMs}ms</span>
+                <span>Tokens avoided: {summary.tokensAvoided}</span>
+                <button
+                    className="message-action-button"
+                    onClick={lookupLogs}
+                    disabled={!!runId || correlationIds.length === 0 || !!logLookup?.pending}
+                    title="Reads ApiManagementGatewayLogs and ApiManagementGatewayLlmLog by correlation ID; entries can take a few minutes to appear"
+                >
+                    {logLookup?.pending ? 'Checking Logs…' : 'Check Gateway Logs'}
+                </button>
+                {logLookup && !logLookup.pending && !logLookup.error && (
+                    <span>{logLookup.matched}/{correlationIds.length} log entries found</span>
+                )}
+            </div>
+
+            {report.rows.length > 0 && (
+                <div className="batch-summary">
+                    <span>Threshold {scoreThreshold} predicts {report.rows.filter(row => row.expectedHit).length}/{report.rows.length} hits</span>
+                    <span className={report.mismatches > 0 ? 'schema-invalid' : 'schema-valid'}>Mismatches: {report.mismatches}</span>
+                    <span>Largest hit distance: {report.largestHitDistance?.toFixed(3) ?? '—'}</span>
+                    <span>Smallest miss distance: {report.smallestMissDistance?.toFixed(3) ?? '—'}</span>
+                </div>
+            )}
+
+            <div className="batch-results">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>#</th>
+                            <th>Prompt</th>
+                            <th>Cache</th>
+                            <th>Status</th>
+                            <th>Latency</th>
+                            <th>Tokens</th>
+                            <th>Similarity</th>
+                            <th>Output</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {results.map(result => {
+                            const row = report.rows.find(item => item.index === result.index);
+                            return (
+                                <tr key={result.index} className={result.error ? 'failed' : ''}>
+                                    <td>{result.index === 0 ? 'Original' : result.index}</td>
+                                    <td title={result.prompt}>{result.prompt}</td>
+                                    <td title={result.cacheSource ? SOURCE_LABELS[result.cacheSource] : undefined}>
+                                        <span className={`cache-status ${result.cacheStatus}`}>{result.cacheStatus}</span>
+                                        {result.cacheSource === 'latency' && ' ~'}
+                                    </td>
+                                    <td>{result.statusCode ?? ''}</td>
+                                    <td>{result.latency !== undefined ? `${result.latency}ms` : ''}</td>
+                                    <td>{result.tokens?.total_tokens ?? ''}</td>
+                                    <td title={row ? `Distance ${row.distance.toFixed(3)}, ${row.expectedHit ? 'within' : 'outside'} the threshold` : undefined}>
+                                        {result.similarity !== undefined && result.index > 0 ? result.similarity.toFixed(3) : ''}
+                                        {row && row.actualHit !== undefined && row.actualHit !== row.expectedHit && ' ⚠'}
+                                    </td>
+                                    <td title={result.error || result.output}>{result.error || result.output}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="input-area">
+                <div className="input-container">
+                    {runId ? (
+                        <button onClick={stopTest} className="send-button stop-button">Stop</button>
+                    ) : (
+                        <button
+                            onClick={runTest}
+                            disabled={!canRun || !prompt.trim() || paraphrases.length === 0}
+                            className="send-button"
+                            title="Runs against the API, model and subscription selected in Settings"
+                        >
+                            Run Cache Test
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SemanticCacheView;
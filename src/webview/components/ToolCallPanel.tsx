@@ -0,0 +1,70 @@
+import React from 'react';
+import { ToolCall } from '../../types';
+
+interface ToolCallPanelProps {
+    toolCalls: ToolCall[];
+    answeredIds: string[];
+    drafts: Record<string, string>;
+    disabled: boolean;
+    onDraftChange: (toolCallId: string, value: string) => void;
+    onMock: (toolCall: ToolCall) => void;
+    onSubmit: () => void;
+}
+
+// Pretty-prints arguments when the model returned valid JSON, otherwise shows them verbatim
+const formatArguments = (value: string): string => {
+    try {
+        return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+        return value;
+    }
+};
+
+const ToolCallPanel: React.FC<ToolCallPanelProps> = ({ toolCalls, answeredIds, drafts, disabled, onDraftChange, onMock, onSubmit }) => {
+    const pendingCalls = toolCalls.filter(toolCall => !answeredIds.includes(toolCall.id));
+    const canSubmit = pendingCalls.length > 0 && pendingCalls.every(toolCall => (drafts[toolCall.id] || '').trim() !== '');
+
+    return (
+        <div className="tool-calls">
+            {toolCalls.map(toolCall => {
+                const answered = answeredIds.includes(toolCall.id);
+                return (
+                    <div key={toolCall.id} className={`tool-call ${answered ? 'answered' : ''}`}>
+                        <div className="tool-call-header">
+                            <span className="tool-call-name">ƒ {toolCall.name}</span>
+                            <span className="tool-call-id">{toolCall.id}</span>
+                            {answered && <span className="tool-call-status">✓ Result sent</span>}
+                        </div>
+                        <pre className="tool-call-arguments">{formatArguments(toolCall.arguments)}</pre>
+                        {!answered && (
+                            <div className="tool-result-editor">
+                                <textarea
+                                    value={drafts[toolCall.id] || ''}
+                                    onChange={(e) => onDraftChange(toolCall.id, e.target.value)}
+                                    placeholder="Tool result returned to the model..."
+                                    rows={3}
+                                    disabled={disabled}
+                                />
+                                <button
+                                    className="message-action-button"
+                                    onClick={() => onMock(toolCall)}
+                                    disabled={disabled}
+                                    title="Fill in the mock result configured for this tool"
+                                >
+                                    Mock
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            {pendingCalls.length > 0 && (
+                <button className="send-button tool-submit-button" onClick={onSubmit} disabled={disabled || !canSubmit}>
+                    Submit Tool Results
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default ToolCallPanel;
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { TraceInfo } from '../../types';
+
+interface TraceTimelineProps {
+    traceInfo: TraceInfo;
+}
+
+const formatMs = (value?: number) => value === undefined ? '' : `${value.toFixed(value < 10 ? 2 : 0)}ms`;
+
+const TraceTimeline: React.FC<TraceTimelineProps> = ({ traceInfo }) => {
+    const [expandedEntry, setExpandedEntry] = useState<string | null>(null);
+    const trace = traceInfo.apimTrace;
+
+    return (
+        <div className="trace-timeline">
+            <div className="trace-summary">
+                {traceInfo.requestId && <span>Request ID: {traceInfo.requestId}</span>}
+                {traceInfo.traceId && <span>Trace ID: {traceInfo.traceId}</span>}
+                {trace?.totalMs !== undefined && <span>Gateway time: {formatMs(trace.totalMs)}</span>}
+                {trace?.selectedBackend && <span>Backend: {trace.selectedBackend}</span>}
+                {trace?.rewrittenUrl && <span>Rewritten URL: {trace.rewrittenUrl}</span>}
+                {trace?.backendUrl && <span>Forwarded to: {trace.backendUrl}</span>}
+            </div>
+
+            {traceInfo.traceError && <div className="schema-violations">{traceInfo.traceError}</div>}
+
+            {trace?.sections.map(section => (
+                <div key={section.name} className={`trace-section ${section.name}`}>
+                    <div className="trace-section-name">{section.name}</div>
+                    <ol>
+                        {section.entries.map((entry, index) => {
+                            const key = `${section.name}-${index}`;
+                            return (
+                                <li key={key} className="trace-entry">
+                                    <button
+                                        className="trace-entry-header"
+                                        onClick={() => setExpandedEntry(expandedEntry === key ? null : key)}
+                                        title="Show the entry data"
+                                    >
+                                        <span className="trace-elapsed">{formatMs(entry.elapsedMs)}</span>
+                                        <span className="trace-source">{entry.source}</span>
+                                        {entry.message && <span className="trace-message">{entry.message}</span>}
+                                    </button>
+                                    {expandedEntry === key && entry.data !== undefined && (
+                                        <pre>{JSON.stringify(entry.data, null, 2)}</pre>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default TraceTimeline;